@@ -0,0 +1,201 @@
+// In-memory readers for the archive formats CI tools produce: zip, tar and gzipped tar,
+// and a streaming tar writer for backups
+import * as fs from 'fs';
+import * as path from 'path';
+import { Writable } from 'stream';
+import * as zlib from 'zlib';
+
+const ARCHIVE_EXTS = ['.zip', '.tar', '.tar.gz', '.tgz'];
+
+export function isArchivePath(p: string): boolean {
+  const lower = p.toLowerCase();
+  return ARCHIVE_EXTS.some((ext) => lower.endsWith(ext));
+}
+
+// "docs.tar.gz" -> "docs"
+export function archiveBaseName(fileName: string): string {
+  const lower = fileName.toLowerCase();
+  const ext = ARCHIVE_EXTS.find((e) => lower.endsWith(e));
+  return ext ? fileName.slice(0, -ext.length) : fileName;
+}
+
+// Entry names are relative paths with forward slashes. Anything that could land
+// outside the import root is refused rather than skipped.
+export function safeEntryPath(name: string): string {
+  const normalized = name.replace(/\\/g, '/');
+  if (normalized.startsWith('/') || /^[a-z]:/i.test(normalized)) {
+    throw new Error(`Unsafe path in archive (absolute): ${name}`);
+  }
+  const parts = normalized.split('/').filter((p) => p && p !== '.');
+  if (parts.includes('..')) throw new Error(`Unsafe path in archive (path traversal): ${name}`);
+  return parts.join('/');
+}
+
+// Whether an absolute or relative `target` resolves to `root` or somewhere below it
+export function isWithin(root: string, target: string): boolean {
+  const rel = path.relative(path.resolve(root), path.resolve(root, target));
+  return rel !== '..' && !rel.startsWith(`..${path.sep}`) && !path.isAbsolute(rel);
+}
+
+// Regular files in the archive, keyed by their safe relative path. The format is
+// detected from the content, so it also works for archives piped through stdin.
+export function readArchive(data: Buffer): Map<string, Buffer> {
+  if (data.length >= 4 && data.readUInt32LE(0) === 0x04034b50) return readZip(data);
+  if (data.length >= 4 && data.readUInt32LE(0) === 0x06054b50) return new Map(); // empty zip
+  if (data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b) return readTar(zlib.gunzipSync(data));
+  if (data.length >= 262 && data.toString('latin1', 257, 262) === 'ustar') return readTar(data);
+  throw new Error('Unrecognized archive format (expected zip, tar or tar.gz)');
+}
+
+function readZip(data: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  const eocd = findEndOfCentralDirectory(data);
+  const count = data.readUInt16LE(eocd + 10);
+  let offset = data.readUInt32LE(eocd + 16);
+  if (count === 0xffff || offset === 0xffffffff) throw new Error('ZIP64 archives are not supported');
+
+  for (let i = 0; i < count; i++) {
+    if (data.readUInt32LE(offset) !== 0x02014b50) throw new Error('Corrupt zip: bad central directory entry');
+    const flags = data.readUInt16LE(offset + 8);
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLen = data.readUInt16LE(offset + 28);
+    const extraLen = data.readUInt16LE(offset + 30);
+    const commentLen = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLen);
+    offset += 46 + nameLen + extraLen + commentLen;
+
+    const rel = safeEntryPath(name);
+    if (name.endsWith('/') || !rel) continue;
+    if (flags & 0x1) throw new Error(`Encrypted zip entries are not supported: ${name}`);
+
+    if (data.readUInt32LE(localOffset) !== 0x04034b50) throw new Error(`Corrupt zip: bad local header for ${name}`);
+    const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    const raw = data.subarray(start, start + compressedSize);
+    if (method === 0) files.set(rel, raw);
+    else if (method === 8) files.set(rel, zlib.inflateRawSync(raw));
+    else throw new Error(`Unsupported zip compression method ${method}: ${name}`);
+  }
+  return files;
+}
+
+function findEndOfCentralDirectory(data: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 64 KiB
+  const min = Math.max(0, data.length - 22 - 0xffff);
+  for (let i = data.length - 22; i >= min; i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) return i;
+  }
+  throw new Error('Corrupt zip: end of central directory not found');
+}
+
+function readTar(data: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  let offset = 0;
+  let longName: string | undefined; // from a GNU "L" or pax "x" header, applies to the next entry
+
+  while (offset + 512 <= data.length) {
+    const header = data.subarray(offset, offset + 512);
+    if (header.every((b) => b === 0)) break;
+    const size = parseInt(cString(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const body = data.subarray(offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+
+    if (type === 'L') {
+      longName = cString(body, 0, body.length);
+      continue;
+    }
+    if (type === 'x') {
+      const pax = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(body.toString('utf8'));
+      if (pax) longName = pax[1];
+      continue;
+    }
+    if (type === 'g') continue;
+
+    const prefix = header.toString('latin1', 257, 262) === 'ustar' ? cString(header, 345, 155) : '';
+    const name = longName ?? (prefix ? `${prefix}/${cString(header, 0, 100)}` : cString(header, 0, 100));
+    longName = undefined;
+    const rel = safeEntryPath(name);
+    // Directories, links and devices carry no page content
+    if ((type === '0' || type === '7') && rel) files.set(rel, Buffer.from(body));
+  }
+  return files;
+}
+
+// Streams a ustar archive to a file as entries are added, gzipped for .tar.gz and .tgz names, so
+// an archive never has to fit in memory. Paths longer than the 100-byte name field get a GNU
+// long-name entry first, which readTar understands.
+export class TarWriter {
+  private out: Writable;
+  private stream: fs.WriteStream;
+  private done: Promise<void>;
+  private mtime = Math.floor(Date.now() / 1000);
+
+  constructor(readonly file: string, gzip = false) {
+    const stream = (this.stream = fs.createWriteStream(file));
+    this.done = new Promise((resolve, reject) => {
+      stream.on('close', resolve);
+      stream.on('error', reject);
+    });
+    this.done.catch(() => {}); // surfaced by the pending write or by close()
+    if (gzip) {
+      const gz = zlib.createGzip();
+      gz.on('error', (e) => stream.destroy(e));
+      gz.pipe(stream);
+      this.out = gz;
+    } else {
+      this.out = stream;
+    }
+  }
+
+  // Resolves once the entry has been handed to the file, so at most one block is held at a time
+  async add(name: string, data: Buffer): Promise<void> {
+    const rel = safeEntryPath(name);
+    if (Buffer.byteLength(rel) > 100) await this.entry('././@LongLink', 'L', Buffer.from(`${rel}\0`));
+    await this.entry(rel, '0', data);
+  }
+
+  async close(): Promise<void> {
+    await this.write(Buffer.alloc(1024));
+    this.out.end();
+    await this.done;
+  }
+
+  // Stops writing and removes the unfinished archive
+  async abort(): Promise<void> {
+    this.out.destroy();
+    this.stream.destroy();
+    await this.done.catch(() => {});
+    await fs.promises.rm(this.file, { force: true });
+  }
+
+  private async entry(name: string, type: string, body: Buffer): Promise<void> {
+    const header = Buffer.alloc(512);
+    header.write(name, 0, 100, 'utf8');
+    header.write('0000644\0', 100, 'latin1');
+    header.write('0000000\0', 108, 'latin1');
+    header.write('0000000\0', 116, 'latin1');
+    header.write(`${body.length.toString(8).padStart(11, '0')}\0`, 124, 'latin1');
+    header.write(`${this.mtime.toString(8).padStart(11, '0')}\0`, 136, 'latin1');
+    header.write(type, 156, 'latin1');
+    header.write('ustar\x0000', 257, 'latin1');
+    header.fill(0x20, 148, 156); // the checksum counts its own field as spaces
+    const sum = header.reduce((n, b) => n + b, 0);
+    header.write(`${sum.toString(8).padStart(6, '0')}\0 `, 148, 'latin1');
+    await this.write(header);
+    await this.write(body);
+    const padding = (512 - (body.length % 512)) % 512;
+    if (padding) await this.write(Buffer.alloc(padding));
+  }
+
+  private write(chunk: Buffer): Promise<void> {
+    return new Promise((resolve, reject) => this.out.write(chunk, (e) => (e ? reject(e) : resolve())));
+  }
+}
+
+function cString(buf: Buffer, start: number, length: number): string {
+  const slice = buf.subarray(start, start + length);
+  const end = slice.indexOf(0);
+  return slice.toString('utf8', 0, end === -1 ? slice.length : end);
+}
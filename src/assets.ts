@@ -0,0 +1,123 @@
+// Local copies of the gallery images and attachments exported pages link to (--with-assets)
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { Attachment } from './bookstack-client';
+import { normalizeImagePath } from './images';
+import { describeError } from './report';
+
+// Absolute or root-relative links to uploaded images and to attachments
+const IMAGE_LINK_RE = /(?:https?:\/\/[^\s"'()<>]*?)?\/uploads\/images\/[^\s"'()<>?#]+(?:\?[^\s"'()<>#]*)?/g;
+const ATTACHMENT_LINK_RE = /(?:https?:\/\/[^\s"'()<>]*?)?\/attachments\/(\d+)(?:\?open=true)?(?![\w/])/g;
+
+export interface AssetRef {
+  link: string; // as written in the page
+  key: string; // the same asset behind different links, e.g. scaled and original images
+  image?: string; // instance path of the original image
+  attachmentId?: number;
+}
+
+export interface AssetClient {
+  webBase(): string;
+  download(url: string): Promise<Uint8Array>;
+  getAttachment(id: number): Promise<Attachment>;
+}
+
+export interface AssetStats {
+  files: number;
+  bytes: number;
+  failed: number;
+}
+
+// Links that point at this instance; uploads elsewhere are left alone
+export function findAssetRefs(content: string, webBase: string): AssetRef[] {
+  const base = webBase.replace(/\/+$/, '');
+  const onInstance = (link: string) => link.startsWith('/') || link.startsWith(`${base}/`);
+  const refs = new Map<string, AssetRef>();
+  for (const m of content.matchAll(IMAGE_LINK_RE)) {
+    if (!onInstance(m[0]) || refs.has(m[0])) continue;
+    const image = normalizeImagePath(m[0]);
+    refs.set(m[0], { link: m[0], key: `image:${image}`, image });
+  }
+  for (const m of content.matchAll(ATTACHMENT_LINK_RE)) {
+    if (!onInstance(m[0]) || refs.has(m[0])) continue;
+    const attachmentId = parseInt(m[1], 10);
+    refs.set(m[0], { link: m[0], key: `attachment:${attachmentId}`, attachmentId });
+  }
+  return [...refs.values()];
+}
+
+// Swaps whole links only, so a link never matches inside a longer one
+export function replaceAssetLinks(content: string, hrefs: Map<string, string>): string {
+  const swap = (link: string) => hrefs.get(link) ?? link;
+  return content.replace(IMAGE_LINK_RE, swap).replace(ATTACHMENT_LINK_RE, swap);
+}
+
+// Lowercase name safe on every filesystem; names taken by other assets get a -2, -3... suffix
+function assetFileName(name: string, taken: Set<string>): string {
+  const ext = path.extname(name).toLowerCase();
+  const stem = path.basename(name, path.extname(name))
+    .normalize('NFKD')
+    .replace(/[^a-zA-Z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase() || 'asset';
+  let candidate = `${stem}${ext}`;
+  for (let n = 2; taken.has(candidate); n++) candidate = `${stem}-${n}${ext}`;
+  taken.add(candidate);
+  return candidate;
+}
+
+// One assets/ folder, shared by the pages that write into it. Each asset is downloaded once,
+// even when pages exporting in parallel link to it.
+export class AssetFolder {
+  private saved = new Map<string, Promise<string | null>>(); // asset key → href relative to the folder, or an external link
+  private names = new Set<string>();
+
+  constructor(private client: AssetClient, readonly dir: string, private stats: AssetStats) {}
+
+  // Downloads what the page links to and points the links at the local copies, relative to fromDir.
+  // Assets that fail to download keep their instance link.
+  async localize(content: string, fromDir: string, warn: (msg: string) => void): Promise<string> {
+    const hrefs = new Map<string, string>();
+    for (const ref of findAssetRefs(content, this.client.webBase())) {
+      let saved = this.saved.get(ref.key);
+      if (!saved) {
+        saved = this.save(ref, warn);
+        this.saved.set(ref.key, saved);
+      }
+      const target = await saved;
+      if (!target) continue;
+      hrefs.set(ref.link, /^[a-z][a-z0-9+.-]*:/i.test(target) ? target : toPosix(path.relative(fromDir, path.join(this.dir, target))));
+    }
+    return hrefs.size ? replaceAssetLinks(content, hrefs) : content;
+  }
+
+  private async save(ref: AssetRef, warn: (msg: string) => void): Promise<string | null> {
+    try {
+      let name: string;
+      let data: Uint8Array;
+      if (ref.image) {
+        name = path.posix.basename(ref.image);
+        data = await this.client.download(ref.image);
+      } else {
+        const att = await this.client.getAttachment(ref.attachmentId!);
+        // Link attachments have nothing to download; point straight at their target
+        if (att.external) return att.content || null;
+        name = att.extension && !att.name.toLowerCase().endsWith(`.${att.extension.toLowerCase()}`) ? `${att.name}.${att.extension}` : att.name;
+        data = Buffer.from(att.content || '', 'base64');
+      }
+      const fileName = assetFileName(name, this.names);
+      await fs.outputFile(path.join(this.dir, fileName), data);
+      this.stats.files++;
+      this.stats.bytes += data.length;
+      return fileName;
+    } catch (e) {
+      this.stats.failed++;
+      warn(`Could not download ${ref.link}: ${describeError(e)}`);
+      return null;
+    }
+  }
+}
+
+function toPosix(p: string): string {
+  return p.split(path.sep).join('/');
+}
@@ -0,0 +1,143 @@
+// JSON interchange format for a whole book, read by `import -f json` and written by `book export -f json`
+import { BookStackClient, Tag } from './bookstack-client';
+import { cleanTags, normalizeTags } from './tags';
+
+export const BOOK_JSON_VERSION = 1;
+
+export interface BookJsonPage {
+  name: string;
+  priority?: number;
+  tags?: Tag[];
+  template?: boolean;
+  markdown?: string; // preferred when both are given; html is rendered from it
+  html?: string;
+}
+
+export interface BookJsonChapter {
+  name: string;
+  description?: string;
+  priority?: number;
+  tags?: Tag[];
+  pages: BookJsonPage[];
+}
+
+export interface BookJson {
+  version: number;
+  name: string;
+  description?: string;
+  tags?: Tag[];
+  pages: BookJsonPage[]; // directly in the book
+  chapters: BookJsonChapter[];
+}
+
+// Validates a parsed document; errors name the offending field, e.g. "chapters[0].pages[2].name"
+export function parseBookJson(data: unknown): BookJson {
+  const book = asObject(data, 'book');
+  if (book.version !== undefined && book.version !== BOOK_JSON_VERSION) {
+    throw new Error(`unsupported version ${JSON.stringify(book.version)} (expected ${BOOK_JSON_VERSION})`);
+  }
+  return {
+    version: BOOK_JSON_VERSION,
+    name: asString(book.name, 'name'),
+    description: optionalString(book.description, 'description'),
+    tags: normalizeTags(book.tags),
+    pages: asArray(book.pages, 'pages').map((p, i) => parsePage(p, `pages[${i}]`)),
+    chapters: asArray(book.chapters, 'chapters').map((ch, i) => parseChapter(ch, `chapters[${i}]`)),
+  };
+}
+
+function parseChapter(data: unknown, where: string): BookJsonChapter {
+  const ch = asObject(data, where);
+  return {
+    name: asString(ch.name, `${where}.name`),
+    description: optionalString(ch.description, `${where}.description`),
+    priority: optionalInteger(ch.priority, `${where}.priority`),
+    tags: normalizeTags(ch.tags),
+    pages: asArray(ch.pages, `${where}.pages`).map((p, i) => parsePage(p, `${where}.pages[${i}]`)),
+  };
+}
+
+function parsePage(data: unknown, where: string): BookJsonPage {
+  const page = asObject(data, where);
+  if (page.template !== undefined && typeof page.template !== 'boolean') {
+    throw new Error(`${where}.template must be true or false`);
+  }
+  return {
+    name: asString(page.name, `${where}.name`),
+    priority: optionalInteger(page.priority, `${where}.priority`),
+    tags: normalizeTags(page.tags),
+    template: page.template as boolean | undefined,
+    markdown: optionalString(page.markdown, `${where}.markdown`),
+    html: optionalString(page.html, `${where}.html`),
+  };
+}
+
+// Reads the book, its chapters and every page, keeping BookStack's ordering
+export async function exportBookJson(client: BookStackClient, bookId: number): Promise<BookJson> {
+  const book = await client.getBook(bookId);
+  const contents: any[] = (book as any).contents || (book as any).content || [];
+  const toPage = async (id: number): Promise<BookJsonPage> => {
+    const page = await client.getPage(id);
+    return {
+      name: page.name,
+      priority: page.priority,
+      tags: cleanTags(page.tags),
+      template: page.template || undefined,
+      ...(page.markdown ? { markdown: page.markdown } : { html: page.html || '' }),
+    };
+  };
+  const pages: BookJsonPage[] = [];
+  const chapters: BookJsonChapter[] = [];
+  for (const item of contents) {
+    if (item.type === 'page') {
+      pages.push(await toPage(item.id));
+    } else if (item.type === 'chapter') {
+      const chapter = await client.getChapter(item.id);
+      const chapterPages: BookJsonPage[] = [];
+      for (const p of Array.isArray(item.pages) ? item.pages : []) chapterPages.push(await toPage(p.id));
+      chapters.push({
+        name: chapter.name,
+        description: chapter.description || undefined,
+        priority: chapter.priority,
+        tags: cleanTags(chapter.tags),
+        pages: chapterPages,
+      });
+    }
+  }
+  return {
+    version: BOOK_JSON_VERSION,
+    name: book.name,
+    description: book.description || undefined,
+    tags: cleanTags(book.tags),
+    pages,
+    chapters,
+  };
+}
+
+function asObject(value: unknown, where: string): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error(`${where} must be an object`);
+  return value as Record<string, unknown>;
+}
+
+function asArray(value: unknown, where: string): unknown[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new Error(`${where} must be an array`);
+  return value;
+}
+
+function asString(value: unknown, where: string): string {
+  if (typeof value !== 'string' || !value.trim()) throw new Error(`${where} must be a non-empty string`);
+  return value;
+}
+
+function optionalString(value: unknown, where: string): string | undefined {
+  if (value == null) return undefined;
+  if (typeof value !== 'string') throw new Error(`${where} must be a string`);
+  return value;
+}
+
+function optionalInteger(value: unknown, where: string): number | undefined {
+  if (value == null) return undefined;
+  if (!Number.isInteger(value)) throw new Error(`${where} must be an integer`);
+  return value as number;
+}
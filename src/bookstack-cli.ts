@@ -1,13 +1,24 @@
 #!/usr/bin/env node
 
 import { Command } from "commander";
-import { BookStackClient } from "./bookstack-client";
-import { ImportCommand } from "./commands/import";
+import { Attachment, BookStackClient, ListOptions, ListResult, Page, ShelfInput, Tag, TagSummary } from "./bookstack-client";
+import { DEFAULT_ARCHIVE_CHAPTER, ImportCommand } from "./commands/import";
+import { BackupCommand, DEFAULT_ID_MAP, RestoreCommand } from "./commands/backup";
+import { exportBookJson } from "./book-json";
 import * as fs from "fs-extra";
 import * as path from "path";
 import { resolveConfig, redact } from "./config";
+import { DEFAULT_RETRIES, DEFAULT_RETRY_DELAY_MS, DEFAULT_RETRY_MAX_DELAY_MS } from "./http-retry";
 import { isAxiosError } from "axios";
-import { c, createSpinner, createProgressBar, configureUi, formatBytes, formatDuration, icons } from "./ui";
+import { findOrphanImages, PageContent } from "./images";
+import { AssetFolder, AssetStats } from "./assets";
+import { DEFAULT_CONCURRENCY, TaskPool } from "./pool";
+import { Checkpoint, JOURNAL_FILE } from "./checkpoint";
+import { applyExportPlan, buildExportState, loadExportState, planExport, PlannedPage, saveExportState } from "./export-state";
+import { commitRun, GIT_MODES, GitMode, GitRepo, replayRevisions } from "./git-export";
+import { describeError, EXIT_PARTIAL_FAILURE, failureTable, ReportItem, RunReport } from "./report";
+import { cleanTags, formatTags, parseTag } from "./tags";
+import { c, confirm, createSpinner, createProgressBar, configureUi, formatBytes, formatDuration, icons } from "./ui";
 
 const program = new Command();
 
@@ -33,7 +44,16 @@ program
   .description(
     "An Automated CLI for viewing, managing, importing, and exporting content for BookStack"
   )
-  .version(readVersion());
+  .version(readVersion())
+  .option("-u, --url <url>", "BookStack base URL")
+  .option("-i, --token-id <id>", "API token ID")
+  .option("-s, --token-secret <secret>", "API token secret")
+  .option("-c, --config <path>", "Config file (auto-detected if omitted)")
+  .option("-q, --quiet", "Suppress non-essential output")
+  .option("--no-color", "Disable ANSI colors")
+  .option("--retries <n>", "Retries for throttled or failed requests (default: 3)", parseNonNegativeInt)
+  .option("--retry-delay <ms>", "Initial retry backoff in ms (default: 500)", parseNonNegativeInt)
+  .option("--retry-max-delay <ms>", "Maximum retry backoff in ms (default: 30000)", parseNonNegativeInt);
 
 // 'help' manpage
 program
@@ -41,8 +61,8 @@ program
   .description("Show a concise CLI reference")
   .action(async () => {
     const globalOpts = program.opts();
-    configureUi({ color: !globalOpts?.noColor, quiet: !!globalOpts?.quiet });
-    const pad = (s: string, n = 18) => (s + ' '.repeat(n)).slice(0, n);
+    configureUi({ color: globalOpts?.color !== false, quiet: !!globalOpts?.quiet });
+    const pad = (s: string, n = 18) => (s + ' '.repeat(n)).slice(0, Math.max(n, s.length + 1));
     const lines: string[] = [];
     lines.push(`${c.bold('BookStack CLI')} – view, import, and export BookStack content`);
     lines.push('');
@@ -56,24 +76,39 @@ program
     lines.push(`  ${pad('-c, --config <path>')}${c.gray('Config file (auto-detected if omitted)')}`);
     lines.push(`  ${pad('-q, --quiet')}${c.gray('Suppress non-essential output')}`);
     lines.push(`  ${pad('--no-color')}${c.gray('Disable ANSI colors')}`);
+    lines.push(`  ${pad('--retries <n>')}${c.gray('Retries for 429/5xx/network errors (default: 3)')}`);
+    lines.push(`  ${pad('--retry-delay <ms>')}${c.gray('Initial backoff, doubled per attempt (default: 500)')}`);
+    lines.push(`  ${pad('--retry-max-delay <ms>')}${c.gray('Backoff ceiling (default: 30000)')}`);
     lines.push('');
     lines.push(`${c.bold('Core Commands')}`);
-    lines.push(`  ${pad('books list')}${c.gray('List books (use --json for JSON)')}`);
+    lines.push(`  ${pad('books list')}${c.gray('List books (--limit, --offset, --all)')}`);
     lines.push(`  ${pad('book show <book>')}${c.gray('Show a book with contents (--json, --plain)')}`);
     lines.push(`  ${pad('book tree <book>')}${c.gray('Tree of chapters/pages (--ids, --type, --json, --plain)')}`);
-    lines.push(`  ${pad('book export <book>')}${c.gray('Export book (markdown|html|plaintext|pdf)')}`);
+    lines.push(`  ${pad('book export <book>')}${c.gray('Export book (markdown|html|plaintext|pdf|json)')}`);
     lines.push(`  ${pad('book export-contents <book>')}${c.gray('Write chapter/page files to a folder')}`);
     lines.push(`  ${pad('chapters list --book <book>')}${c.gray('List chapters for a book (--json)')}`);
     lines.push(`  ${pad('chapter show <chapter>')}${c.gray('Show chapter and pages (--json, --plain)')}`);
     lines.push(`  ${pad('chapter export <chapter>')}${c.gray('Export chapter (markdown|html|plaintext|pdf)')}`);
-    lines.push(`  ${pad('pages list [--book <book>]')}${c.gray('List pages (optionally by book) (--json)')}`);
+    lines.push(`  ${pad('pages list [--book <book>]')}${c.gray('List pages (optionally by book) (--limit, --offset, --all)')}`);
     lines.push(`  ${pad('page show <page>')}${c.gray('Show page metadata (--json)')}`);
     lines.push(`  ${pad('page export <page>')}${c.gray('Export page (markdown|html|plaintext|pdf)')}`);
-    lines.push(`  ${pad('shelves list')}${c.gray('List shelves (--json)')}`);
+    lines.push(`  ${pad('shelves list')}${c.gray('List shelves (--limit, --offset, --all)')}`);
     lines.push(`  ${pad('shelves show <shelf>')}${c.gray('Show shelf and its books')}`);
+    lines.push(`  ${pad('images list|read')}${c.gray('List or inspect gallery images (--json)')}`);
+    lines.push(`  ${pad('images upload|update|delete|download')}${c.gray('Manage gallery image files')}`);
+    lines.push(`  ${pad('images orphans')}${c.gray('Report images no page references (--delete)')}`);
+    lines.push(`  ${pad('tags list')}${c.gray('List tag names, or values with --name <name>')}`);
+    lines.push(`  ${pad('attachments list|show')}${c.gray('List or inspect attachments (--page <page>, --json)')}`);
+    lines.push(`  ${pad('attachments upload|download|delete')}${c.gray('Attach files or links to pages, fetch or remove them')}`);
     lines.push(`  ${pad('search <query>')}${c.gray('Global search (supports rich filters, --json)')}`);
     lines.push(`  ${pad('find <query>')}${c.gray('Quick ID lookup (wrapper around search)')}`);
     lines.push(`  ${pad('import <source>')}${c.gray('Import files/dirs into a book (--chapter-from, --flatten)')}`);
+    lines.push(`  ${pad('backup <dir|archive>')}${c.gray('Save every shelf, book, page, image and attachment')}`);
+    lines.push(`  ${pad('restore <dir|archive>')}${c.gray('Recreate a backup on an empty instance (--map, --dry-run)')}`);
+    lines.push(`  ${pad('book create|update|delete')}${c.gray('Write books (--name, --description, --tag)')}`);
+    lines.push(`  ${pad('chapter create|update|delete|move')}${c.gray('Write chapters (--book, --name, --priority, --tag)')}`);
+    lines.push(`  ${pad('page create|update|delete|move')}${c.gray('Write pages (--markdown/--html <file|->, --tag)')}`);
+    lines.push(`  ${pad('shelf create|update|delete')}${c.gray('Write shelves (--name, --book, --tag)')}`);
     lines.push(`  ${pad('config init|show')}${c.gray('Create or inspect local config')}`);
     lines.push('');
     lines.push(`${c.bold('Search Filter Examples')}`);
@@ -103,7 +138,7 @@ const bookCmd = program
 program
   .command("import")
   .description("Import content into BookStack")
-  .argument("<source>", "Source file or directory to import")
+  .argument("<source>", "Source file, directory, or .zip/.tar/.tar.gz archive (- reads an archive from stdin)")
   .option("-b, --book <name>", "Target book name or ID")
   .option(
     "-f, --format <format>",
@@ -121,6 +156,35 @@ program
     "--flatten",
     "Import all files directly into the book (no chapters)"
   )
+  .option("--include <glob>", "Only import files matching this glob (repeatable)", collect, [])
+  .option("--exclude <glob>", "Skip files and folders matching this glob (repeatable)", collect, [])
+  .option(
+    "--no-upload-images",
+    "Leave local image references as-is instead of uploading them to the gallery"
+  )
+  .option(
+    "--metadata-precedence <source>",
+    "Which page metadata wins when both exist: front-matter|sidecar",
+    "front-matter"
+  )
+  .option(
+    "--sync",
+    "Mirror the directory: remove remote pages and chapters that no longer exist locally"
+  )
+  .option(
+    "--archive-orphans [chapter]",
+    `With --sync, move orphans into a holding chapter instead of deleting them (default: "${DEFAULT_ARCHIVE_CHAPTER}")`
+  )
+  .option("-y, --yes", "Skip the --sync confirmation prompt")
+  .option(
+    "--no-state",
+    "Don't read or write the .bookstack-state.json manifest in the source directory"
+  )
+  .option("--concurrency <n>", "Pages created or updated in parallel (default: 1)", parsePositiveInt, DEFAULT_CONCURRENCY)
+  .option("--resume", "Continue an interrupted import, skipping pages it already finished")
+  .option("--report <file>", "Write a JSON report of every book, chapter and page to this file")
+  .option("--json", "Print the JSON report to stdout instead of log lines")
+  .option("--continue-on-error", `Record failed pages and chapters and keep going; exits with ${EXIT_PARTIAL_FAILURE} if any failed`)
   .option(
     "--dry-run",
     "Show what would be imported without making changes"
@@ -128,21 +192,17 @@ program
   .action(async (source, options) => {
     try {
       const globalOpts = program.opts();
-      configureUi({ color: !globalOpts?.noColor, quiet: !!globalOpts?.quiet });
-      const config = await resolveConfig({
-        explicitPath: globalOpts.config,
-        cli: {
-          url: globalOpts.url,
-          tokenId: globalOpts.tokenId,
-          tokenSecret: globalOpts.tokenSecret,
-        },
-      });
-
-      const client = new BookStackClient({
-        baseUrl: config.url || "",
-        tokenId: config.tokenId || "",
-        tokenSecret: config.tokenSecret || "",
-      });
+      // The JSON report is the only thing on stdout
+      configureUi({ color: globalOpts?.color !== false, quiet: !!globalOpts?.quiet || !!options.json });
+      if (!["front-matter", "sidecar"].includes(options.metadataPrecedence)) {
+        console.error("Invalid metadata precedence. Use one of: front-matter, sidecar");
+        process.exit(1);
+      }
+      if (options.archiveOrphans && !options.sync) {
+        console.error("--archive-orphans requires --sync");
+        process.exit(1);
+      }
+      const client = await createClient(globalOpts);
 
       const { ImportCommand } = await import("./commands/import");
       const importCmd = new ImportCommand(client);
@@ -150,6 +210,40 @@ program
         ...options,
         ...globalOpts,
       });
+      if (importCmd.failed) process.exit(EXIT_PARTIAL_FAILURE);
+    } catch (error) {
+      handleAxiosError(error);
+    }
+  });
+
+program
+  .command("backup")
+  .description("Back up every shelf, book, chapter, page, image and attachment")
+  .argument("<target>", "Output directory, or a .tar/.tar.gz archive")
+  .action(async (target: string) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet });
+      const client = await createClient(globalOpts);
+      await new BackupCommand(client).execute(target);
+    } catch (error) {
+      handleAxiosError(error);
+    }
+  });
+
+program
+  .command("restore")
+  .description("Recreate a backup on an empty instance")
+  .argument("<source>", "Backup directory or archive")
+  .option("--map <file>", `Write the old → new ID table to this file (default: ${DEFAULT_ID_MAP})`)
+  .option("-y, --yes", "Restore even if the instance already has books, without asking")
+  .option("--dry-run", "Read the backup and show what it holds without creating anything")
+  .action(async (source: string, opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet });
+      const client = await createClient(globalOpts);
+      await new RestoreCommand(client).execute(source, opts);
     } catch (error) {
       handleAxiosError(error);
     }
@@ -165,23 +259,10 @@ bookCmd
     try {
       const globalOpts = program.opts();
       configureUi({
-        color: !globalOpts.noColor,
-        quiet: !!globalOpts.quiet || !!opts.json,
-      });
-      const config = await resolveConfig({
-        explicitPath: globalOpts.config,
-        cli: {
-          url: globalOpts.url,
-          tokenId: globalOpts.tokenId,
-          tokenSecret: globalOpts.tokenSecret,
-        },
-      });
-
-      const client = new BookStackClient({
-        baseUrl: config.url || "",
-        tokenId: config.tokenId || "",
-        tokenSecret: config.tokenSecret || "",
+        color: globalOpts.color !== false,
+        quiet: !!globalOpts.quiet, json: !!opts.json,
       });
+      const client = await createClient(globalOpts);
 
       const bookId = await resolveBookId(client, String(bookArg));
       if (bookId == null) {
@@ -201,6 +282,7 @@ bookCmd
           slug: book.slug,
           name: book.name,
           description: (book as any).description || undefined,
+          tags: cleanTags(book.tags) || [],
           top_level_pages: pages.map((p: any) => ({
             id: p.id,
             name: p.name,
@@ -230,6 +312,9 @@ bookCmd
       if ((book as any).description) {
         console.log(`  ${c.italic((book as any).description)}`);
       }
+      if (book.tags?.length) {
+        console.log(`  ${c.cyan("Tags")}: ${formatTags(book.tags)}`);
+      }
       if (pages.length) {
         console.log(`\n${c.bold(c.cyan("Top‑level Pages"))}`);
         pages.forEach((p: any, i: number) => {
@@ -278,11 +363,11 @@ bookCmd
 
 bookCmd
   .command("export")
-  .description("Export a book to markdown, html, plaintext, or pdf")
+  .description("Export a book to markdown, html, plaintext, pdf, or json")
   .argument("<book>", "Book identifier (ID, name, or slug)")
   .option(
     "-f, --format <fmt>",
-    "Export format: markdown|html|plaintext|pdf",
+    "Export format: markdown|html|plaintext|pdf|json",
     "markdown"
   )
   .option("-o, --out <path>", "Output file path (defaults based on format)")
@@ -290,21 +375,8 @@ bookCmd
   .action(async (bookArg: string, opts: any) => {
     try {
       const globalOpts = program.opts();
-      configureUi({ color: !globalOpts.noColor, quiet: !!globalOpts.quiet });
-      const config = await resolveConfig({
-        explicitPath: globalOpts.config,
-        cli: {
-          url: globalOpts.url,
-          tokenId: globalOpts.tokenId,
-          tokenSecret: globalOpts.tokenSecret,
-        },
-      });
-
-      const client = new BookStackClient({
-        baseUrl: config.url || "",
-        tokenId: config.tokenId || "",
-        tokenSecret: config.tokenSecret || "",
-      });
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet });
+      const client = await createClient(globalOpts);
 
       const bookId = await resolveBookId(client, String(bookArg));
       if (bookId == null) {
@@ -325,11 +397,29 @@ bookCmd
             return `${slug}.txt`;
           case "pdf":
             return `${slug}.pdf`;
+          case "json":
+            return `${slug}.json`;
           default:
             return `${slug}.out`;
         }
       })();
 
+      if (format === "json") {
+        const t0 = Date.now();
+        const spin = createSpinner("Exporting book (json)…").start();
+        const text = JSON.stringify(await exportBookJson(client, bookId), null, 2) + "\n";
+        spin.succeed("Exported book (json)");
+        if (opts.stdout) {
+          process.stdout.write(text);
+          return;
+        }
+        const outPath = opts.out || defaultOut;
+        await fs.writeFile(outPath, text, "utf8");
+        const elapsed = Date.now() - t0;
+        console.log(`Saved json export to ${outPath} (${formatBytes(Buffer.byteLength(text, 'utf8'))}, ${formatDuration(elapsed)})`);
+        return;
+      }
+
       if (format === "pdf") {
         console.log(c.yellow("Note: PDF export can take longer to generate."));
         const t0 = Date.now();
@@ -345,7 +435,7 @@ bookCmd
 
       if (!["markdown", "html", "plaintext"].includes(format)) {
         console.error(
-          "Invalid format. Use one of: markdown, html, plaintext, pdf"
+          "Invalid format. Use one of: markdown, html, plaintext, pdf, json"
         );
         process.exit(1);
       }
@@ -379,25 +469,22 @@ bookCmd
     "markdown"
   )
   .option("--structure <type>", "Export structure: legacy|nested (default: nested)", "nested")
+  .option("--concurrency <n>", "Pages exported in parallel (default: 1)", parsePositiveInt, DEFAULT_CONCURRENCY)
+  .option("--resume", "Continue an interrupted export, skipping pages it already wrote")
+  .option("--report <file>", "Write a JSON report of every exported page to this file")
+  .option("--json", "Print the JSON report to stdout instead of log lines")
+  .option("--continue-on-error", `Record failed pages and keep going; exits with ${EXIT_PARTIAL_FAILURE} if any failed`)
+  .option("--with-assets", "Download linked images and attachments into assets/ and link to the local copies")
+  .option("--since <when>", 'Only export pages changed since an ISO timestamp, or since the previous run with "last"', parseSince)
+  .option("--git [mode]", 'Commit the output to a git repository: one commit per run, or "revisions" to replay page revisions first')
   .option("--dry-run", "Preview files without writing")
   .action(async (bookArg: string, opts: any) => {
+    const report = new RunReport("export", !!opts.dryRun);
     try {
       const globalOpts = program.opts();
-      configureUi({ color: !globalOpts.noColor, quiet: !!globalOpts.quiet });
-      const config = await resolveConfig({
-        explicitPath: globalOpts.config,
-        cli: {
-          url: globalOpts.url,
-          tokenId: globalOpts.tokenId,
-          tokenSecret: globalOpts.tokenSecret,
-        },
-      });
-
-      const client = new BookStackClient({
-        baseUrl: config.url || "",
-        tokenId: config.tokenId || "",
-        tokenSecret: config.tokenSecret || "",
-      });
+      // The JSON report is the only thing on stdout
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet || !!opts.json });
+      const client = await createClient(globalOpts);
 
       const bookId = await resolveBookId(client, String(bookArg));
       if (bookId == null) {
@@ -420,11 +507,17 @@ bookCmd
         process.exit(1);
       }
 
+      const gitMode: GitMode | undefined = opts.git === true ? "run" : opts.git;
+      if (gitMode && !GIT_MODES.includes(gitMode)) {
+        console.error("Invalid git mode. Use one of: run, revisions");
+        process.exit(1);
+      }
+
       const ext = fmt === "plaintext" ? "txt" : fmt === "markdown" ? "md" : "html";
 
       const contents = (book as any).contents || (book as any).content || [];
-      const chapters = contents.filter((c: any) => c.type === "chapter");
-      const pages = contents.filter((p: any) => p.type === "page");
+      let chapters = contents.filter((c: any) => c.type === "chapter");
+      let pages = contents.filter((p: any) => p.type === "page");
 
       // Ensure root
       if (!opts.dryRun) await fs.ensureDir(outRoot);
@@ -438,12 +531,63 @@ bookCmd
       if (structure === "nested" && !opts.dryRun) {
         const bookMeta = {
           name: book.name,
-          description: book.description || undefined
+          description: book.description || undefined,
+          tags: cleanTags(book.tags),
         };
         const bookMetaPath = require("path").join(outRoot, ".book-metadata.json");
         await fs.writeFile(bookMetaPath, JSON.stringify(bookMeta, null, 2) + "\n", "utf8");
       }
 
+      // Opened before anything is written, so a missing git stops the run early
+      const repo = gitMode && !opts.dryRun ? await GitRepo.open(outRoot) : undefined;
+      const host = gitMode ? new URL(client.webBase()).host : "";
+
+      // Every run records where each page went; --since compares against the previous record
+      const stateTarget = `book:${bookId}:${structure}:${fmt}`;
+      const relPath = (p: string) => path.relative(outRoot, p).split(path.sep).join("/");
+      const planned = plannedPages(structure, outRoot, pages, chapters, ext);
+      const contentFile = (p: PlannedPage) => (structure === "nested" ? `${p.path}/page.${ext}` : p.path);
+      const chapterDirs = Object.fromEntries(chapters.map((ch: any) => [ch.id, relPath(exportChapterDir(structure, outRoot, ch))]));
+      const previous = opts.since || gitMode === "revisions" ? await loadExportState(outRoot, stateTarget) : undefined;
+      if (opts.since) {
+        const plan = await planExport(outRoot, planned, Object.values(chapterDirs), previous, opts.since);
+        if (opts.since === "last" && !previous) {
+          console.log(`${icons.info} No earlier export recorded in ${outRoot}; exporting every page`);
+        } else {
+          const since = opts.since === "last" ? `the last export (${previous!.exportedAt})` : opts.since.toISOString();
+          console.log(`${icons.info} ${plan.export.size} of ${planned.length} pages changed since ${since}`);
+        }
+        for (const rel of plan.removals) {
+          console.log(`  ${opts.dryRun ? `${icons.dry} Would remove` : `${icons.info} Removed`} deleted page: ${c.gray(rel)}`);
+        }
+        for (const { from, to } of plan.moves) {
+          console.log(`  ${opts.dryRun ? `${icons.dry} Would move` : `${icons.info} Moved`} renamed page: ${c.gray(`${from} → ${to}`)}`);
+        }
+        if (!opts.dryRun) await applyExportPlan(outRoot, plan);
+        // Legacy pages link to the shared assets folder relative to their own depth
+        if (structure === "legacy" && opts.withAssets) plan.moves.forEach((m) => plan.export.add(m.id));
+
+        for (const p of planned) {
+          if (plan.export.has(p.id)) continue;
+          report.add({ type: "page", status: "unchanged", name: p.name, id: p.id, path: contentFile(p), url: client.pageUrl(slug, p.slug) });
+        }
+        const changed = (p: any) => plan.export.has(p.id);
+        pages = pages.filter(changed);
+        chapters = chapters.map((ch: any) => ({ ...ch, pages: (Array.isArray(ch.pages) ? ch.pages : []).filter(changed) }));
+      }
+
+      // Page history is committed before this run's files are written, so the run commit holds
+      // only what the revisions leave out (metadata, moves and deletions)
+      if (repo && gitMode === "revisions") {
+        const exporting = new Set([...pages, ...chapters.flatMap((ch: any) => (Array.isArray(ch.pages) ? ch.pages : []))].map((p: any) => p.id));
+        const replay = planned
+          .filter((p) => exporting.has(p.id))
+          .map((p) => ({ id: p.id, name: p.name, file: contentFile(p), after: previous?.pages[p.id]?.updatedAt }));
+        const commits = await replayRevisions(repo, client, replay, fmt, host);
+        if (commits === undefined) console.log(`${icons.warning} This BookStack instance has no page revisions API; committing the export as one commit`);
+        else console.log(`${icons.info} Committed ${commits} page revisions to git`);
+      }
+
       // Calculate total for progress bar
       const total =
         pages.length +
@@ -452,31 +596,80 @@ bookCmd
             n + (Array.isArray(ch.pages) ? ch.pages.length : 0),
           0
         );
+      // Pages are journaled as they are written so an interrupted export can be resumed
+      let journal: Checkpoint | undefined;
+      if (!opts.dryRun) {
+        journal = new Checkpoint(path.join(outRoot, JOURNAL_FILE), { kind: "export", target: `book:${bookId}:${structure}:${fmt}` });
+        const carried = await journal.open(!!opts.resume);
+        if (opts.resume) console.log(`${icons.info} Resuming: ${carried} pages were written by the interrupted export`);
+      }
+
       const bar = createProgressBar(total, "Writing");
       const t0 = Date.now();
       let files = 0;
       let bytes = 0;
+      const run: ExportRun = {
+        journal,
+        report,
+        bookSlug: slug,
+        resumed: 0,
+        continueOnError: !!opts.continueOnError,
+        log: (msg) => bar.log(msg),
+        assets: opts.withAssets && !opts.dryRun ? { files: 0, bytes: 0, failed: 0 } : undefined,
+      };
 
       if (structure === "legacy") {
         // Legacy export (existing behavior)
-        const result = await exportLegacyStructure(client, outRoot, pages, chapters, fmt, ext, opts, bar);
+        const result = await exportLegacyStructure(client, outRoot, pages, chapters, fmt, ext, opts, bar, run);
         files += result.files;
         bytes += result.bytes;
       } else {
         // New nested export
-        const result = await exportNestedStructure(client, outRoot, pages, chapters, fmt, ext, opts, bar);
+        const result = await exportNestedStructure(client, outRoot, pages, chapters, fmt, ext, opts, bar, run);
         files += result.files;
         bytes += result.bytes;
       }
 
       bar.stop("\n");
+      const failures = report.failures();
+      if (!opts.dryRun) {
+        // Pages that failed, or whose chapter folder failed, are left out so the next --since run retries them
+        const failed = new Set(failures.map((f) => `${f.type}:${f.id}`));
+        const written = planned.filter((p) => !failed.has(`page:${p.id}`) && !failed.has(`chapter:${p.chapterId}`));
+        await saveExportState(outRoot, buildExportState(stateTarget, written, chapterDirs));
+      }
+      if (repo) {
+        const sha = await commitRun(repo, client, `Export ${book.name} from BookStack`, planned, host);
+        console.log(sha ? `${icons.success} Committed the export to git: ${sha}` : `${icons.info} No changes to commit to git`);
+      } else if (gitMode) {
+        console.log(`${icons.dry} Would commit the export to git in ${outRoot}`);
+      }
+      // Kept after failures, so --resume retries only what failed
+      if (!failures.length) await journal?.finish();
       const elapsed = Date.now() - t0;
       if (opts.dryRun) {
         console.log(`${icons.dry} ${c.dim(`Dry-run summary: ${files} files would be written under ${outRoot}.`)}`);
       } else {
-        console.log(`${icons.success} ${c.green('Export completed!')} Wrote ${files} files to ${c.bold(outRoot)} ${c.gray(`(${formatBytes(bytes)}, ${formatDuration(elapsed)})`)}`);
+        const done = failures.length ? `${icons.warning} ${c.yellow(`Export completed with ${failures.length} failures.`)}` : `${icons.success} ${c.green('Export completed!')}`;
+        console.log(`${done} Wrote ${files} files to ${c.bold(outRoot)} ${c.gray(`(${formatBytes(bytes)}, ${formatDuration(elapsed)})`)}`);
+        if (run.resumed) console.log(`  Resumed: ${run.resumed} pages written by the interrupted export were skipped`);
+        if (run.assets) {
+          const missed = run.assets.failed ? `, ${run.assets.failed} could not be downloaded and keep their instance links` : "";
+          console.log(`  Assets: ${run.assets.files} files ${c.gray(`(${formatBytes(run.assets.bytes)})`)}${missed}`);
+        }
       }
+      if (failures.length) {
+        console.log(`${icons.error} ${c.red(`Failures (${failures.length}):`)}`);
+        for (const line of failureTable(failures)) console.log(`  ${line}`);
+        console.log(`  Re-run with --resume to retry only the failed items.`);
+      }
+      if (opts.report || opts.json) await report.emit(opts);
+      if (failures.length) process.exit(EXIT_PARTIAL_FAILURE);
     } catch (error) {
+      if (opts.report || opts.json) {
+        report.error = describeError(error);
+        await report.emit(opts);
+      }
       handleAxiosError(error);
     }
   });
@@ -496,23 +689,10 @@ bookCmd
     try {
       const globalOpts = program.opts();
       configureUi({
-        color: !globalOpts.noColor,
-        quiet: !!globalOpts.quiet || !!opts.json,
-      });
-      const config = await resolveConfig({
-        explicitPath: globalOpts.config,
-        cli: {
-          url: globalOpts.url,
-          tokenId: globalOpts.tokenId,
-          tokenSecret: globalOpts.tokenSecret,
-        },
-      });
-
-      const client = new BookStackClient({
-        baseUrl: config.url || "",
-        tokenId: config.tokenId || "",
-        tokenSecret: config.tokenSecret || "",
+        color: globalOpts.color !== false,
+        quiet: !!globalOpts.quiet, json: !!opts.json,
       });
+      const client = await createClient(globalOpts);
 
       const bookId = await resolveBookId(client, String(bookArg));
       if (bookId == null) {
@@ -616,16 +796,19 @@ bookCmd
   });
 
 // Search command
+const SEARCH_DEFAULT_LIMIT = 25;
+
 program
   .command("search")
   .description("Search across BookStack content")
   .argument("<query>", "Search query")
   .option(
     "-l, --limit <n>",
-    "Limit number of results shown",
-    (v) => parseInt(v, 10),
-    25
+    `Limit number of results shown (default: ${SEARCH_DEFAULT_LIMIT}; --json returns every result unless set)`,
+    parsePositiveInt
   )
+  .option("--offset <n>", "Number of results to skip", parseNonNegativeInt)
+  .option("--all", "Fetch every result, following pagination")
   .option(
     "--type <types>",
     "Restrict types: page|chapter|book or comma/pipe-separated"
@@ -655,33 +838,23 @@ program
   .action(async (query: string, opts: any) => {
     try {
       const globalOpts = program.opts();
-      configureUi({ color: !globalOpts.noColor, quiet: !!globalOpts.quiet || !!opts.json });
-      const config = await resolveConfig({
-        explicitPath: globalOpts.config,
-        cli: {
-          url: globalOpts.url,
-          tokenId: globalOpts.tokenId,
-          tokenSecret: globalOpts.tokenSecret,
-        },
-      });
-
-      const client = new BookStackClient({
-        baseUrl: config.url || "",
-        tokenId: config.tokenId || "",
-        tokenSecret: config.tokenSecret || "",
-      });
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet, json: !!opts.json });
+      const client = await createClient(globalOpts);
 
       const builtQuery = buildSearchQuery(query, opts);
       const spin = createSpinner("Searching…").start();
-      const results = await client.searchAll(builtQuery);
-      spin.succeed(`Found ${results.length} results`);
+      // JSON output has always held every result, so only the table gets a default limit
+      const all = opts.all || (opts.json && opts.limit === undefined);
+      const result = all
+        ? toListResult(await client.searchAll(builtQuery, { offset: opts.offset }))
+        : await client.search(builtQuery, { count: opts.limit ?? SEARCH_DEFAULT_LIMIT, offset: opts.offset });
+      const subset = result.data;
+      spin.succeed(`Found ${result.total} results`);
       if (opts.json) {
-        console.log(JSON.stringify(results, null, 2));
+        console.log(JSON.stringify(subset, null, 2));
         return;
       }
 
-      const lim = Math.max(1, opts.limit || 25);
-      const subset = results.slice(0, lim);
       if (!subset.length) {
         console.log(c.dim("No results."));
         return;
@@ -708,13 +881,7 @@ program
           ` ${bullet} ${tcol(`[${t || "item"}]`)} ${r.name} ${slug} ${id} ${ctx}${url}`.trim()
         );
       });
-      if (results.length > subset.length) {
-        console.log(
-          c.dim(
-            `... ${results.length - subset.length} more not shown (use --limit to increase).`
-          )
-        );
-      }
+      printMoreHint(result, opts);
     } catch (error) {
       handleAxiosError(error);
     }
@@ -726,32 +893,26 @@ const shelvesCmd = program.command("shelves").description("Manage shelves");
 shelvesCmd
   .command("list")
   .description("List shelves")
-  .action(async () => {
+  .option("--limit <n>", "Number of shelves to fetch", parsePositiveInt)
+  .option("--offset <n>", "Number of shelves to skip", parseNonNegativeInt)
+  .option("--all", "Fetch every shelf, following pagination")
+  .action(async (opts: any) => {
     try {
       const globalOpts = program.opts();
-      configureUi({ color: !globalOpts.noColor, quiet: !!globalOpts.quiet });
-      const config = await resolveConfig({
-        explicitPath: globalOpts.config,
-        cli: {
-          url: globalOpts.url,
-          tokenId: globalOpts.tokenId,
-          tokenSecret: globalOpts.tokenSecret,
-        },
-      });
-
-      const client = new BookStackClient({
-        baseUrl: config.url || "",
-        tokenId: config.tokenId || "",
-        tokenSecret: config.tokenSecret || "",
-      });
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet });
+      const client = await createClient(globalOpts);
 
       const spin = createSpinner("Fetching shelves…").start();
-      const shelves = await client.getShelves();
+      const result = opts.all
+        ? toListResult(await client.getShelves({ offset: opts.offset }))
+        : await client.listShelves(listOptionsFrom(opts));
+      const shelves = result.data;
       spin.succeed(`Fetched ${shelves.length} shelves`);
       console.log("Shelves:");
       shelves.forEach((s) => {
         console.log(`  ${s.id}: ${s.name} (${s.slug})`);
       });
+      printMoreHint(result, opts);
     } catch (error) {
       handleAxiosError(error);
     }
@@ -763,18 +924,20 @@ const imagesCmd = program.command("images").description("Manage images (image ga
 imagesCmd
   .command("list")
   .description("List images in the image gallery")
+  .option("--limit <n>", "Number of images to fetch", parsePositiveInt)
+  .option("--offset <n>", "Number of images to skip", parseNonNegativeInt)
+  .option("--all", "Fetch every image, following pagination")
   .option("--json", "Output JSON")
   .action(async (opts: any) => {
     try {
       const globalOpts = program.opts();
-      configureUi({ color: !globalOpts.noColor, quiet: !!globalOpts.quiet || !!opts.json });
-      const config = await resolveConfig({
-        explicitPath: globalOpts.config,
-        cli: { url: globalOpts.url, tokenId: globalOpts.tokenId, tokenSecret: globalOpts.tokenSecret },
-      });
-      const client = new BookStackClient({ baseUrl: config.url || '', tokenId: config.tokenId || '', tokenSecret: config.tokenSecret || '' });
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet, json: !!opts.json });
+      const client = await createClient(globalOpts);
       const spin = createSpinner('Fetching images…').start();
-      const items = await client.getImages();
+      const result = opts.all
+        ? toListResult(await client.getImages({ offset: opts.offset }))
+        : await client.listImages(listOptionsFrom(opts));
+      const items = result.data;
       spin.succeed(`Fetched ${items.length} images`);
       if (opts.json) { console.log(JSON.stringify(items, null, 2)); return; }
       if (!items.length) { console.log(c.dim('No images.')); return; }
@@ -784,6 +947,7 @@ imagesCmd
         const line = `  ${c.yellow('#'+it.id)} ${c.green(it.name)} ${it.type ? c.gray('('+it.type+')') : ''}${url ? ' ' + c.cyan(url) : ''}`;
         console.log(line);
       });
+      printMoreHint(result, opts);
     } catch (error) { handleAxiosError(error); }
   });
 
@@ -795,12 +959,8 @@ imagesCmd
   .action(async (id: string, opts: any) => {
     try {
       const globalOpts = program.opts();
-      configureUi({ color: !globalOpts.noColor, quiet: !!globalOpts.quiet || !!opts.json });
-      const config = await resolveConfig({
-        explicitPath: globalOpts.config,
-        cli: { url: globalOpts.url, tokenId: globalOpts.tokenId, tokenSecret: globalOpts.tokenSecret },
-      });
-      const client = new BookStackClient({ baseUrl: config.url || '', tokenId: config.tokenId || '', tokenSecret: config.tokenSecret || '' });
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet, json: !!opts.json });
+      const client = await createClient(globalOpts);
       const spin = createSpinner('Fetching image…').start();
       const img = await client.getImage(parseInt(id, 10));
       spin.succeed('Fetched image');
@@ -813,184 +973,537 @@ imagesCmd
     } catch (error) { handleAxiosError(error); }
   });
 
-// Books commands
-const booksCmd = program.command("books").description("Manage books");
-
-booksCmd
-  .command("list")
-  .description("List books")
-  .action(async () => {
+imagesCmd
+  .command("upload")
+  .description("Upload an image to the gallery for a page")
+  .argument("<file>", "Image file to upload")
+  .requiredOption("--page <id|name|slug>", "Page the image belongs to")
+  .option("--name <name>", "Image name (default: file name)")
+  .option("--type <type>", "Image type: gallery|drawio", "gallery")
+  .option("--json", "Output JSON")
+  .action(async (file: string, opts: any) => {
     try {
       const globalOpts = program.opts();
-      configureUi({ color: !globalOpts.noColor, quiet: !!globalOpts.quiet });
-      const config = await resolveConfig({
-        explicitPath: globalOpts.config,
-        cli: {
-          url: globalOpts.url,
-          tokenId: globalOpts.tokenId,
-          tokenSecret: globalOpts.tokenSecret,
-        },
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet, json: !!opts.json });
+      const type = String(opts.type).toLowerCase();
+      if (!["gallery", "drawio"].includes(type)) {
+        console.error("Invalid type. Use one of: gallery, drawio");
+        process.exit(1);
+      }
+      const client = await createClient(globalOpts);
+      const pageId = await resolvePageId(client, String(opts.page));
+      if (pageId == null) {
+        console.error(`Page not found: ${opts.page}`);
+        process.exit(1);
+      }
+      const spin = createSpinner("Uploading image…").start();
+      const img = await client.uploadImage({
+        name: opts.name || path.basename(file),
+        uploadedTo: pageId,
+        type: type as "gallery" | "drawio",
+        file: { data: await fs.readFile(file), filename: path.basename(file) },
       });
+      spin.succeed("Uploaded image");
+      if (opts.json) { console.log(JSON.stringify(img, null, 2)); return; }
+      console.log(`${icons.success} Uploaded image: ${c.bold(img.name)} ${c.gray(`(ID: ${img.id})`)}`);
+      if (img.url) console.log(`  ${c.cyan(img.url)}`);
+    } catch (error) { handleAxiosError(error); }
+  });
 
-      const client = new BookStackClient({
-        baseUrl: config.url || "",
-        tokenId: config.tokenId || "",
-        tokenSecret: config.tokenSecret || "",
+imagesCmd
+  .command("update")
+  .description("Rename an image or replace its file")
+  .argument("<id>", "Image ID")
+  .option("--name <name>", "New image name")
+  .option("--file <path>", "Replacement image file")
+  .option("--json", "Output JSON")
+  .action(async (id: string, opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet, json: !!opts.json });
+      if (!opts.name && !opts.file) {
+        console.error("Nothing to update: pass --name and/or --file");
+        process.exit(1);
+      }
+      const client = await createClient(globalOpts);
+      const img = await client.updateImage(parseInt(id, 10), {
+        name: opts.name,
+        file: opts.file ? { data: await fs.readFile(opts.file), filename: path.basename(opts.file) } : undefined,
       });
+      if (opts.json) { console.log(JSON.stringify(img, null, 2)); return; }
+      console.log(`${icons.success} Updated image: ${c.bold(img.name)} ${c.gray(`(ID: ${img.id})`)}`);
+    } catch (error) { handleAxiosError(error); }
+  });
 
-      const spin = createSpinner("Fetching books…").start();
-      const books = await client.getBooks();
-      spin.succeed(`Fetched ${books.length} books`);
-      console.log(c.bold("Books:"));
-      books.forEach((b) => console.log(`  ${b.id}: ${b.name} (${b.slug})`));
-    } catch (error) {
-      handleAxiosError(error);
-    }
+imagesCmd
+  .command("delete")
+  .description("Delete an image from the gallery")
+  .argument("<id>", "Image ID")
+  .option("-y, --yes", "Skip the confirmation prompt")
+  .action(async (id: string, opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet });
+      const client = await createClient(globalOpts);
+      const img = await client.getImage(parseInt(id, 10));
+      await confirmOrExit(`Delete image "${img.name}" (ID: ${img.id})?`, opts);
+      await client.deleteImage(img.id);
+      console.log(`${icons.success} Deleted image: ${c.bold(img.name)} ${c.gray(`(ID: ${img.id})`)}`);
+    } catch (error) { handleAxiosError(error); }
   });
 
-// Chapters commands
-const chaptersCmd = program.command("chapters").description("Manage chapters");
+imagesCmd
+  .command("download")
+  .description("Download an image file")
+  .argument("<id>", "Image ID")
+  .option("-o, --out <path>", "Output file path (default: image file name)")
+  .option("--stdout", "Write the image to stdout")
+  .action(async (id: string, opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet || !!opts.stdout });
+      const client = await createClient(globalOpts);
+      const img = await client.getImage(parseInt(id, 10));
+      if (!img.url) {
+        console.error(`Image ${img.id} has no URL to download`);
+        process.exit(1);
+      }
+      const spin = createSpinner("Downloading image…").start();
+      const bytes = await client.download(img.url);
+      spin.succeed("Downloaded image");
+      if (opts.stdout) { process.stdout.write(bytes); return; }
+      const outPath = opts.out || path.basename(img.path || img.url);
+      await fs.writeFile(outPath, bytes);
+      console.log(`Saved image to ${outPath} (${formatBytes(bytes.length)})`);
+    } catch (error) { handleAxiosError(error); }
+  });
 
-chaptersCmd
-  .command("list")
-  .description("List chapters in a book")
-  .option("--book <id|name|slug>", "Book to filter by (required)")
+imagesCmd
+  .command("orphans")
+  .description("Report gallery images no page references anymore")
+  .option("--json", "Output JSON")
+  .option("--delete", "Delete the orphaned images after reporting them")
+  .option("-y, --yes", "Skip the confirmation prompt for --delete")
   .action(async (opts: any) => {
     try {
       const globalOpts = program.opts();
-      configureUi({ color: !globalOpts.noColor, quiet: !!globalOpts.quiet });
-      const config = await resolveConfig({
-        explicitPath: globalOpts.config,
-        cli: {
-          url: globalOpts.url,
-          tokenId: globalOpts.tokenId,
-          tokenSecret: globalOpts.tokenSecret,
-        },
-      });
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet, json: !!opts.json });
+      const client = await createClient(globalOpts);
+      const spin = createSpinner("Fetching images and pages…").start();
+      const images = await client.getImages();
+      const pageList = await client.getAllPages();
+      spin.succeed(`Fetched ${images.length} images and ${pageList.length} pages`);
+
+      // Page listings omit content, so each page has to be read
+      const bar = createProgressBar(pageList.length, "Scanning");
+      const pages: PageContent[] = [];
+      for (const p of pageList) {
+        const full = await client.getPage(p.id);
+        pages.push({ id: full.id, name: full.name, html: full.html, markdown: full.markdown });
+        bar.tick(1);
+      }
+      bar.stop();
 
-      const client = new BookStackClient({
-        baseUrl: config.url || "",
-        tokenId: config.tokenId || "",
-        tokenSecret: config.tokenSecret || "",
-      });
+      const report = findOrphanImages(images, pages);
+      if (opts.json) {
+        console.log(JSON.stringify({
+          images: images.length,
+          scanned_pages: report.scannedPages,
+          referenced: report.referenced,
+          orphans: report.orphans,
+        }, null, 2));
+      } else if (!report.orphans.length) {
+        console.log(`${icons.success} No orphaned images (${images.length} images, ${report.scannedPages} pages scanned).`);
+      } else {
+        console.log(c.bold(`Orphaned images (${report.orphans.length} of ${images.length}):`));
+        report.orphans.forEach((img) => {
+          console.log(`  ${c.yellow('#' + img.id)} ${c.green(img.name)} ${c.gray(img.path || img.url || '')} ${c.dim(`page:${img.uploaded_to ?? '-'}`)}`);
+        });
+      }
 
-      if (!opts.book) {
-        console.error("--book option is required");
-        process.exit(1);
+      if (!opts.delete || !report.orphans.length) return;
+      await confirmOrExit(`Delete ${report.orphans.length} orphaned images?`, opts);
+      for (const img of report.orphans) {
+        await client.deleteImage(img.id);
+        if (!opts.json) console.log(`${icons.success} Deleted image: ${img.name} ${c.gray(`(ID: ${img.id})`)}`);
       }
-      const bookId = await resolveBookId(client, String(opts.book));
-      if (bookId == null) {
-        console.error(`Book not found: ${opts.book}`);
-        process.exit(1);
+    } catch (error) { handleAxiosError(error); }
+  });
+
+// Tags commands
+const tagsCmd = program.command("tags").description("Browse tags in use");
+
+tagsCmd
+  .command("list")
+  .description("List tag names, or the values used for one tag name")
+  .option("--name <name>", "List the values used with this tag name")
+  .option("--limit <n>", "Number of tags to fetch", parsePositiveInt)
+  .option("--offset <n>", "Number of tags to skip", parseNonNegativeInt)
+  .option("--all", "Fetch every tag, following pagination")
+  .option("--json", "Output JSON")
+  .action(async (opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet, json: !!opts.json });
+      const client = await createClient(globalOpts);
+
+      const spin = createSpinner("Fetching tags…").start();
+      const name = opts.name != null ? String(opts.name) : undefined;
+      let result: ListResult<TagSummary>;
+      if (name != null) {
+        result = opts.all
+          ? toListResult(await client.getTagValues(name, { offset: opts.offset }))
+          : await client.listTagValues(name, listOptionsFrom(opts));
+      } else {
+        result = opts.all
+          ? toListResult(await client.getTags({ offset: opts.offset }))
+          : await client.listTags(listOptionsFrom(opts));
       }
-      const spin = createSpinner("Fetching chapters…").start();
-      const chapters = await client.getChapters(bookId);
-      spin.succeed(`Fetched ${chapters.length} chapters`);
-      console.log(c.bold(`Chapters in book ${opts.book}:`));
-      chapters.forEach((ch) =>
-        console.log(`  ${ch.id}: ${ch.name} (${ch.slug})`)
-      );
+      spin.succeed(`Fetched ${result.data.length} ${name != null ? "values" : "tags"}`);
+      if (opts.json) {
+        console.log(JSON.stringify(result.data, null, 2));
+        return;
+      }
+      if (!result.data.length) {
+        console.log(c.dim(name != null ? `No values for tag: ${name}` : "No tags in use."));
+        return;
+      }
+      console.log(name != null ? `Values for ${c.bold(name)}:` : "Tags:");
+      result.data.forEach((t) => {
+        const label = name != null ? (t.value || c.dim("(no value)")) : t.name;
+        const values = name == null && t.values != null ? `, ${t.values} values` : "";
+        const counts = `${t.usages} uses${values}: ${t.book_count} books, ${t.chapter_count} chapters, ${t.page_count} pages, ${t.shelf_count} shelves`;
+        console.log(`  ${c.green(label)} ${c.gray(`(${counts})`)}`);
+      });
+      printMoreHint(result, opts);
     } catch (error) {
       handleAxiosError(error);
     }
   });
 
-// Pages commands
-const pagesCmd = program.command("pages").description("Manage pages");
+// Attachments commands
+const attachmentsCmd = program
+  .command("attachments")
+  .description("Manage page attachments (files and links)");
 
-pagesCmd
+attachmentsCmd
   .command("list")
-  .description("List pages (optionally for a book)")
-  .option("--book <id|name|slug>", "Book to filter by")
+  .description("List attachments, optionally for one page")
+  .option("--page <id|name|slug>", "Only attachments on this page")
+  .option("--limit <n>", "Number of attachments to fetch", parsePositiveInt)
+  .option("--offset <n>", "Number of attachments to skip", parseNonNegativeInt)
+  .option("--all", "Fetch every attachment, following pagination")
+  .option("--json", "Output JSON")
   .action(async (opts: any) => {
     try {
       const globalOpts = program.opts();
-      configureUi({ color: !globalOpts.noColor, quiet: !!globalOpts.quiet });
-      const config = await resolveConfig({
-        explicitPath: globalOpts.config,
-        cli: {
-          url: globalOpts.url,
-          tokenId: globalOpts.tokenId,
-          tokenSecret: globalOpts.tokenSecret,
-        },
-      });
-
-      const client = new BookStackClient({
-        baseUrl: config.url || "",
-        tokenId: config.tokenId || "",
-        tokenSecret: config.tokenSecret || "",
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet, json: !!opts.json });
+      const client = await createClient(globalOpts);
+      const listOpts: ListOptions = listOptionsFrom(opts);
+      if (opts.page) {
+        const pageId = await resolvePageId(client, String(opts.page));
+        if (pageId == null) {
+          console.error(`Page not found: ${opts.page}`);
+          process.exit(1);
+        }
+        listOpts.filter = { uploaded_to: pageId };
+      }
+      const spin = createSpinner("Fetching attachments…").start();
+      const result = opts.all
+        ? toListResult(await client.getAttachments({ offset: opts.offset, filter: listOpts.filter }))
+        : await client.listAttachments(listOpts);
+      const items = result.data;
+      spin.succeed(`Fetched ${items.length} attachments`);
+      if (opts.json) {
+        console.log(JSON.stringify(items, null, 2));
+        return;
+      }
+      if (!items.length) {
+        console.log(c.dim("No attachments."));
+        return;
+      }
+      console.log(c.bold("Attachments:"));
+      items.forEach((a) => {
+        const kind = a.external ? c.cyan("link") : c.gray(a.extension || "file");
+        console.log(
+          `  ${c.yellow("#" + a.id)} ${c.green(a.name)} ${c.gray("(")}${kind}${c.gray(")")} ${c.dim(`page:${a.uploaded_to}`)}`
+        );
       });
-
-      const spin = createSpinner(
-        opts.book ? "Fetching pages…" : "Fetching all pages…"
-      ).start();
-      const pages = opts.book
-        ? await (async () => {
-            const bookId = await resolveBookId(client, String(opts.book));
-            if (bookId == null) {
-              console.error(`Book not found: ${opts.book}`);
-              process.exit(1);
-            }
-            return client.getPages(bookId);
-          })()
-        : await client.getAllPages();
-      spin.succeed(`Fetched ${pages.length} pages`);
-      console.log(
-        c.bold(opts.book ? `Pages in book ${opts.book}:` : "All pages:")
-      );
-      pages.forEach((p) => console.log(`  ${p.id}: ${p.name} (${p.slug})`));
+      printMoreHint(result, opts);
     } catch (error) {
       handleAxiosError(error);
     }
   });
 
-shelvesCmd
+attachmentsCmd
   .command("show")
-  .description("Show details of a shelf and its books")
-  .argument("<shelf>", "Shelf identifier (ID, name, or slug)")
-  .action(async (shelfArg: string) => {
+  .description("Show details for an attachment")
+  .argument("<id>", "Attachment ID")
+  .option("--json", "Output JSON")
+  .action(async (id: string, opts: any) => {
     try {
       const globalOpts = program.opts();
-      configureUi({ color: !globalOpts.noColor, quiet: !!globalOpts.quiet });
-      const config = await resolveConfig({
-        explicitPath: globalOpts.config,
-        cli: {
-          url: globalOpts.url,
-          tokenId: globalOpts.tokenId,
-          tokenSecret: globalOpts.tokenSecret,
-        },
-      });
-
-      const client = new BookStackClient({
-        baseUrl: config.url || "",
-        tokenId: config.tokenId || "",
-        tokenSecret: config.tokenSecret || "",
-      });
-
-      const shelfId = await resolveShelfId(client, String(shelfArg));
-      if (shelfId == null) {
-        console.error(`Shelf not found: ${shelfArg}`);
-        process.exit(1);
-      }
-      const spin = createSpinner("Fetching shelf…").start();
-      const shelf = await client.getShelf(shelfId);
-      spin.succeed("Fetched shelf");
-      console.log(`${shelf.name} (ID: ${shelf.id}, slug: ${shelf.slug})`);
-      if (shelf.description) console.log(`Description: ${shelf.description}`);
-      const books = (shelf.books || []) as any[];
-      if (books.length) {
-        console.log("Books:");
-        books.forEach((b) => console.log(`  ${b.id}: ${b.name} (${b.slug})`));
-      } else {
-        console.log("Books: (none)");
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet, json: !!opts.json });
+      const client = await createClient(globalOpts);
+      const spin = createSpinner("Fetching attachment…").start();
+      const { content, ...att } = await client.getAttachment(parseInt(id, 10));
+      spin.succeed("Fetched attachment");
+      if (opts.json) {
+        console.log(JSON.stringify(att.external ? { ...att, url: content } : att, null, 2));
+        return;
       }
+      console.log(`${c.bold(att.name)} ${c.dim("#" + att.id)} ${c.gray(att.external ? "(link)" : `(${att.extension || "file"})`)}`);
+      console.log(`  Page: ${att.uploaded_to}`);
+      if (att.external && content) console.log(`  URL: ${c.cyan(content)}`);
+      if (!att.external && content) console.log(`  Size: ${formatBytes(Buffer.from(content, "base64").length)}`);
+      if (att.created_at) console.log(`  Created: ${att.created_at}`);
+      if (att.updated_at) console.log(`  Updated: ${att.updated_at}`);
+      if (att.links?.markdown) console.log(`  Markdown: ${att.links.markdown}`);
     } catch (error) {
       handleAxiosError(error);
     }
   });
 
-// Chapter commands
-const chapterCmd = program.command("chapter").description("Manage chapters");
+attachmentsCmd
+  .command("upload")
+  .description("Attach a file (or a link with --link) to a page")
+  .argument("[file]", "File to upload")
+  .requiredOption("--page <id|name|slug>", "Page to attach to")
+  .option("--name <name>", "Attachment name (default: file name)")
+  .option("--link <url>", "Create a link attachment instead of uploading a file")
+  .option("--json", "Output JSON")
+  .action(async (file: string | undefined, opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet, json: !!opts.json });
+      if (!file && !opts.link) {
+        console.error("Provide a file to upload or --link <url>");
+        process.exit(1);
+      }
+      if (file && opts.link) {
+        console.error("Use either a file or --link, not both");
+        process.exit(1);
+      }
+      const client = await createClient(globalOpts);
+      const pageId = await resolvePageId(client, String(opts.page));
+      if (pageId == null) {
+        console.error(`Page not found: ${opts.page}`);
+        process.exit(1);
+      }
+      const spin = createSpinner(file ? "Uploading attachment…" : "Creating link attachment…").start();
+      const att = file
+        ? await client.createAttachment({
+            name: opts.name || path.basename(file),
+            uploadedTo: pageId,
+            file: { data: await fs.readFile(file), filename: path.basename(file) },
+          })
+        : await client.createAttachment({
+            name: opts.name || String(opts.link),
+            uploadedTo: pageId,
+            link: String(opts.link),
+          });
+      spin.succeed(file ? "Uploaded attachment" : "Created link attachment");
+      printWriteResult("Attached", file ? "file" : "link", att, opts);
+    } catch (error) {
+      handleAxiosError(error);
+    }
+  });
+
+attachmentsCmd
+  .command("download")
+  .description("Download an attachment's file (prints the URL for links)")
+  .argument("<id>", "Attachment ID")
+  .option("-o, --out <path>", "Output file path (default: attachment name)")
+  .option("--stdout", "Write the file to stdout")
+  .action(async (id: string, opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet || !!opts.stdout });
+      const client = await createClient(globalOpts);
+      const spin = createSpinner("Downloading attachment…").start();
+      const att = await client.getAttachment(parseInt(id, 10));
+      spin.succeed("Downloaded attachment");
+      if (att.external) {
+        process.stdout.write(`${att.content || ""}\n`);
+        return;
+      }
+      const bytes = Buffer.from(att.content || "", "base64");
+      if (opts.stdout) {
+        process.stdout.write(bytes);
+        return;
+      }
+      const outPath = opts.out || attachmentFileName(att);
+      await fs.writeFile(outPath, bytes);
+      console.log(`Saved attachment to ${outPath} (${formatBytes(bytes.length)})`);
+    } catch (error) {
+      handleAxiosError(error);
+    }
+  });
+
+attachmentsCmd
+  .command("delete")
+  .description("Delete an attachment")
+  .argument("<id>", "Attachment ID")
+  .option("-y, --yes", "Skip the confirmation prompt")
+  .action(async (id: string, opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet });
+      const client = await createClient(globalOpts);
+      const att = await client.getAttachment(parseInt(id, 10));
+      await confirmOrExit(`Delete attachment "${att.name}" (ID: ${att.id}) from page ${att.uploaded_to}?`, opts);
+      await client.deleteAttachment(att.id);
+      console.log(`${icons.success} Deleted attachment: ${c.bold(att.name)} ${c.gray(`(ID: ${att.id})`)}`);
+    } catch (error) {
+      handleAxiosError(error);
+    }
+  });
+
+// Books commands
+const booksCmd = program.command("books").description("Manage books");
+
+booksCmd
+  .command("list")
+  .description("List books")
+  .option("--limit <n>", "Number of books to fetch", parsePositiveInt)
+  .option("--offset <n>", "Number of books to skip", parseNonNegativeInt)
+  .option("--all", "Fetch every book, following pagination")
+  .action(async (opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet });
+      const client = await createClient(globalOpts);
+
+      const spin = createSpinner("Fetching books…").start();
+      const result = opts.all
+        ? toListResult(await client.getBooks({ offset: opts.offset }))
+        : await client.listBooks(listOptionsFrom(opts));
+      const books = result.data;
+      spin.succeed(`Fetched ${books.length} books`);
+      console.log(c.bold("Books:"));
+      books.forEach((b) => console.log(`  ${b.id}: ${b.name} (${b.slug})`));
+      printMoreHint(result, opts);
+    } catch (error) {
+      handleAxiosError(error);
+    }
+  });
+
+// Chapters commands
+const chaptersCmd = program.command("chapters").description("Manage chapters");
+
+chaptersCmd
+  .command("list")
+  .description("List chapters in a book")
+  .option("--book <id|name|slug>", "Book to filter by (required)")
+  .action(async (opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet });
+      const client = await createClient(globalOpts);
+
+      if (!opts.book) {
+        console.error("--book option is required");
+        process.exit(1);
+      }
+      const bookId = await resolveBookId(client, String(opts.book));
+      if (bookId == null) {
+        console.error(`Book not found: ${opts.book}`);
+        process.exit(1);
+      }
+      const spin = createSpinner("Fetching chapters…").start();
+      const chapters = await client.getChapters(bookId);
+      spin.succeed(`Fetched ${chapters.length} chapters`);
+      console.log(c.bold(`Chapters in book ${opts.book}:`));
+      chapters.forEach((ch) =>
+        console.log(`  ${ch.id}: ${ch.name} (${ch.slug})`)
+      );
+    } catch (error) {
+      handleAxiosError(error);
+    }
+  });
+
+// Pages commands
+const pagesCmd = program.command("pages").description("Manage pages");
+
+pagesCmd
+  .command("list")
+  .description("List pages (optionally for a book)")
+  .option("--book <id|name|slug>", "Book to filter by")
+  .option("--limit <n>", "Number of pages to fetch", parsePositiveInt)
+  .option("--offset <n>", "Number of pages to skip", parseNonNegativeInt)
+  .option("--all", "Fetch every page, following pagination")
+  .action(async (opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet });
+      const client = await createClient(globalOpts);
+
+      const spin = createSpinner(
+        opts.book ? "Fetching pages…" : "Fetching all pages…"
+      ).start();
+      const result = opts.book
+        ? await (async () => {
+            const bookId = await resolveBookId(client, String(opts.book));
+            if (bookId == null) {
+              console.error(`Book not found: ${opts.book}`);
+              process.exit(1);
+            }
+            // Book contents arrive in one response; window them locally
+            const all = await client.getPages(bookId);
+            const start = opts.offset || 0;
+            if (opts.all) return toListResult(all.slice(start));
+            const end = opts.limit ? start + opts.limit : undefined;
+            return { data: all.slice(start, end), total: all.length };
+          })()
+        : opts.all
+        ? toListResult(await client.getAllPages({ offset: opts.offset }))
+        : await client.listAllPages(listOptionsFrom(opts));
+      const pages = result.data;
+      spin.succeed(`Fetched ${pages.length} pages`);
+      console.log(
+        c.bold(opts.book ? `Pages in book ${opts.book}:` : "All pages:")
+      );
+      pages.forEach((p) => console.log(`  ${p.id}: ${p.name} (${p.slug})`));
+      printMoreHint(result, opts);
+    } catch (error) {
+      handleAxiosError(error);
+    }
+  });
+
+shelvesCmd
+  .command("show")
+  .description("Show details of a shelf and its books")
+  .argument("<shelf>", "Shelf identifier (ID, name, or slug)")
+  .action(async (shelfArg: string) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet });
+      const client = await createClient(globalOpts);
+
+      const shelfId = await resolveShelfId(client, String(shelfArg));
+      if (shelfId == null) {
+        console.error(`Shelf not found: ${shelfArg}`);
+        process.exit(1);
+      }
+      const spin = createSpinner("Fetching shelf…").start();
+      const shelf = await client.getShelf(shelfId);
+      spin.succeed("Fetched shelf");
+      console.log(`${shelf.name} (ID: ${shelf.id}, slug: ${shelf.slug})`);
+      if (shelf.description) console.log(`Description: ${shelf.description}`);
+      const books = (shelf.books || []) as any[];
+      if (books.length) {
+        console.log("Books:");
+        books.forEach((b) => console.log(`  ${b.id}: ${b.name} (${b.slug})`));
+      } else {
+        console.log("Books: (none)");
+      }
+    } catch (error) {
+      handleAxiosError(error);
+    }
+  });
+
+// Chapter commands
+const chapterCmd = program.command("chapter").description("Manage chapters");
 
 chapterCmd
   .command("export")
@@ -1006,21 +1519,8 @@ chapterCmd
   .action(async (chapterArg: string, opts: any) => {
     try {
       const globalOpts = program.opts();
-      configureUi({ color: !globalOpts.noColor, quiet: !!globalOpts.quiet });
-      const config = await resolveConfig({
-        explicitPath: globalOpts.config,
-        cli: {
-          url: globalOpts.url,
-          tokenId: globalOpts.tokenId,
-          tokenSecret: globalOpts.tokenSecret,
-        },
-      });
-
-      const client = new BookStackClient({
-        baseUrl: config.url || "",
-        tokenId: config.tokenId || "",
-        tokenSecret: config.tokenSecret || "",
-      });
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet });
+      const client = await createClient(globalOpts);
 
       const chapterId = await resolveChapterId(client, String(chapterArg));
       if (chapterId == null) {
@@ -1083,21 +1583,8 @@ pageCmd
   .action(async (pageArg: string, opts: any) => {
     try {
       const globalOpts = program.opts();
-      configureUi({ color: !globalOpts.noColor, quiet: !!globalOpts.quiet });
-      const config = await resolveConfig({
-        explicitPath: globalOpts.config,
-        cli: {
-          url: globalOpts.url,
-          tokenId: globalOpts.tokenId,
-          tokenSecret: globalOpts.tokenSecret,
-        },
-      });
-
-      const client = new BookStackClient({
-        baseUrl: config.url || "",
-        tokenId: config.tokenId || "",
-        tokenSecret: config.tokenSecret || "",
-      });
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet });
+      const client = await createClient(globalOpts);
 
       const pageId = await resolvePageId(client, String(pageArg));
       if (pageId == null) {
@@ -1152,21 +1639,8 @@ chapterCmd
   .action(async (chapterArg: string, opts: any) => {
     try {
       const globalOpts = program.opts();
-      configureUi({ color: !globalOpts.noColor, quiet: !!globalOpts.quiet });
-      const config = await resolveConfig({
-        explicitPath: globalOpts.config,
-        cli: {
-          url: globalOpts.url,
-          tokenId: globalOpts.tokenId,
-          tokenSecret: globalOpts.tokenSecret,
-        },
-      });
-
-      const client = new BookStackClient({
-        baseUrl: config.url || "",
-        tokenId: config.tokenId || "",
-        tokenSecret: config.tokenSecret || "",
-      });
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet });
+      const client = await createClient(globalOpts);
 
       const chapterId = await resolveChapterId(client, String(chapterArg));
       if (chapterId == null) {
@@ -1190,6 +1664,7 @@ chapterCmd
               slug: ch.slug,
               name: ch.name,
               description: ch.description || undefined,
+              tags: cleanTags(ch.tags) || [],
               pages,
             },
             null,
@@ -1202,6 +1677,7 @@ chapterCmd
         `${c.bold(ch.name)} ${c.gray(`[${ch.slug}]`)} ${c.dim(`#${ch.id}`)}`
       );
       if (ch.description) console.log(`  ${c.italic(ch.description)}`);
+      if (ch.tags?.length) console.log(`  ${c.cyan("Tags")}: ${formatTags(ch.tags)}`);
       if (!ch.book_id) {
         console.log("Pages: (unknown book; skipping)");
         return;
@@ -1239,21 +1715,8 @@ pageCmd
   .action(async (pageArg: string, opts: any) => {
     try {
       const globalOpts = program.opts();
-      configureUi({ color: !globalOpts.noColor, quiet: !!globalOpts.quiet });
-      const config = await resolveConfig({
-        explicitPath: globalOpts.config,
-        cli: {
-          url: globalOpts.url,
-          tokenId: globalOpts.tokenId,
-          tokenSecret: globalOpts.tokenSecret,
-        },
-      });
-
-      const client = new BookStackClient({
-        baseUrl: config.url || "",
-        tokenId: config.tokenId || "",
-        tokenSecret: config.tokenSecret || "",
-      });
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet });
+      const client = await createClient(globalOpts);
 
       const pageId = await resolvePageId(client, String(pageArg));
       if (pageId == null) {
@@ -1272,6 +1735,7 @@ pageCmd
               name: p.name,
               book_id: p.book_id,
               chapter_id: p.chapter_id || null,
+              tags: cleanTags(p.tags) || [],
             },
             null,
             2
@@ -1287,6 +1751,401 @@ pageCmd
           p.chapter_id ? `${c.cyan("Chapter")}: ${p.chapter_id}` : ""
         }`
       );
+      if (p.tags?.length) {
+        console.log(`  ${c.cyan("Tags")}: ${formatTags(p.tags)}`);
+      }
+    } catch (error) {
+      handleAxiosError(error);
+    }
+  });
+
+// Create/update/delete commands
+bookCmd
+  .command("create")
+  .description("Create a book")
+  .requiredOption("--name <name>", "Book name")
+  .option("--description <text>", "Book description")
+  .option("--tag <name[=value]>", "Tag to set (repeatable)", collect, [])
+  .option("--json", "Output JSON")
+  .action(async (opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet, json: !!opts.json });
+      const client = await createClient(globalOpts);
+      const book = await client.createBook(buildEntityPayload(opts));
+      printWriteResult("Created", "book", book, opts);
+    } catch (error) {
+      handleAxiosError(error);
+    }
+  });
+
+bookCmd
+  .command("update")
+  .description("Update a book's name, description, or tags")
+  .argument("<book>", "Book identifier (ID, name, or slug)")
+  .option("--name <name>", "New book name")
+  .option("--description <text>", "New book description")
+  .option("--tag <name[=value]>", "Tag to set; replaces existing tags (repeatable)", collect, [])
+  .option("--json", "Output JSON")
+  .action(async (bookArg: string, opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet, json: !!opts.json });
+      const client = await createClient(globalOpts);
+      const bookId = await resolveBookId(client, String(bookArg));
+      if (bookId == null) {
+        console.error(`Book not found: ${bookArg}`);
+        process.exit(1);
+      }
+      const book = await client.updateBook(bookId, buildEntityPayload(opts));
+      printWriteResult("Updated", "book", book, opts);
+    } catch (error) {
+      handleAxiosError(error);
+    }
+  });
+
+bookCmd
+  .command("delete")
+  .description("Delete a book and everything in it")
+  .argument("<book>", "Book identifier (ID, name, or slug)")
+  .option("-y, --yes", "Skip the confirmation prompt")
+  .action(async (bookArg: string, opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet });
+      const client = await createClient(globalOpts);
+      const bookId = await resolveBookId(client, String(bookArg));
+      if (bookId == null) {
+        console.error(`Book not found: ${bookArg}`);
+        process.exit(1);
+      }
+      const book = await client.getBook(bookId);
+      await confirmOrExit(`Delete book "${book.name}" (ID: ${book.id}) with all its chapters and pages?`, opts);
+      await client.deleteBook(bookId);
+      console.log(`${icons.success} Deleted book: ${c.bold(book.name)} ${c.gray(`(ID: ${book.id})`)}`);
+    } catch (error) {
+      handleAxiosError(error);
+    }
+  });
+
+chapterCmd
+  .command("create")
+  .description("Create a chapter in a book")
+  .requiredOption("--book <id|name|slug>", "Book to create the chapter in")
+  .requiredOption("--name <name>", "Chapter name")
+  .option("--description <text>", "Chapter description")
+  .option("--priority <n>", "Sort order within the book", parseNonNegativeInt)
+  .option("--tag <name[=value]>", "Tag to set (repeatable)", collect, [])
+  .option("--json", "Output JSON")
+  .action(async (opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet, json: !!opts.json });
+      const client = await createClient(globalOpts);
+      const bookId = await resolveBookId(client, String(opts.book));
+      if (bookId == null) {
+        console.error(`Book not found: ${opts.book}`);
+        process.exit(1);
+      }
+      const chapter = await client.createChapter(bookId, buildEntityPayload(opts));
+      printWriteResult("Created", "chapter", chapter, opts);
+    } catch (error) {
+      handleAxiosError(error);
+    }
+  });
+
+chapterCmd
+  .command("update")
+  .description("Update a chapter's name, description, priority, or tags")
+  .argument("<chapter>", "Chapter identifier (ID, name, or slug)")
+  .option("--name <name>", "New chapter name")
+  .option("--description <text>", "New chapter description")
+  .option("--priority <n>", "Sort order within the book", parseNonNegativeInt)
+  .option("--tag <name[=value]>", "Tag to set; replaces existing tags (repeatable)", collect, [])
+  .option("--json", "Output JSON")
+  .action(async (chapterArg: string, opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet, json: !!opts.json });
+      const client = await createClient(globalOpts);
+      const chapterId = await resolveChapterId(client, String(chapterArg));
+      if (chapterId == null) {
+        console.error(`Chapter not found: ${chapterArg}`);
+        process.exit(1);
+      }
+      const chapter = await client.updateChapter(chapterId, buildEntityPayload(opts));
+      printWriteResult("Updated", "chapter", chapter, opts);
+    } catch (error) {
+      handleAxiosError(error);
+    }
+  });
+
+chapterCmd
+  .command("delete")
+  .description("Delete a chapter and its pages")
+  .argument("<chapter>", "Chapter identifier (ID, name, or slug)")
+  .option("-y, --yes", "Skip the confirmation prompt")
+  .action(async (chapterArg: string, opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet });
+      const client = await createClient(globalOpts);
+      const chapterId = await resolveChapterId(client, String(chapterArg));
+      if (chapterId == null) {
+        console.error(`Chapter not found: ${chapterArg}`);
+        process.exit(1);
+      }
+      const chapter = await client.getChapter(chapterId);
+      await confirmOrExit(`Delete chapter "${chapter.name}" (ID: ${chapter.id}) with all its pages?`, opts);
+      await client.deleteChapter(chapterId);
+      console.log(`${icons.success} Deleted chapter: ${c.bold(chapter.name)} ${c.gray(`(ID: ${chapter.id})`)}`);
+    } catch (error) {
+      handleAxiosError(error);
+    }
+  });
+
+chapterCmd
+  .command("move")
+  .description("Move a chapter (with its pages) to another book")
+  .argument("<chapter>", "Chapter identifier (ID, name, or slug)")
+  .requiredOption("--book <id|name|slug>", "Destination book")
+  .option("--json", "Output JSON")
+  .action(async (chapterArg: string, opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet, json: !!opts.json });
+      const client = await createClient(globalOpts);
+      const chapterId = await resolveChapterId(client, String(chapterArg));
+      if (chapterId == null) {
+        console.error(`Chapter not found: ${chapterArg}`);
+        process.exit(1);
+      }
+      const bookId = await resolveBookId(client, String(opts.book));
+      if (bookId == null) {
+        console.error(`Book not found: ${opts.book}`);
+        process.exit(1);
+      }
+      const chapter = await client.moveChapter(chapterId, bookId);
+      printWriteResult("Moved", "chapter", chapter, opts);
+    } catch (error) {
+      handleAxiosError(error);
+    }
+  });
+
+pageCmd
+  .command("create")
+  .description("Create a page in a book or chapter")
+  .option("--book <id|name|slug>", "Book to create the page in")
+  .option("--chapter <id|name|slug>", "Chapter to create the page in")
+  .requiredOption("--name <name>", "Page name")
+  .option("--markdown <file>", "Markdown body from a file (- for stdin)")
+  .option("--html <file>", "HTML body from a file (- for stdin)")
+  .option("--priority <n>", "Sort order within the book or chapter", parseNonNegativeInt)
+  .option("--tag <name[=value]>", "Tag to set (repeatable)", collect, [])
+  .option("--json", "Output JSON")
+  .action(async (opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet, json: !!opts.json });
+      if (!opts.book && !opts.chapter) {
+        console.error("Either --book or --chapter is required");
+        process.exit(1);
+      }
+      if (!opts.markdown && !opts.html) {
+        console.error("A page body is required: use --markdown <file> or --html <file>");
+        process.exit(1);
+      }
+      const client = await createClient(globalOpts);
+      const data: Partial<Page> = { ...buildEntityPayload(opts), ...(await readPageBody(opts)) };
+      if (opts.chapter) {
+        const chapterId = await resolveChapterId(client, String(opts.chapter));
+        if (chapterId == null) {
+          console.error(`Chapter not found: ${opts.chapter}`);
+          process.exit(1);
+        }
+        data.chapter_id = chapterId;
+      } else {
+        const bookId = await resolveBookId(client, String(opts.book));
+        if (bookId == null) {
+          console.error(`Book not found: ${opts.book}`);
+          process.exit(1);
+        }
+        data.book_id = bookId;
+      }
+      const page = await client.createPage(data);
+      printWriteResult("Created", "page", page, opts);
+    } catch (error) {
+      handleAxiosError(error);
+    }
+  });
+
+pageCmd
+  .command("update")
+  .description("Update a page's name, body, priority, or tags")
+  .argument("<page>", "Page identifier (ID, name, or slug)")
+  .option("--name <name>", "New page name")
+  .option("--markdown <file>", "Markdown body from a file (- for stdin)")
+  .option("--html <file>", "HTML body from a file (- for stdin)")
+  .option("--priority <n>", "Sort order within the book or chapter", parseNonNegativeInt)
+  .option("--tag <name[=value]>", "Tag to set; replaces existing tags (repeatable)", collect, [])
+  .option("--json", "Output JSON")
+  .action(async (pageArg: string, opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet, json: !!opts.json });
+      const client = await createClient(globalOpts);
+      const pageId = await resolvePageId(client, String(pageArg));
+      if (pageId == null) {
+        console.error(`Page not found: ${pageArg}`);
+        process.exit(1);
+      }
+      const data: Partial<Page> = { ...buildEntityPayload(opts), ...(await readPageBody(opts)) };
+      const page = await client.updatePage(pageId, data);
+      printWriteResult("Updated", "page", page, opts);
+    } catch (error) {
+      handleAxiosError(error);
+    }
+  });
+
+pageCmd
+  .command("delete")
+  .description("Delete a page")
+  .argument("<page>", "Page identifier (ID, name, or slug)")
+  .option("-y, --yes", "Skip the confirmation prompt")
+  .action(async (pageArg: string, opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet });
+      const client = await createClient(globalOpts);
+      const pageId = await resolvePageId(client, String(pageArg));
+      if (pageId == null) {
+        console.error(`Page not found: ${pageArg}`);
+        process.exit(1);
+      }
+      const page = await client.getPage(pageId);
+      await confirmOrExit(`Delete page "${page.name}" (ID: ${page.id})?`, opts);
+      await client.deletePage(pageId);
+      console.log(`${icons.success} Deleted page: ${c.bold(page.name)} ${c.gray(`(ID: ${page.id})`)}`);
+    } catch (error) {
+      handleAxiosError(error);
+    }
+  });
+
+pageCmd
+  .command("move")
+  .description("Move a page to another book or chapter")
+  .argument("<page>", "Page identifier (ID, name, or slug)")
+  .option("--book <id|name|slug>", "Destination book (page becomes top-level)")
+  .option("--chapter <id|name|slug>", "Destination chapter")
+  .option("--json", "Output JSON")
+  .action(async (pageArg: string, opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet, json: !!opts.json });
+      if (!opts.book && !opts.chapter) {
+        console.error("Either --book or --chapter is required");
+        process.exit(1);
+      }
+      const client = await createClient(globalOpts);
+      const pageId = await resolvePageId(client, String(pageArg));
+      if (pageId == null) {
+        console.error(`Page not found: ${pageArg}`);
+        process.exit(1);
+      }
+      let page: Page;
+      if (opts.chapter) {
+        const chapterId = await resolveChapterId(client, String(opts.chapter));
+        if (chapterId == null) {
+          console.error(`Chapter not found: ${opts.chapter}`);
+          process.exit(1);
+        }
+        page = await client.movePage(pageId, { chapterId });
+      } else {
+        const bookId = await resolveBookId(client, String(opts.book));
+        if (bookId == null) {
+          console.error(`Book not found: ${opts.book}`);
+          process.exit(1);
+        }
+        page = await client.movePage(pageId, { bookId });
+      }
+      printWriteResult("Moved", "page", page, opts);
+    } catch (error) {
+      handleAxiosError(error);
+    }
+  });
+
+// Shelf command group (single shelf writes)
+const shelfCmd = program.command("shelf").description("Create, update, and delete shelves");
+
+shelfCmd
+  .command("create")
+  .description("Create a shelf")
+  .requiredOption("--name <name>", "Shelf name")
+  .option("--description <text>", "Shelf description")
+  .option("--book <id|name|slug>", "Book to place on the shelf (repeatable)", collect, [])
+  .option("--tag <name[=value]>", "Tag to set (repeatable)", collect, [])
+  .option("--json", "Output JSON")
+  .action(async (opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet, json: !!opts.json });
+      const client = await createClient(globalOpts);
+      const data: ShelfInput = buildEntityPayload(opts);
+      if (opts.book.length) data.books = await resolveBookIds(client, opts.book);
+      const shelf = await client.createShelf(data);
+      printWriteResult("Created", "shelf", shelf, opts);
+    } catch (error) {
+      handleAxiosError(error);
+    }
+  });
+
+shelfCmd
+  .command("update")
+  .description("Update a shelf's name, description, books, or tags")
+  .argument("<shelf>", "Shelf identifier (ID, name, or slug)")
+  .option("--name <name>", "New shelf name")
+  .option("--description <text>", "New shelf description")
+  .option("--book <id|name|slug>", "Book to place on the shelf; replaces existing books (repeatable)", collect, [])
+  .option("--tag <name[=value]>", "Tag to set; replaces existing tags (repeatable)", collect, [])
+  .option("--json", "Output JSON")
+  .action(async (shelfArg: string, opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet, json: !!opts.json });
+      const client = await createClient(globalOpts);
+      const shelfId = await resolveShelfId(client, String(shelfArg));
+      if (shelfId == null) {
+        console.error(`Shelf not found: ${shelfArg}`);
+        process.exit(1);
+      }
+      const data: ShelfInput = buildEntityPayload(opts);
+      if (opts.book.length) data.books = await resolveBookIds(client, opts.book);
+      const shelf = await client.updateShelf(shelfId, data);
+      printWriteResult("Updated", "shelf", shelf, opts);
+    } catch (error) {
+      handleAxiosError(error);
+    }
+  });
+
+shelfCmd
+  .command("delete")
+  .description("Delete a shelf (its books are kept)")
+  .argument("<shelf>", "Shelf identifier (ID, name, or slug)")
+  .option("-y, --yes", "Skip the confirmation prompt")
+  .action(async (shelfArg: string, opts: any) => {
+    try {
+      const globalOpts = program.opts();
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet });
+      const client = await createClient(globalOpts);
+      const shelfId = await resolveShelfId(client, String(shelfArg));
+      if (shelfId == null) {
+        console.error(`Shelf not found: ${shelfArg}`);
+        process.exit(1);
+      }
+      const shelf = await client.getShelf(shelfId);
+      await confirmOrExit(`Delete shelf "${shelf.name}" (ID: ${shelf.id})?`, opts);
+      await client.deleteShelf(shelfId);
+      console.log(`${icons.success} Deleted shelf: ${c.bold(shelf.name)} ${c.gray(`(ID: ${shelf.id})`)}`);
     } catch (error) {
       handleAxiosError(error);
     }
@@ -1310,21 +2169,8 @@ program
   .action(async (query: string, opts: any) => {
     try {
       const globalOpts = program.opts();
-      configureUi({ color: !globalOpts.noColor, quiet: !!globalOpts.quiet });
-      const config = await resolveConfig({
-        explicitPath: globalOpts.config,
-        cli: {
-          url: globalOpts.url,
-          tokenId: globalOpts.tokenId,
-          tokenSecret: globalOpts.tokenSecret,
-        },
-      });
-
-      const client = new BookStackClient({
-        baseUrl: config.url || "",
-        tokenId: config.tokenId || "",
-        tokenSecret: config.tokenSecret || "",
-      });
+      configureUi({ color: globalOpts.color !== false, quiet: !!globalOpts.quiet });
+      const client = await createClient(globalOpts);
 
       const built = buildSearchQuery(query, { type: opts.type });
       const results = await client.searchAll(built);
@@ -1382,6 +2228,9 @@ program
               url: globalOpts.url,
               tokenId: globalOpts.tokenId,
               tokenSecret: globalOpts.tokenSecret,
+              retries: globalOpts.retries,
+              retryDelay: globalOpts.retryDelay,
+              retryMaxDelay: globalOpts.retryMaxDelay,
             },
           });
           console.log("Effective configuration (CLI > env > file):");
@@ -1391,6 +2240,11 @@ program
           console.log(
             `  Token Secret: ${config.tokenSecret ? "[SET]" : "Not set"}`
           );
+          console.log(
+            `  Retries: ${config.retries ?? DEFAULT_RETRIES} (backoff ${
+              config.retryDelay ?? DEFAULT_RETRY_DELAY_MS
+            }–${config.retryMaxDelay ?? DEFAULT_RETRY_MAX_DELAY_MS} ms)`
+          );
         }
         break;
       default:
@@ -1407,6 +2261,40 @@ if (require.main === module) {
 
 export { program };
 
+async function createClient(globalOpts: any): Promise<BookStackClient> {
+  const config = await resolveConfig({
+    explicitPath: globalOpts.config,
+    cli: {
+      url: globalOpts.url,
+      tokenId: globalOpts.tokenId,
+      tokenSecret: globalOpts.tokenSecret,
+      retries: globalOpts.retries,
+      retryDelay: globalOpts.retryDelay,
+      retryMaxDelay: globalOpts.retryMaxDelay,
+    },
+  });
+
+  return new BookStackClient({
+    baseUrl: config.url || "",
+    tokenId: config.tokenId || "",
+    tokenSecret: config.tokenSecret || "",
+    retry: {
+      retries: config.retries,
+      baseDelayMs: config.retryDelay,
+      maxDelayMs: config.retryMaxDelay,
+      onRetry: (info) => {
+        if (globalOpts.quiet) return;
+        const reason = info.status ? `HTTP ${info.status}` : info.code || "network error";
+        process.stderr.write(
+          `${icons.warning} ${c.yellow(`${reason} on ${info.method} ${info.url}`)} ${c.gray(
+            `retrying in ${formatDuration(info.delayMs)} (${info.attempt}/${info.retries})`
+          )}\n`
+        );
+      },
+    },
+  });
+}
+
 async function resolveBookId(
   client: BookStackClient,
   bookArg: string
@@ -1441,11 +2329,129 @@ function handleAxiosError(error: unknown) {
   process.exit(1);
 }
 
+function parsePositiveInt(value: string): number {
+  const n = parseInt(value, 10);
+  if (!Number.isFinite(n) || n < 1) {
+    console.error(`Expected a positive integer, got: ${value}`);
+    process.exit(1);
+  }
+  return n;
+}
+
+// "last", or a timestamp Date understands, e.g. 2026-10-01 or 2026-10-01T08:00:00Z
+function parseSince(value: string): "last" | Date {
+  if (value === "last") return value;
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) {
+    console.error(`Invalid --since value: ${value}. Use an ISO timestamp or "last".`);
+    process.exit(1);
+  }
+  return new Date(ms);
+}
+
+function parseNonNegativeInt(value: string): number {
+  const n = parseInt(value, 10);
+  if (!Number.isFinite(n) || n < 0) {
+    console.error(`Expected a non-negative integer, got: ${value}`);
+    process.exit(1);
+  }
+  return n;
+}
+
+function listOptionsFrom(opts: any): ListOptions {
+  return { count: opts.limit, offset: opts.offset };
+}
+
+function toListResult<T>(data: T[]): ListResult<T> {
+  return { data, total: data.length };
+}
+
+// Tell the user when a listing stopped short of the server-side total
+function printMoreHint(result: ListResult<unknown>, opts: any) {
+  const shown = (opts.offset || 0) + result.data.length;
+  if (opts.all || result.total <= shown) return;
+  console.log(
+    c.dim(
+      `... ${result.total - shown} more not shown (use --offset ${shown} or --all).`
+    )
+  );
+}
+
 function collect(val: string, memo: string[]) {
   memo.push(val);
   return memo;
 }
 
+// "name=value" or bare "name"
+function parseTagArgs(values: string[] | undefined): Tag[] | undefined {
+  if (!values || !values.length) return undefined;
+  return values.map(parseTag);
+}
+
+// Shared name/description/priority/tags fields for create and update payloads
+function buildEntityPayload(opts: any): { name?: string; description?: string; priority?: number; tags?: Tag[] } {
+  const data: { name?: string; description?: string; priority?: number; tags?: Tag[] } = {};
+  if (opts.name != null) data.name = String(opts.name);
+  if (opts.description != null) data.description = String(opts.description);
+  if (opts.priority != null) data.priority = opts.priority;
+  const tags = parseTagArgs(opts.tag);
+  if (tags) data.tags = tags;
+  return data;
+}
+
+async function readPageBody(opts: any): Promise<Partial<Page>> {
+  const body: Partial<Page> = {};
+  if (opts.markdown) body.markdown = await readContentArg(String(opts.markdown));
+  if (opts.html) body.html = await readContentArg(String(opts.html));
+  return body;
+}
+
+async function readContentArg(spec: string): Promise<string> {
+  if (spec !== "-") return fs.readFile(spec, "utf8");
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+async function resolveBookIds(client: BookStackClient, bookArgs: string[]): Promise<number[]> {
+  const ids: number[] = [];
+  for (const arg of bookArgs) {
+    const id = await resolveBookId(client, String(arg));
+    if (id == null) {
+      console.error(`Book not found: ${arg}`);
+      process.exit(1);
+    }
+    ids.push(id);
+  }
+  return ids;
+}
+
+async function confirmOrExit(question: string, opts: any) {
+  if (opts.yes) return;
+  if (await confirm(question)) return;
+  console.error(
+    process.stdin.isTTY
+      ? "Aborted."
+      : "Refusing to continue without confirmation; pass --yes to skip the prompt."
+  );
+  process.exit(1);
+}
+
+function printWriteResult(
+  verb: string,
+  kind: string,
+  entity: { id: number; name: string },
+  opts: any
+) {
+  if (opts.json) {
+    console.log(JSON.stringify(entity, null, 2));
+    return;
+  }
+  console.log(
+    `${icons.success} ${verb} ${kind}: ${c.bold(entity.name)} ${c.gray(`(ID: ${entity.id})`)}`
+  );
+}
+
 function buildSearchQuery(base: string, flags: any): string {
   const tokens: string[] = [];
   if (base && String(base).trim()) tokens.push(String(base).trim());
@@ -1512,144 +2518,252 @@ function escapeFilterValue(val: string): string {
   return val;
 }
 
-async function exportLegacyStructure(client: BookStackClient, outRoot: string, pages: any[], chapters: any[], fmt: string, ext: string, opts: any, bar: any): Promise<{files: number, bytes: number}> {
+// State shared by the export-contents writers for one run
+interface ExportRun {
+  journal?: Checkpoint;
+  report: RunReport;
+  bookSlug: string;
+  resumed: number;
+  continueOnError: boolean;
+  log: (msg: string) => void;
+  assets?: AssetStats; // set with --with-assets
+}
+
+// With --with-assets, points the page's image and attachment links at copies in `assets`
+async function localizeAssets(run: ExportRun, assets: AssetFolder | undefined, text: string, fromDir: string, indent: string): Promise<string> {
+  if (!assets) return text;
+  return assets.localize(text, fromDir, (msg) => run.log(`${indent}${icons.warning} ${msg}`));
+}
+
+// Reports a failed item; it stops the export unless --continue-on-error is set
+function exportFailure(run: ExportRun, item: Omit<ReportItem, "status" | "error">, error: unknown): void {
+  const message = describeError(error);
+  run.report.add({ ...item, status: "failed", error: message });
+  if (!run.continueOnError) throw error;
+  run.log(`  ${icons.error} Failed ${item.type}: ${item.name} ${c.gray(`(${message})`)}`);
+}
+
+// Skips pages the journal lists and records the outcome of the rest in the report.
+// `write` returns the bytes written, or undefined in a dry run. Returns false for skipped and failed pages.
+async function exportPageTask(client: BookStackClient, outRoot: string, run: ExportRun, p: any, outPath: string, write: () => Promise<number | undefined>): Promise<boolean> {
+  const key = `page:${p.id}`;
+  const url = client.pageUrl(run.bookSlug, p.slug);
+  if (run.journal?.has(key)) {
+    run.resumed += 1;
+    run.report.add({ type: "page", status: "resumed", name: p.name, id: p.id, url });
+    return false;
+  }
+  const item = { type: "page" as const, name: p.name, id: p.id, url, path: path.relative(outRoot, outPath).split(path.sep).join("/") };
+  const startedAt = Date.now();
+  try {
+    const bytes = await write();
+    if (bytes !== undefined) {
+      run.journal?.record({ key });
+      run.report.add({ ...item, status: "exported", bytes, durationMs: Date.now() - startedAt });
+    }
+  } catch (e) {
+    exportFailure(run, { ...item, durationMs: Date.now() - startedAt }, e);
+    return false;
+  }
+  return true;
+}
+
+function chapterItem(client: BookStackClient, outRoot: string, run: ExportRun, ch: any, chDir: string): Omit<ReportItem, "status"> {
+  return {
+    type: "chapter",
+    name: ch.name,
+    id: ch.id,
+    url: client.chapterUrl(run.bookSlug, ch.slug),
+    path: path.relative(outRoot, chDir).split(path.sep).join("/"),
+  };
+}
+
+function reportChapter(client: BookStackClient, outRoot: string, run: ExportRun, ch: any, chDir: string): void {
+  run.report.add({ ...chapterItem(client, outRoot, run, ch, chDir), status: "exported" });
+}
+
+async function exportLegacyStructure(client: BookStackClient, outRoot: string, pages: any[], chapters: any[], fmt: string, ext: string, opts: any, bar: any, run: ExportRun): Promise<{files: number, bytes: number}> {
   let files = 0;
   let bytes = 0;
-
-  // Export top-level pages (legacy format)
-  for (const p of pages) {
-    const filename = `${sanitize(p.slug || p.name)}-${p.id}.${ext}`;
-    const outPath = path.join(outRoot, filename);
-    if (opts.dryRun) {
-      bar.log(`  ${icons.dry} Would write: ${c.gray(filename)}`);
-    } else {
-      bar.log(`  ${icons.working} ${c.gray(p.name)}`);
-      const text = await client.exportPage(p.id, fmt as any);
+  const pool = new TaskPool(opts.concurrency || DEFAULT_CONCURRENCY);
+  // One assets/ folder for the whole book
+  const assets = run.assets && new AssetFolder(client, path.join(outRoot, "assets"), run.assets);
+
+  const exportFile = (p: any, dir: string, indent: string) => pool.run(async () => {
+    const outPath = exportPagePath("legacy", dir, p, ext);
+    const filename = path.basename(outPath);
+    const written = await exportPageTask(client, outRoot, run, p, outPath, async () => {
+      if (opts.dryRun) {
+        bar.log(`${indent}${icons.dry} Would write: ${c.gray(filename)}`);
+        return undefined;
+      }
+      bar.log(`${indent}${icons.working} ${c.gray(p.name)}`);
+      const text = await localizeAssets(run, assets, await client.exportPage(p.id, fmt as any), dir, indent);
       await fs.writeFile(outPath, text, "utf8");
-      bytes += Buffer.byteLength(text, 'utf8');
-      bar.log(`  ${icons.success} Exported: ${p.name} ${c.gray(`(${formatBytes(Buffer.byteLength(text, 'utf8'))})`)}`);
-    }
-    files += 1;
+      const size = Buffer.byteLength(text, 'utf8');
+      bytes += size;
+      bar.log(`${indent}${icons.success} Exported: ${p.name} ${c.gray(`(${formatBytes(size)})`)}`);
+      return size;
+    });
+    if (written) files += 1;
     bar.tick(1);
-  }
+  });
 
-  // Export chapters & pages (legacy format)
+  // Export top-level pages (legacy format)
+  for (const p of pages) await exportFile(p, outRoot, "  ");
+
+  // Export chapters & pages (legacy format); directories are created in book order
   for (const ch of chapters) {
-    const chDir = path.join(
-      outRoot,
-      `${sanitize(ch.slug || ch.name)}-${ch.id}`
-    );
+    const chDir = exportChapterDir("legacy", outRoot, ch);
     if (opts.dryRun) bar.log(`  ${icons.dry} Would create dir: ${c.gray(ch.name)}`);
-    else await fs.ensureDir(chDir);
+    else {
+      try {
+        await fs.ensureDir(chDir);
+        reportChapter(client, outRoot, run, ch, chDir);
+      } catch (e) {
+        // Its pages would fail the same way
+        exportFailure(run, chapterItem(client, outRoot, run, ch, chDir), e);
+        bar.tick(Array.isArray(ch.pages) ? ch.pages.length : 0);
+        continue;
+      }
+    }
 
     bar.log(`  ${icons.info} ${c.bold(ch.name)}`);
     const chPages = Array.isArray(ch.pages) ? ch.pages : [];
-    for (const p of chPages) {
-      const filename = `${sanitize(p.slug || p.name)}-${p.id}.${ext}`;
-      const outPath = path.join(chDir, filename);
-      if (opts.dryRun) {
-        bar.log(`    ${icons.dry} Would write: ${c.gray(filename)}`);
-      } else {
-        bar.log(`    ${icons.working} ${c.gray(p.name)}`);
-        const text = await client.exportPage(p.id, fmt as any);
-        await fs.writeFile(outPath, text, "utf8");
-        bytes += Buffer.byteLength(text, 'utf8');
-        bar.log(`    ${icons.success} Exported: ${p.name} ${c.gray(`(${formatBytes(Buffer.byteLength(text, 'utf8'))})`)}`);
-      }
-      files += 1;
-      bar.tick(1);
-    }
+    for (const p of chPages) await exportFile(p, chDir, "    ");
   }
 
+  await pool.drain();
   return { files, bytes };
 }
 
-async function exportNestedStructure(client: BookStackClient, outRoot: string, pages: any[], chapters: any[], fmt: string, ext: string, opts: any, bar: any): Promise<{files: number, bytes: number}> {
+async function exportNestedStructure(client: BookStackClient, outRoot: string, pages: any[], chapters: any[], fmt: string, ext: string, opts: any, bar: any, run: ExportRun): Promise<{files: number, bytes: number}> {
   let files = 0;
   let bytes = 0;
+  const pool = new TaskPool(opts.concurrency || DEFAULT_CONCURRENCY);
 
-  // Export top-level pages as page folders
-  for (const p of pages) {
-    const pageDir = path.join(outRoot, sanitize(p.slug || p.name));
-    if (!opts.dryRun) await fs.ensureDir(pageDir);
+  // Each page becomes a folder with its metadata and content
+  const exportPageFolder = (p: any, dir: string, indent: string) => pool.run(async () => {
+    const pageDir = exportPagePath("nested", dir, p, ext);
+    const contentPath = path.join(pageDir, `page.${ext}`);
+    const written = await exportPageTask(client, outRoot, run, p, contentPath, async () => {
+      if (opts.dryRun) {
+        bar.log(`${indent}${icons.dry} Would export page: ${c.gray(p.name)}`);
+        return undefined;
+      }
+      await fs.ensureDir(pageDir);
 
-    // Export page metadata
-    if (!opts.dryRun) {
+      // Export page metadata; book contents omit tags, so read the page itself
+      const full = await client.getPage(p.id);
       const pageMeta = {
         name: p.name,
-        priority: p.priority || undefined
+        priority: p.priority ?? undefined,
+        tags: cleanTags(full.tags),
+        template: full.template || undefined,
       };
       const metaPath = path.join(pageDir, ".page-metadata.json");
       await fs.writeFile(metaPath, JSON.stringify(pageMeta, null, 2) + "\n", "utf8");
-    }
 
-    // Export page content
-    const contentPath = path.join(pageDir, `page.${ext}`);
-    if (opts.dryRun) {
-      bar.log(`  ${icons.dry} Would export page: ${c.gray(p.name)}`);
-    } else {
-      bar.log(`  ${icons.working} ${c.gray(p.name)}`);
-      const text = await client.exportPage(p.id, fmt as any);
+      // Export page content
+      bar.log(`${indent}${icons.working} ${c.gray(p.name)}`);
+      const assets = run.assets && new AssetFolder(client, path.join(pageDir, "assets"), run.assets);
+      const text = await localizeAssets(run, assets, await exportPageBody(client, full, fmt), pageDir, indent);
       await fs.writeFile(contentPath, text, "utf8");
-      bytes += Buffer.byteLength(text, 'utf8');
-      bar.log(`  ${icons.success} Exported: ${p.name} ${c.gray(`(${formatBytes(Buffer.byteLength(text, 'utf8'))})`)}`);
-    }
-    files += 1;
+      const size = Buffer.byteLength(text, 'utf8');
+      bytes += size;
+      bar.log(`${indent}${icons.success} Exported: ${p.name} ${c.gray(`(${formatBytes(size)})`)}`);
+      return size;
+    });
+    if (written) files += 1;
     bar.tick(1);
-  }
+  });
+
+  // Export top-level pages as page folders
+  for (const p of pages) await exportPageFolder(p, outRoot, "  ");
 
-  // Export chapters with nested page structure
+  // Export chapters with nested page structure; chapter folders are written in book order
   for (const ch of chapters) {
-    const chDir = path.join(outRoot, sanitize(ch.slug || ch.name));
-    if (!opts.dryRun) await fs.ensureDir(chDir);
+    const chDir = exportChapterDir("nested", outRoot, ch);
 
     // Export chapter metadata
     if (!opts.dryRun) {
-      const chapterMeta = {
-        name: ch.name,
-        description: ch.description || undefined,
-        priority: ch.priority || undefined
-      };
-      const metaPath = path.join(chDir, ".chapter-metadata.json");
-      await fs.writeFile(metaPath, JSON.stringify(chapterMeta, null, 2) + "\n", "utf8");
+      try {
+        await fs.ensureDir(chDir);
+        const full = await client.getChapter(ch.id);
+        const chapterMeta = {
+          name: ch.name,
+          description: ch.description || undefined,
+          priority: ch.priority ?? undefined,
+          tags: cleanTags(full.tags),
+        };
+        const metaPath = path.join(chDir, ".chapter-metadata.json");
+        await fs.writeFile(metaPath, JSON.stringify(chapterMeta, null, 2) + "\n", "utf8");
+        reportChapter(client, outRoot, run, ch, chDir);
+      } catch (e) {
+        // The pages are still exported; only the chapter's own metadata is missing
+        exportFailure(run, chapterItem(client, outRoot, run, ch, chDir), e);
+      }
     }
 
     bar.log(`  ${icons.info} ${c.bold(ch.name)}`);
 
     const chPages = Array.isArray(ch.pages) ? ch.pages : [];
-    for (const p of chPages) {
-      const pageDir = path.join(chDir, sanitize(p.slug || p.name));
-      if (!opts.dryRun) await fs.ensureDir(pageDir);
-
-      // Export page metadata
-      if (!opts.dryRun) {
-        const pageMeta = {
-          name: p.name,
-          priority: p.priority || undefined
-        };
-        const metaPath = path.join(pageDir, ".page-metadata.json");
-        await fs.writeFile(metaPath, JSON.stringify(pageMeta, null, 2) + "\n", "utf8");
-      }
-
-      // Export page content
-      const contentPath = path.join(pageDir, `page.${ext}`);
-      if (opts.dryRun) {
-        bar.log(`    ${icons.dry} Would export page: ${c.gray(p.name)}`);
-      } else {
-        bar.log(`    ${icons.working} ${c.gray(p.name)}`);
-        const text = await client.exportPage(p.id, fmt as any);
-        await fs.writeFile(contentPath, text, "utf8");
-        bytes += Buffer.byteLength(text, 'utf8');
-        bar.log(`    ${icons.success} Exported: ${p.name} ${c.gray(`(${formatBytes(Buffer.byteLength(text, 'utf8'))})`)}`);
-      }
-      files += 1;
-      bar.tick(1);
-    }
+    for (const p of chPages) await exportPageFolder(p, chDir, "    ");
   }
 
+  await pool.drain();
   return { files, bytes };
 }
 
+// The body of a nested export's page file. Markdown and HTML come from the page itself:
+// BookStack's exports start with the page name as a heading (HTML ones are a whole document),
+// which import would keep in the body, adding another heading on every round trip. Pages with
+// no body in the format, such as WYSIWYG pages exported as markdown, use the export without
+// that heading.
+async function exportPageBody(client: BookStackClient, page: Page, fmt: string): Promise<string> {
+  if (fmt === "markdown" && page.markdown) return page.markdown;
+  if (fmt === "html" && page.html) return page.html;
+  const text = await client.exportPage(page.id, fmt as any);
+  const heading = fmt === "markdown" ? `# ${page.name}\n\n` : `${page.name}\n\n`;
+  return text.startsWith(heading) ? text.slice(heading.length) : text;
+}
+
+// Where export-contents writes a chapter, and a page inside `dir`: a folder for the nested
+// structure, a file for legacy
+function exportChapterDir(structure: string, outRoot: string, ch: any): string {
+  const name = sanitize(ch.slug || ch.name);
+  return path.join(outRoot, structure === "legacy" ? `${name}-${ch.id}` : name);
+}
+
+function exportPagePath(structure: string, dir: string, p: any, ext: string): string {
+  const name = sanitize(p.slug || p.name);
+  return path.join(dir, structure === "legacy" ? `${name}-${p.id}.${ext}` : name);
+}
+
+// Every page of the book with the path this export writes it to, relative to the output directory
+function plannedPages(structure: string, outRoot: string, pages: any[], chapters: any[], ext: string): (PlannedPage & { name: string; slug: string; chapterId?: number })[] {
+  const entry = (p: any, dir: string, chapterId?: number) => ({
+    id: p.id,
+    name: p.name,
+    slug: p.slug,
+    chapterId,
+    path: path.relative(outRoot, exportPagePath(structure, dir, p, ext)).split(path.sep).join("/"),
+    updatedAt: p.updated_at,
+    priority: p.priority,
+  });
+  return [
+    ...pages.map((p) => entry(p, outRoot)),
+    ...chapters.flatMap((ch) => (Array.isArray(ch.pages) ? ch.pages : []).map((p: any) => entry(p, exportChapterDir(structure, outRoot, ch), ch.id))),
+  ];
+}
+
+// Attachment names usually lack the extension BookStack stores separately
+function attachmentFileName(att: Attachment): string {
+  const base = sanitize(att.name) || `attachment-${att.id}`;
+  if (!att.extension || base.toLowerCase().endsWith(`.${att.extension.toLowerCase()}`)) return base;
+  return `${base}.${att.extension}`;
+}
+
 function sanitize(input: string): string {
   return String(input)
     .normalize("NFKD")
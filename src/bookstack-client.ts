@@ -1,9 +1,16 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, isAxiosError } from 'axios';
+import { attachRetry, RetryOptions } from './http-retry';
 
 export interface BookStackConfig {
   baseUrl: string;
   tokenId: string;
   tokenSecret: string;
+  retry?: RetryOptions;
+}
+
+export interface Tag {
+  name: string;
+  value?: string;
 }
 
 export interface Book {
@@ -11,10 +18,26 @@ export interface Book {
   name: string;
   slug: string;
   description?: string;
+  tags?: Tag[];
   created_at: string;
   updated_at: string;
 }
 
+// An entry of a book's contents: a top-level page, or a chapter with its pages
+export interface BookContentItem {
+  type: 'page' | 'chapter';
+  id: number;
+  name: string;
+  slug: string;
+  priority?: number;
+  pages?: BookContentItem[]; // chapters only
+}
+
+// A single book as read by ID, with its contents in display order
+export interface BookDetail extends Book {
+  contents?: BookContentItem[];
+}
+
 export interface Chapter {
   id: number;
   book_id: number;
@@ -22,10 +45,18 @@ export interface Chapter {
   slug: string;
   description?: string;
   priority: number;
+  tags?: Tag[];
   created_at: string;
   updated_at: string;
 }
 
+// Reads return the user; listings only the user's ID
+export interface UserRef {
+  id: number;
+  name: string;
+  slug?: string;
+}
+
 export interface Page {
   id: number;
   book_id: number;
@@ -35,8 +66,28 @@ export interface Page {
   html?: string;
   markdown?: string;
   priority: number;
+  template?: boolean;
+  tags?: Tag[];
   created_at: string;
   updated_at: string;
+  created_by?: UserRef | number;
+  updated_by?: UserRef | number;
+}
+
+// A saved version of a page. Listings may leave out the content, which reading the
+// single revision returns.
+export interface PageRevision {
+  id: number;
+  page_id: number;
+  name: string;
+  summary?: string | null;
+  revision_number?: number;
+  type?: string;
+  html?: string;
+  markdown?: string;
+  text?: string;
+  created_by?: UserRef | number;
+  created_at: string;
 }
 
 export interface Shelf {
@@ -44,11 +95,31 @@ export interface Shelf {
   name: string;
   slug: string;
   description?: string;
+  tags?: Tag[];
   created_at?: string;
   updated_at?: string;
   books?: Book[];
 }
 
+export interface ShelfInput {
+  name?: string;
+  description?: string;
+  tags?: Tag[];
+  books?: number[]; // book IDs, in display order
+}
+
+// Entries from /tags (one per name) and /tags/values-for-name (one per value)
+export interface TagSummary {
+  name: string;
+  value?: string; // values-for-name only
+  values?: number; // /tags only: number of distinct values
+  usages: number;
+  page_count: number;
+  chapter_count: number;
+  book_count: number;
+  shelf_count: number;
+}
+
 export interface SearchResult {
   id: number;
   name: string;
@@ -63,14 +134,60 @@ export interface ImageItem {
   id: number;
   name: string;
   url?: string;
+  path?: string; // e.g. /uploads/images/gallery/2024-01/diagram.png
   type?: string;
   created_at?: string;
   updated_at?: string;
   uploaded_to?: number;
 }
 
+export interface Attachment {
+  id: number;
+  name: string;
+  extension?: string;
+  uploaded_to: number; // page ID
+  external: boolean; // true for link attachments
+  order?: number;
+  created_at?: string;
+  updated_at?: string;
+  // Only present when reading a single attachment: base64 file data, or the URL for links
+  content?: string;
+  links?: { html: string; markdown: string };
+}
+
+// Either a file (multipart upload) or an external link
+export interface AttachmentInput {
+  name?: string;
+  uploadedTo?: number;
+  file?: { data: Uint8Array; filename: string };
+  link?: string;
+}
+
+export interface ImageInput {
+  name?: string;
+  uploadedTo?: number; // page ID
+  type?: 'gallery' | 'drawio';
+  file?: { data: Uint8Array; filename: string };
+}
+
+export interface ListOptions {
+  count?: number;
+  offset?: number;
+  filter?: Record<string, string | number>; // sent as filter[field]=value
+}
+
+export interface ListResult<T> {
+  data: T[];
+  total: number;
+}
+
+// BookStack caps listing endpoints at 500 items and search at 100 per request
+const MAX_LIST_COUNT = 500;
+const MAX_SEARCH_COUNT = 100;
+
 export class BookStackClient {
   private client: AxiosInstance;
+  private anonymous: AxiosInstance; // for files on other hosts, which must not see the API token
   private config: BookStackConfig;
 
   constructor(config: BookStackConfig) {
@@ -87,15 +204,25 @@ export class BookStackClient {
         'Content-Type': 'application/json',
       },
     });
+    attachRetry(this.client, config.retry);
+    this.anonymous = axios.create();
+    attachRetry(this.anonymous, config.retry);
   }
 
   // Books API
-  async getBooks(): Promise<Book[]> {
-    const response = await this.client.get('/books');
-    return response.data.data;
+  async getBooks(opts: ListOptions = {}): Promise<Book[]> {
+    return collect(this.iterateBooks(opts));
+  }
+
+  async listBooks(opts: ListOptions = {}): Promise<ListResult<Book>> {
+    return this.listPage<Book>('/books', opts);
   }
 
-  async getBook(id: number): Promise<Book> {
+  iterateBooks(opts: ListOptions = {}): AsyncGenerator<Book> {
+    return this.paginate<Book>('/books', opts);
+  }
+
+  async getBook(id: number): Promise<BookDetail> {
     const response = await this.client.get(`/books/${id}`);
     return response.data;
   }
@@ -110,6 +237,10 @@ export class BookStackClient {
     return response.data;
   }
 
+  async deleteBook(id: number): Promise<void> {
+    await this.client.delete(`/books/${id}`);
+  }
+
   // Chapters API
   async getChapters(bookId: number): Promise<Chapter[]> {
     // BookStack API exposes chapters via the book read endpoint contents
@@ -144,10 +275,26 @@ export class BookStackClient {
     return response.data;
   }
 
+  async deleteChapter(id: number): Promise<void> {
+    await this.client.delete(`/chapters/${id}`);
+  }
+
+  // Changing book_id on update moves the chapter (and its pages) to that book
+  async moveChapter(id: number, bookId: number): Promise<Chapter> {
+    return this.updateChapter(id, { book_id: bookId });
+  }
+
   // Pages API
-  async getAllPages(): Promise<Page[]> {
-    const response = await this.client.get('/pages');
-    return response.data.data;
+  async getAllPages(opts: ListOptions = {}): Promise<Page[]> {
+    return collect(this.iterateAllPages(opts));
+  }
+
+  async listAllPages(opts: ListOptions = {}): Promise<ListResult<Page>> {
+    return this.listPage<Page>('/pages', opts);
+  }
+
+  iterateAllPages(opts: ListOptions = {}): AsyncGenerator<Page> {
+    return this.paginate<Page>('/pages', opts);
   }
 
   async getPages(bookId: number): Promise<Page[]> {
@@ -202,6 +349,29 @@ export class BookStackClient {
     await this.client.delete(`/pages/${id}`);
   }
 
+  // Not every BookStack release has revisions in its API; undefined where the endpoint is missing
+  async getPageRevisions(pageId: number): Promise<PageRevision[] | undefined> {
+    try {
+      return await collect(this.paginate<PageRevision>(`/pages/${pageId}/revisions`, {}));
+    } catch (error) {
+      if (isAxiosError(error) && error.response?.status === 404) return undefined;
+      throw error;
+    }
+  }
+
+  async getPageRevision(pageId: number, revisionId: number): Promise<PageRevision> {
+    const response = await this.client.get(`/pages/${pageId}/revisions/${revisionId}`);
+    return response.data;
+  }
+
+  // Changing chapter_id or book_id on update moves the page; chapter wins if both are given
+  async movePage(id: number, target: { bookId?: number; chapterId?: number }): Promise<Page> {
+    const data: Partial<Page> = target.chapterId != null
+      ? { chapter_id: target.chapterId }
+      : { book_id: target.bookId };
+    return this.updatePage(id, data);
+  }
+
   // Utility methods
   async findBookByName(name: string): Promise<Book | null> {
     const books = await this.getBooks();
@@ -223,6 +393,24 @@ export class BookStackClient {
     });
   }
 
+  // Web URLs (list and write responses don't include them)
+  bookUrl(bookSlug: string): string {
+    return `${this.webBase()}/books/${bookSlug}`;
+  }
+
+  pageUrl(bookSlug: string, pageSlug: string): string {
+    return `${this.webBase()}/books/${bookSlug}/page/${pageSlug}`;
+  }
+
+  chapterUrl(bookSlug: string, chapterSlug: string): string {
+    return `${this.webBase()}/books/${bookSlug}/chapter/${chapterSlug}`;
+  }
+
+  // Instance root, without a trailing slash
+  webBase(): string {
+    return this.config.baseUrl.replace(/\/+$/, '');
+  }
+
   // Test connection
   async testConnection(): Promise<boolean> {
     try {
@@ -233,6 +421,32 @@ export class BookStackClient {
     }
   }
 
+  // Pagination helpers
+  private async listPage<T>(path: string, opts: ListOptions, query: Record<string, string> = {}): Promise<ListResult<T>> {
+    const params: Record<string, string | number> = { ...query };
+    if (opts.count != null) params.count = Math.min(opts.count, MAX_LIST_COUNT);
+    if (opts.offset != null) params.offset = opts.offset;
+    for (const [field, value] of Object.entries(opts.filter || {})) {
+      params[`filter[${field}]`] = value;
+    }
+    const response = await this.client.get(path, { params });
+    const data = (response.data?.data || []) as T[];
+    const total = typeof response.data?.total === 'number' ? response.data.total : data.length;
+    return { data, total };
+  }
+
+  // Follows count/offset until the reported total is reached
+  private async *paginate<T>(path: string, opts: ListOptions, query: Record<string, string> = {}): AsyncGenerator<T> {
+    const count = Math.min(opts.count ?? MAX_LIST_COUNT, MAX_LIST_COUNT);
+    let offset = opts.offset ?? 0;
+    while (true) {
+      const page = await this.listPage<T>(path, { count, offset, filter: opts.filter }, query);
+      for (const item of page.data) yield item;
+      offset += page.data.length;
+      if (page.data.length === 0 || offset >= page.total) break;
+    }
+  }
+
   private async getBookContents(bookId: number): Promise<any[]> {
     const response = await this.client.get(`/books/${bookId}`);
     const data = response.data || {};
@@ -276,9 +490,16 @@ export class BookStackClient {
   }
 
   // Shelves
-  async getShelves(): Promise<Shelf[]> {
-    const response = await this.client.get('/shelves');
-    return response.data.data;
+  async getShelves(opts: ListOptions = {}): Promise<Shelf[]> {
+    return collect(this.iterateShelves(opts));
+  }
+
+  async listShelves(opts: ListOptions = {}): Promise<ListResult<Shelf>> {
+    return this.listPage<Shelf>('/shelves', opts);
+  }
+
+  iterateShelves(opts: ListOptions = {}): AsyncGenerator<Shelf> {
+    return this.paginate<Shelf>('/shelves', opts);
   }
 
   async getShelf(id: number): Promise<Shelf> {
@@ -286,47 +507,242 @@ export class BookStackClient {
     return response.data;
   }
 
+  async createShelf(data: ShelfInput): Promise<Shelf> {
+    const response = await this.client.post('/shelves', data);
+    return response.data;
+  }
+
+  async updateShelf(id: number, data: ShelfInput): Promise<Shelf> {
+    const response = await this.client.put(`/shelves/${id}`, data);
+    return response.data;
+  }
+
+  async deleteShelf(id: number): Promise<void> {
+    await this.client.delete(`/shelves/${id}`);
+  }
+
+  // Tags
+  async getTags(opts: ListOptions = {}): Promise<TagSummary[]> {
+    return collect(this.iterateTags(opts));
+  }
+
+  async listTags(opts: ListOptions = {}): Promise<ListResult<TagSummary>> {
+    return this.listPage<TagSummary>('/tags', opts);
+  }
+
+  iterateTags(opts: ListOptions = {}): AsyncGenerator<TagSummary> {
+    return this.paginate<TagSummary>('/tags', opts);
+  }
+
+  async getTagValues(name: string, opts: ListOptions = {}): Promise<TagSummary[]> {
+    return collect(this.iterateTagValues(name, opts));
+  }
+
+  async listTagValues(name: string, opts: ListOptions = {}): Promise<ListResult<TagSummary>> {
+    return this.listPage<TagSummary>('/tags/values-for-name', opts, { name });
+  }
+
+  iterateTagValues(name: string, opts: ListOptions = {}): AsyncGenerator<TagSummary> {
+    return this.paginate<TagSummary>('/tags/values-for-name', opts, { name });
+  }
+
   // Search
-  async searchAll(query: string): Promise<SearchResult[]> {
-    const response = await this.client.get('/search', { params: { query } });
+  async searchAll(query: string, opts: ListOptions = {}): Promise<SearchResult[]> {
+    return collect(this.iterateSearch(query, opts));
+  }
+
+  // The search endpoint pages by page number; offsets are mapped onto it
+  async search(query: string, opts: ListOptions = {}): Promise<ListResult<SearchResult>> {
+    const count = Math.min(opts.count ?? MAX_SEARCH_COUNT, MAX_SEARCH_COUNT);
+    const offset = opts.offset ?? 0;
+    let page = Math.floor(offset / count) + 1;
+    let skip = offset % count;
+    const data: SearchResult[] = [];
+    let total = 0;
+    while (data.length < count) {
+      const res = await this.searchPage(query, page, count);
+      total = res.total;
+      data.push(...res.data.slice(skip, skip + count - data.length));
+      skip = 0;
+      if (res.data.length < count || page * count >= total) break;
+      page += 1;
+    }
+    return { data, total };
+  }
+
+  // Every result from opts.offset on; opts.count only sets the page size
+  async *iterateSearch(query: string, opts: ListOptions = {}): AsyncGenerator<SearchResult> {
+    const count = Math.min(opts.count ?? MAX_SEARCH_COUNT, MAX_SEARCH_COUNT);
+    const offset = opts.offset ?? 0;
+    let page = Math.floor(offset / count) + 1;
+    let skip = offset % count;
+    while (true) {
+      const res = await this.searchPage(query, page, count);
+      for (const item of res.data.slice(skip)) yield item;
+      skip = 0;
+      if (res.data.length < count || page * count >= res.total) break;
+      page += 1;
+    }
+  }
+
+  private async searchPage(query: string, page: number, count: number): Promise<ListResult<SearchResult>> {
+    const response = await this.client.get('/search', { params: { query, page, count } });
     const results = (response.data?.data || response.data || []) as any[];
-    return results.map((r) => ({
-      id: r.id,
-      name: r.name,
-      slug: r.slug,
-      type: r.type,
-      url: r.url,
-      book_id: r.book_id,
-      chapter_id: r.chapter_id,
-    }));
+    const total = typeof response.data?.total === 'number' ? response.data.total : results.length;
+    return {
+      data: results.map((r) => ({
+        id: r.id,
+        name: r.name,
+        slug: r.slug,
+        type: r.type,
+        url: r.url,
+        book_id: r.book_id,
+        chapter_id: r.chapter_id,
+      })),
+      total,
+    };
+  }
+
+  // Attachments
+  async getAttachments(opts: ListOptions = {}): Promise<Attachment[]> {
+    return collect(this.iterateAttachments(opts));
+  }
+
+  async listAttachments(opts: ListOptions = {}): Promise<ListResult<Attachment>> {
+    return this.listPage<Attachment>('/attachments', opts);
+  }
+
+  iterateAttachments(opts: ListOptions = {}): AsyncGenerator<Attachment> {
+    return this.paginate<Attachment>('/attachments', opts);
+  }
+
+  async getAttachment(id: number): Promise<Attachment> {
+    const response = await this.client.get(`/attachments/${id}`);
+    return response.data;
+  }
+
+  async createAttachment(input: AttachmentInput): Promise<Attachment> {
+    if (input.file) {
+      const form = buildForm({ name: input.name, uploaded_to: input.uploadedTo }, { field: 'file', ...input.file });
+      const response = await this.client.post('/attachments', form, MULTIPART);
+      return response.data;
+    }
+    const response = await this.client.post('/attachments', {
+      name: input.name,
+      uploaded_to: input.uploadedTo,
+      link: input.link,
+    });
+    return response.data;
+  }
+
+  async updateAttachment(id: number, input: AttachmentInput): Promise<Attachment> {
+    if (input.file) {
+      // PHP only parses multipart bodies on POST; BookStack accepts a method override
+      const form = buildForm(
+        { name: input.name, uploaded_to: input.uploadedTo, _method: 'PUT' },
+        { field: 'file', ...input.file },
+      );
+      const response = await this.client.post(`/attachments/${id}`, form, MULTIPART);
+      return response.data;
+    }
+    const data: Record<string, unknown> = {};
+    if (input.name != null) data.name = input.name;
+    if (input.uploadedTo != null) data.uploaded_to = input.uploadedTo;
+    if (input.link != null) data.link = input.link;
+    const response = await this.client.put(`/attachments/${id}`, data);
+    return response.data;
+  }
+
+  async deleteAttachment(id: number): Promise<void> {
+    await this.client.delete(`/attachments/${id}`);
   }
 
   // Images (Image Gallery)
-  async getImages(): Promise<ImageItem[]> {
-    const res = await this.client.get('/image-gallery');
-    const arr = (res.data?.data || res.data || []) as any[];
-    return arr.map((r) => ({
-      id: r.id,
-      name: r.name,
-      url: r.url,
-      type: r.type,
-      created_at: r.created_at,
-      updated_at: r.updated_at,
-      uploaded_to: r.uploaded_to,
-    }));
+  async getImages(opts: ListOptions = {}): Promise<ImageItem[]> {
+    return collect(this.iterateImages(opts));
+  }
+
+  async listImages(opts: ListOptions = {}): Promise<ListResult<ImageItem>> {
+    const res = await this.listPage<any>('/image-gallery', opts);
+    return { data: res.data.map(toImageItem), total: res.total };
+  }
+
+  async *iterateImages(opts: ListOptions = {}): AsyncGenerator<ImageItem> {
+    for await (const r of this.paginate<any>('/image-gallery', opts)) yield toImageItem(r);
   }
 
   async getImage(id: number): Promise<ImageItem> {
     const res = await this.client.get(`/image-gallery/${id}`);
-    const r = res.data;
-    return {
-      id: r.id,
-      name: r.name,
-      url: r.url,
-      type: r.type,
-      created_at: r.created_at,
-      updated_at: r.updated_at,
-      uploaded_to: r.uploaded_to,
-    };
+    return toImageItem(res.data);
+  }
+
+  async uploadImage(input: ImageInput & { file: { data: Uint8Array; filename: string } }): Promise<ImageItem> {
+    const form = buildForm(
+      { type: input.type || 'gallery', uploaded_to: input.uploadedTo, name: input.name },
+      { field: 'image', ...input.file },
+    );
+    const res = await this.client.post('/image-gallery', form, MULTIPART);
+    return toImageItem(res.data);
+  }
+
+  async updateImage(id: number, input: ImageInput): Promise<ImageItem> {
+    if (input.file) {
+      // Same method override as attachments: multipart bodies must be POSTed
+      const form = buildForm({ name: input.name, _method: 'PUT' }, { field: 'image', ...input.file });
+      const res = await this.client.post(`/image-gallery/${id}`, form, MULTIPART);
+      return toImageItem(res.data);
+    }
+    const data: Record<string, unknown> = {};
+    if (input.name != null) data.name = input.name;
+    const res = await this.client.put(`/image-gallery/${id}`, data);
+    return toImageItem(res.data);
+  }
+
+  async deleteImage(id: number): Promise<void> {
+    await this.client.delete(`/image-gallery/${id}`);
   }
+
+  // Fetch a file by URL or by path on the instance (e.g. an image url). The API token is only
+  // sent to the instance's own origin; files elsewhere are fetched without it.
+  async download(url: string): Promise<Uint8Array> {
+    const href = /^([a-z][a-z0-9+.-]*:)?\/\//i.test(url)
+      ? new URL(url, this.webBase()).href
+      : `${this.webBase()}${url.startsWith('/') ? '' : '/'}${url}`;
+    const http = new URL(href).origin === new URL(this.webBase()).origin ? this.client : this.anonymous;
+    const res = await http.get(href, { responseType: 'arraybuffer' });
+    return new Uint8Array(res.data as ArrayBuffer);
+  }
+}
+
+const MULTIPART = { headers: { 'Content-Type': 'multipart/form-data' } };
+
+function buildForm(
+  fields: Record<string, string | number | undefined>,
+  file?: { field: string; data: Uint8Array; filename: string },
+): FormData {
+  const form = new FormData();
+  for (const [key, value] of Object.entries(fields)) {
+    if (value != null) form.append(key, String(value));
+  }
+  if (file) form.append(file.field, new Blob([file.data]), file.filename);
+  return form;
+}
+
+function toImageItem(r: any): ImageItem {
+  return {
+    id: r.id,
+    name: r.name,
+    url: r.url,
+    path: r.path,
+    type: r.type,
+    created_at: r.created_at,
+    updated_at: r.updated_at,
+    uploaded_to: r.uploaded_to,
+  };
+}
+
+export async function collect<T>(iter: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const item of iter) out.push(item);
+  return out;
 }
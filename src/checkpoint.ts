@@ -0,0 +1,80 @@
+// Append-only journal of finished items, so an interrupted import or export can resume
+import * as fs from 'fs-extra';
+
+export const JOURNAL_FILE = '.bookstack-journal';
+export const JOURNAL_VERSION = 1;
+
+export interface JournalHeader {
+  version: number;
+  kind: 'import' | 'export';
+  target: string; // what the run writes to, e.g. "book:12"; another target's journal is not resumed
+}
+
+export interface JournalEntry {
+  key: string;
+}
+
+// The first line is the header, every further line one finished item
+export class Checkpoint<T extends JournalEntry = JournalEntry> {
+  private done = new Map<string, T>();
+  private header: JournalHeader;
+
+  constructor(readonly file: string, header: Omit<JournalHeader, 'version'>) {
+    this.header = { version: JOURNAL_VERSION, ...header };
+  }
+
+  get size(): number {
+    return this.done.size;
+  }
+
+  get(key: string): T | undefined {
+    return this.done.get(key);
+  }
+
+  has(key: string): boolean {
+    return this.done.has(key);
+  }
+
+  // Starts this run's journal. With resume, items an earlier run finished against the same
+  // target are carried over; otherwise an earlier journal is replaced. Returns the carried count.
+  async open(resume: boolean): Promise<number> {
+    if (resume) await this.load();
+    else if (await fs.pathExists(this.file)) {
+      console.warn(`Warning: replacing the journal of an interrupted run in ${this.file} (use --resume to continue it)`);
+    }
+    const lines = [this.header, ...this.done.values()].map((line) => JSON.stringify(line));
+    await fs.writeFile(this.file, lines.join('\n') + '\n');
+    return this.done.size;
+  }
+
+  // Written synchronously so the line is on disk before the next item starts,
+  // even if the process is killed right after
+  record(entry: T): void {
+    fs.appendFileSync(this.file, JSON.stringify(entry) + '\n');
+    this.done.set(entry.key, entry);
+  }
+
+  // A completed run leaves nothing to resume
+  async finish(): Promise<void> {
+    await fs.remove(this.file);
+  }
+
+  private async load(): Promise<void> {
+    if (!(await fs.pathExists(this.file))) return;
+    const [first, ...lines] = (await fs.readFile(this.file, 'utf8')).split('\n');
+    let header: Partial<JournalHeader> | undefined;
+    try { header = JSON.parse(first); } catch {}
+    if (header?.version !== JOURNAL_VERSION || header.kind !== this.header.kind || header.target !== this.header.target) {
+      console.warn(`Warning: ignoring ${this.file}: it belongs to a different ${this.header.kind}`);
+      return;
+    }
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      // The last line may have been cut short when the run died
+      try {
+        const entry = JSON.parse(line) as T;
+        if (typeof entry?.key === 'string') this.done.set(entry.key, entry);
+      } catch {}
+    }
+  }
+}
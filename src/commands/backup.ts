@@ -0,0 +1,480 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { BookStackClient, ImageItem, Tag } from '../bookstack-client';
+import { cleanTags } from '../tags';
+import { imagePathOf } from '../images';
+import { findAssetRefs, replaceAssetLinks } from '../assets';
+import { archiveBaseName, isArchivePath, readArchive, TarWriter } from '../archive';
+import { diskFs, MemoryFs, SourceFs } from '../source-fs';
+import { confirm, createProgressBar, c, formatBytes, icons } from '../ui';
+
+// Whole-instance backups: backup.json describes every entity and points at the files
+// holding page bodies, images and attachments, all relative to the backup root
+export const BACKUP_VERSION = 1;
+export const BACKUP_MANIFEST = 'backup.json';
+
+export interface BackupShelf {
+  id: number;
+  name: string;
+  description?: string;
+  tags?: Tag[];
+  books: number[]; // book IDs, in display order
+}
+
+export interface BackupBook {
+  id: number;
+  name: string;
+  slug?: string; // for links between pages; missing in older backups
+  description?: string;
+  tags?: Tag[];
+}
+
+export interface BackupChapter {
+  id: number;
+  book_id: number;
+  name: string;
+  slug?: string;
+  description?: string;
+  priority: number;
+  tags?: Tag[];
+}
+
+export interface BackupPage {
+  id: number;
+  book_id: number;
+  chapter_id?: number;
+  name: string;
+  slug?: string;
+  priority: number;
+  template?: boolean;
+  tags?: Tag[];
+  htmlFile: string;
+  markdownFile?: string; // only for pages written in the markdown editor
+}
+
+export interface BackupImage {
+  id: number;
+  name: string;
+  type: 'gallery' | 'drawio';
+  uploaded_to: number; // page ID
+  path: string; // e.g. /uploads/images/gallery/2024-01/diagram.png, as page bodies link to it
+  file: string;
+}
+
+export interface BackupAttachment {
+  id: number;
+  name: string;
+  extension?: string;
+  uploaded_to: number; // page ID
+  link?: string; // link attachments have no file
+  file?: string;
+}
+
+export interface Backup {
+  version: number;
+  createdAt: string;
+  source: string; // instance URL, to recognize its links in page bodies
+  shelves: BackupShelf[];
+  books: BackupBook[];
+  chapters: BackupChapter[];
+  pages: BackupPage[];
+  images: BackupImage[];
+  attachments: BackupAttachment[];
+}
+
+// Old ID → new ID for everything a restore created, per entity type
+export interface IdMap {
+  shelves: Record<number, number>;
+  books: Record<number, number>;
+  chapters: Record<number, number>;
+  pages: Record<number, number>;
+  images: Record<number, number>;
+  attachments: Record<number, number>;
+}
+
+export interface RestoreOptions {
+  dryRun?: boolean;
+  yes?: boolean; // restore into an instance that already has books without asking
+  map?: string; // where to write the ID map (default: DEFAULT_ID_MAP)
+}
+
+export const DEFAULT_ID_MAP = 'bookstack-id-map.json';
+
+// Absolute or root-relative links to pages, chapters and books: /link/<page id>,
+// /books/<slug>, /books/<slug>/page/<slug> and /books/<slug>/chapter/<slug>
+const ENTITY_LINK_RE = /(?:https?:\/\/[^\s"'()<>]*?)?\/(?:link\/(\d+)|books\/([\w-]+)(?:\/(page|chapter)\/([\w-]+))?)(?![\w/-])/g;
+
+// Where backup files go: straight into a directory, or streamed into one tar archive
+interface BackupSink {
+  write(rel: string, data: string | Uint8Array): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>; // after a failure; an unfinished archive is removed
+}
+
+async function openSink(target: string): Promise<BackupSink> {
+  if (isArchivePath(target)) {
+    const lower = target.toLowerCase();
+    if (lower.endsWith('.zip')) throw new Error('Backups are written as a directory, .tar or .tar.gz archive');
+    await fs.ensureDir(path.dirname(path.resolve(target)));
+    const tar = new TarWriter(target, !lower.endsWith('.tar'));
+    return {
+      async write(rel, data) { await tar.add(rel, Buffer.from(data)); },
+      async close() { await tar.close(); },
+      async abort() { await tar.abort(); },
+    };
+  }
+  if ((await fs.pathExists(target)) && (await fs.readdir(target)).length) {
+    throw new Error(`Backup directory is not empty: ${target}`);
+  }
+  return {
+    async write(rel, data) { await fs.outputFile(path.join(target, rel), data); },
+    async close() {},
+    async abort() {},
+  };
+}
+
+// Keeps the file name readable while the ID keeps it unique
+function entryName(id: number, name: string): string {
+  return `${id}-${name.replace(/[^a-zA-Z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'file'}`;
+}
+
+export class BackupCommand {
+  private bytes = 0;
+
+  constructor(private client: BookStackClient) {}
+
+  async execute(target: string): Promise<Backup> {
+    const sink = await openSink(target);
+    try {
+      return await this.backUp(target, sink);
+    } catch (error) {
+      await sink.abort();
+      throw error;
+    }
+  }
+
+  private async backUp(target: string, sink: BackupSink): Promise<Backup> {
+    const write = async (rel: string, data: string | Uint8Array) => {
+      this.bytes += typeof data === 'string' ? Buffer.byteLength(data) : data.length;
+      await sink.write(rel, data);
+    };
+    console.log(`${icons.info} Backing up ${c.bold(this.client.webBase())} to ${c.bold(target)}`);
+    const backup: Backup = {
+      version: BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      source: this.client.webBase(),
+      shelves: [],
+      books: [],
+      chapters: [],
+      pages: [],
+      images: [],
+      attachments: [],
+    };
+
+    for await (const shelf of this.client.iterateShelves()) {
+      const full = await this.client.getShelf(shelf.id);
+      backup.shelves.push({
+        id: full.id,
+        name: full.name,
+        description: full.description || undefined,
+        tags: cleanTags(full.tags),
+        books: (full.books || []).map((b) => b.id),
+      });
+    }
+
+    // Book contents give chapter and page order; pages are read one by one for their bodies
+    const pageIds: number[] = [];
+    for await (const book of this.client.iterateBooks()) {
+      const full = await this.client.getBook(book.id);
+      backup.books.push({ id: full.id, name: full.name, slug: full.slug, description: full.description || undefined, tags: cleanTags(full.tags) });
+      for (const item of full.contents || []) {
+        if (item.type === 'page') pageIds.push(item.id);
+        if (item.type !== 'chapter') continue;
+        const chapter = await this.client.getChapter(item.id);
+        backup.chapters.push({
+          id: chapter.id,
+          book_id: full.id,
+          name: chapter.name,
+          slug: chapter.slug,
+          description: chapter.description || undefined,
+          priority: chapter.priority,
+          tags: cleanTags(chapter.tags),
+        });
+        for (const p of item.pages || []) pageIds.push(p.id);
+      }
+    }
+    console.log(`${icons.success} Read ${backup.shelves.length} shelves, ${backup.books.length} books and ${backup.chapters.length} chapters`);
+
+    const pageBar = createProgressBar(pageIds.length, 'Pages');
+    for (const id of pageIds) {
+      const page = await this.client.getPage(id);
+      const entry: BackupPage = {
+        id: page.id,
+        book_id: page.book_id,
+        chapter_id: page.chapter_id || undefined,
+        name: page.name,
+        slug: page.slug,
+        priority: page.priority,
+        template: page.template || undefined,
+        tags: cleanTags(page.tags),
+        htmlFile: `pages/${page.id}.html`,
+      };
+      await write(entry.htmlFile, page.html || '');
+      if (page.markdown) {
+        entry.markdownFile = `pages/${page.id}.md`;
+        await write(entry.markdownFile, page.markdown);
+      }
+      backup.pages.push(entry);
+      pageBar.tick();
+    }
+    pageBar.stop();
+
+    const images = await this.client.getImages();
+    const imageBar = createProgressBar(images.length, 'Images');
+    for (const img of images) {
+      const imagePath = imagePathOf(img);
+      if (!imagePath || !img.uploaded_to) {
+        imageBar.log(`  ${icons.warning} Skipped image ${img.id} (${img.name}): no file or page to restore it to`);
+      } else {
+        const file = `images/${entryName(img.id, path.posix.basename(imagePath))}`;
+        await write(file, await this.client.download(img.url || imagePath));
+        backup.images.push({ id: img.id, name: img.name, type: img.type === 'drawio' ? 'drawio' : 'gallery', uploaded_to: img.uploaded_to, path: imagePath, file });
+      }
+      imageBar.tick();
+    }
+    imageBar.stop();
+
+    const attachments = await this.client.getAttachments();
+    const attachmentBar = createProgressBar(attachments.length, 'Attachments');
+    for (const { id } of attachments) {
+      const att = await this.client.getAttachment(id);
+      const entry: BackupAttachment = { id: att.id, name: att.name, extension: att.extension || undefined, uploaded_to: att.uploaded_to };
+      if (att.external) {
+        entry.link = att.content || '';
+      } else {
+        entry.file = `attachments/${entryName(att.id, att.name)}`;
+        await write(entry.file, Buffer.from(att.content || '', 'base64'));
+      }
+      backup.attachments.push(entry);
+      attachmentBar.tick();
+    }
+    attachmentBar.stop();
+
+    await write(BACKUP_MANIFEST, JSON.stringify(backup, null, 2) + '\n');
+    await sink.close();
+    console.log(`${icons.success} ${c.green('Backup completed!')} ${c.gray(`(${formatBytes(this.bytes)})`)}`);
+    console.log(`  ${summarize(backup)}`);
+    return backup;
+  }
+}
+
+export class RestoreCommand {
+  readonly map: IdMap = { shelves: {}, books: {}, chapters: {}, pages: {}, images: {}, attachments: {} };
+  // New slugs by old book slug, and by "<old book slug>/<old slug>" for chapters and pages
+  private slugs = { books: new Map<string, string>(), chapters: new Map<string, string>(), pages: new Map<string, string>() };
+
+  constructor(private client: BookStackClient) {}
+
+  async execute(source: string, options: RestoreOptions = {}): Promise<void> {
+    const { src, root } = await openBackup(source);
+    const backup = parseBackup(JSON.parse(await src.readText(path.join(root, BACKUP_MANIFEST))));
+    const read = (rel: string) => src.readFile(path.join(root, rel));
+    console.log(`${icons.info} Restoring backup of ${c.bold(backup.source)} from ${backup.createdAt}`);
+    console.log(`  ${summarize(backup)}`);
+
+    if (options.dryRun) {
+      console.log(`${icons.dry} ${c.dim(`Dry run: nothing was created on ${this.client.webBase()}.`)}`);
+      return;
+    }
+
+    const existing = await this.client.listBooks({ count: 1 });
+    if (existing.total && !options.yes && !(await confirm(`The instance already has ${existing.total} books. Restore alongside them?`))) {
+      console.log(`${icons.info} Restore cancelled; nothing was created. Use --yes to skip the prompt.`);
+      return;
+    }
+
+    try {
+      await this.restore(backup, read);
+    } finally {
+      // Written even when the restore stops part-way, so what was created can be found again
+      const mapFile = options.map || DEFAULT_ID_MAP;
+      await fs.outputFile(mapFile, JSON.stringify({ source: backup.source, target: this.client.webBase(), ...this.map }, null, 2) + '\n');
+      console.log(`${icons.info} ID map written to ${c.bold(mapFile)}`);
+    }
+    console.log(`${icons.success} ${c.green('Restore completed!')}`);
+  }
+
+  private async restore(backup: Backup, read: (rel: string) => Promise<Buffer>): Promise<void> {
+    for (const book of backup.books) {
+      const created = await this.client.createBook({ name: book.name, description: book.description || '', tags: book.tags });
+      this.map.books[book.id] = created.id;
+      if (book.slug && created.slug) this.slugs.books.set(book.slug, created.slug);
+    }
+    const bookSlugs = new Map(backup.books.map((b) => [b.id, b.slug]));
+    console.log(`${icons.success} Created ${backup.books.length} books`);
+
+    for (const ch of backup.chapters) {
+      const created = await this.client.createChapter(this.map.books[ch.book_id], {
+        name: ch.name,
+        description: ch.description || '',
+        priority: ch.priority,
+        tags: ch.tags,
+      });
+      this.map.chapters[ch.id] = created.id;
+      const bookSlug = bookSlugs.get(ch.book_id);
+      if (bookSlug && ch.slug && created.slug) this.slugs.chapters.set(`${bookSlug}/${ch.slug}`, created.slug);
+    }
+    console.log(`${icons.success} Created ${backup.chapters.length} chapters`);
+
+    // Bodies still link to the old instance's pages, images and attachments until the pass below
+    const bodies = new Map<number, { markdown?: string; html: string }>();
+    const pageBar = createProgressBar(backup.pages.length, 'Pages');
+    for (const p of backup.pages) {
+      const body = {
+        html: (await read(p.htmlFile)).toString('utf8'),
+        markdown: p.markdownFile ? (await read(p.markdownFile)).toString('utf8') : undefined,
+      };
+      const created = await this.client.createPage({
+        book_id: this.map.books[p.book_id],
+        chapter_id: p.chapter_id ? this.map.chapters[p.chapter_id] : undefined,
+        name: p.name,
+        priority: p.priority,
+        template: p.template,
+        tags: p.tags,
+        ...(body.markdown !== undefined ? { markdown: body.markdown } : { html: body.html }),
+      });
+      this.map.pages[p.id] = created.id;
+      const bookSlug = bookSlugs.get(p.book_id);
+      if (bookSlug && p.slug && created.slug) this.slugs.pages.set(`${bookSlug}/${p.slug}`, created.slug);
+      bodies.set(created.id, body);
+      pageBar.tick();
+    }
+    pageBar.stop();
+    console.log(`${icons.success} Created ${backup.pages.length} pages`);
+
+    const imageUrls = new Map<string, string>(); // old instance path → new URL
+    const imageBar = createProgressBar(backup.images.length, 'Images');
+    for (const img of backup.images) {
+      const pageId = this.map.pages[img.uploaded_to];
+      if (!pageId) {
+        imageBar.log(`  ${icons.warning} Skipped image ${img.id} (${img.name}): its page is not in the backup`);
+      } else {
+        const created: ImageItem = await this.client.uploadImage({
+          type: img.type,
+          name: img.name,
+          uploadedTo: pageId,
+          file: { data: await read(img.file), filename: path.posix.basename(img.path) },
+        });
+        this.map.images[img.id] = created.id;
+        if (created.url) imageUrls.set(img.path, created.url);
+      }
+      imageBar.tick();
+    }
+    imageBar.stop();
+
+    for (const att of backup.attachments) {
+      const pageId = this.map.pages[att.uploaded_to];
+      if (!pageId) {
+        console.log(`  ${icons.warning} Skipped attachment ${att.id} (${att.name}): its page is not in the backup`);
+        continue;
+      }
+      const created = await this.client.createAttachment(att.file
+        ? { name: att.name, uploadedTo: pageId, file: { data: await read(att.file), filename: path.posix.basename(att.file) } }
+        : { name: att.name, uploadedTo: pageId, link: att.link || '' });
+      this.map.attachments[att.id] = created.id;
+    }
+    console.log(`${icons.success} Uploaded ${Object.keys(this.map.images).length} images and ${Object.keys(this.map.attachments).length} attachments`);
+
+    // Point bodies at the new pages and uploads; pages without such links are left as created
+    let relinked = 0;
+    for (const [pageId, body] of bodies) {
+      const text = body.markdown ?? body.html;
+      const updated = this.relink(text, backup.source, imageUrls);
+      if (updated === text) continue;
+      await this.client.updatePage(pageId, body.markdown !== undefined ? { markdown: updated } : { html: updated });
+      relinked++;
+    }
+    if (relinked) console.log(`${icons.success} Updated links in ${relinked} pages`);
+
+    for (const shelf of backup.shelves) {
+      const created = await this.client.createShelf({
+        name: shelf.name,
+        description: shelf.description || '',
+        tags: shelf.tags,
+        books: shelf.books.map((id) => this.map.books[id]).filter((id) => id !== undefined),
+      });
+      this.map.shelves[shelf.id] = created.id;
+    }
+    console.log(`${icons.success} Created ${backup.shelves.length} shelves`);
+  }
+
+  private relink(text: string, oldBase: string, imageUrls: Map<string, string>): string {
+    const hrefs = new Map<string, string>();
+    for (const ref of findAssetRefs(text, oldBase)) {
+      const target = ref.image
+        ? imageUrls.get(ref.image)
+        : this.map.attachments[ref.attachmentId!] && `${this.client.webBase()}/attachments/${this.map.attachments[ref.attachmentId!]}`;
+      if (target) hrefs.set(ref.link, target);
+    }
+    // Drawings keep their image ID in the page too
+    const relinked = replaceAssetLinks(text, hrefs).replace(/(drawio-diagram=["']?)(\d+)/g, (whole, attr: string, id: string) => {
+      const mapped = this.map.images[parseInt(id, 10)];
+      return mapped ? `${attr}${mapped}` : whole;
+    });
+    return this.relinkEntities(relinked, oldBase);
+  }
+
+  // Links between pages, chapters and books use IDs and slugs, which the new instance gave out
+  // afresh. Links to items outside the backup are left alone.
+  private relinkEntities(text: string, oldBase: string): string {
+    const base = oldBase.replace(/\/+$/, '');
+    return text.replace(ENTITY_LINK_RE, (link: string, pageId?: string, book?: string, kind?: string, item?: string) => {
+      if (!link.startsWith('/') && !link.startsWith(`${base}/`)) return link;
+      const root = link.startsWith('/') ? '' : this.client.webBase();
+      if (pageId) {
+        const mapped = this.map.pages[parseInt(pageId, 10)];
+        return mapped ? `${root}/link/${mapped}` : link;
+      }
+      const newBook = this.slugs.books.get(book!);
+      if (!newBook) return link;
+      if (!kind) return `${root}/books/${newBook}`;
+      const newItem = (kind === 'page' ? this.slugs.pages : this.slugs.chapters).get(`${book}/${item}`);
+      return newItem ? `${root}/books/${newBook}/${kind}/${newItem}` : link;
+    });
+  }
+}
+
+// A backup directory, or an archive of one; archives that wrap it in a single folder work too
+async function openBackup(source: string): Promise<{ src: SourceFs; root: string }> {
+  const sourcePath = path.resolve(source);
+  if (!(await fs.pathExists(sourcePath))) throw new Error(`Backup not found: ${sourcePath}`);
+  if (!isArchivePath(source)) return { src: diskFs, root: sourcePath };
+  const src = new MemoryFs(path.resolve(archiveBaseName(source)), readArchive(await fs.readFile(sourcePath)));
+  let root = src.root;
+  const top = await src.readdir(root);
+  if (!top.includes(BACKUP_MANIFEST) && top.length === 1) root = path.join(root, top[0]);
+  return { src, root };
+}
+
+export function parseBackup(data: any): Backup {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) throw new Error(`${BACKUP_MANIFEST} must be an object`);
+  if (data.version !== BACKUP_VERSION) {
+    throw new Error(`unsupported backup version ${JSON.stringify(data.version)} (expected ${BACKUP_VERSION})`);
+  }
+  for (const key of ['shelves', 'books', 'chapters', 'pages', 'images', 'attachments']) {
+    if (!Array.isArray(data[key])) throw new Error(`${BACKUP_MANIFEST}: ${key} must be an array`);
+  }
+  return data as Backup;
+}
+
+function summarize(backup: Backup): string {
+  const counts: [number, string][] = [
+    [backup.shelves.length, 'shelves'],
+    [backup.books.length, 'books'],
+    [backup.chapters.length, 'chapters'],
+    [backup.pages.length, 'pages'],
+    [backup.images.length, 'images'],
+    [backup.attachments.length, 'attachments'],
+  ];
+  return counts.map(([n, label]) => `${n} ${label}`).join(', ');
+}
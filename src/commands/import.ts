@@ -1,7 +1,22 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { BookStackClient, Book, Chapter, Page } from '../bookstack-client';
-import { createSpinner, createProgressBar, c, icons } from '../ui';
+import { createHash } from 'crypto';
+import { BookStackClient, Book, Chapter, Page, Tag } from '../bookstack-client';
+import { normalizeTags } from '../tags';
+import { mergePageMetadata, MetadataPrecedence, PageMetadata, parseFrontMatter, splitFrontMatter } from '../front-matter';
+import { renderMarkdown } from '../markdown';
+import { findLocalImageRefs, hashedImageName, rewriteImageRefs } from '../images';
+import { bookstackAnchor, findDocumentLinks, rewriteDocumentLinks, splitFragment } from '../links';
+import { contentHash, pageUnchanged, sameTags } from '../page-hash';
+import { BookJson, BookJsonPage, parseBookJson } from '../book-json';
+import { archiveBaseName, isArchivePath, isWithin, readArchive } from '../archive';
+import { diskFs, MemoryFs, SourceFs } from '../source-fs';
+import { SourceFilter } from '../ignore';
+import { DEFAULT_CONCURRENCY, TaskPool } from '../pool';
+import { Checkpoint, JOURNAL_FILE, JournalEntry } from '../checkpoint';
+import { describeError, failureTable, ReportItem, ReportStatus, RunReport } from '../report';
+import { emptyState, ImportState, loadState, PageState, saveState, stateKey } from '../import-state';
+import { confirm, createSpinner, createProgressBar, c, icons } from '../ui';
 
 export interface ImportOptions {
   book?: string;
@@ -10,8 +25,59 @@ export interface ImportOptions {
   maxDepth?: number; // max recursion within subdirectories (default: 10)
   chapterFrom?: 'dir' | 'readme'; // naming source if no metadata
   flatten?: boolean; // import all files into book directly
+  metadataPrecedence?: MetadataPrecedence; // which wins when front matter and .page-metadata.json disagree
+  uploadImages?: boolean; // upload locally referenced images to the gallery (default: true)
+  sync?: boolean; // remove remote pages and chapters that no longer exist locally
+  archiveOrphans?: boolean | string; // with sync: move orphans into this holding chapter instead of deleting
+  yes?: boolean; // skip the sync confirmation prompt
+  include?: string[]; // only import files matching one of these globs
+  exclude?: string[]; // skip files and folders matching these globs (added to .bookstackignore rules)
+  state?: boolean; // read and write .bookstack-state.json in directory sources (default: true)
+  concurrency?: number; // pages written in parallel (default: 1)
+  resume?: boolean; // skip pages an interrupted run already finished, per its journal
+  report?: string; // write a JSON report of every book, chapter and page to this file
+  json?: boolean; // print that report to stdout
+  continueOnError?: boolean; // record failed pages and chapters and keep going
 }
 
+export const DEFAULT_ARCHIVE_CHAPTER = 'Archived';
+
+// Page body as read from disk, kept so references can be rewritten after the page exists
+interface PageSource {
+  filePath: string;
+  content: string;
+  fmt: string;
+  order?: number; // position in the directory walk, independent of which write finishes first
+  startedAt?: number; // when work on the page began, for the report
+  elapsedMs?: number; // time spent before the link pass, for pages settled there
+  unsaved?: boolean; // content gained gallery URLs after the page was created; saved in the link pass
+}
+
+// A page whose relative document links are rewritten once every page exists
+interface LinkedPage {
+  page?: Page; // undefined in dry-run mode
+  pageData: Partial<Page>;
+  source: PageSource;
+  pending?: boolean; // existing page not written yet; compared against the remote after the rewrite
+}
+
+// 'pending' pages are existing pages with document links, settled in the link pass
+type PageAction = 'created' | 'updated' | 'unchanged' | 'pending';
+
+// A finished page in the resume journal, keyed by its source file relative to the import root
+interface ImportJournalEntry extends JournalEntry {
+  id: number;
+  slug: string;
+  chapterId?: number;
+  hash: string;
+}
+
+const ACTION_LABELS: Record<Exclude<PageAction, 'pending'>, string> = {
+  created: 'Created',
+  updated: 'Updated',
+  unchanged: 'Unchanged',
+};
+
 interface ProgressBar {
   tick(n?: number): void;
   update(n: number): void;
@@ -22,47 +88,284 @@ interface ProgressBar {
 export class ImportCommand {
   constructor(private client: BookStackClient) {}
 
-  // Cache of existing pages per book to avoid repeated API calls
-  private bookPagesCache: Map<number, Page[]> = new Map();
+  // Cache of existing pages per book to avoid repeated API calls. The pending request is
+  // cached, so parallel page writes share one fetch.
+  private bookPagesCache: Map<number, Promise<Page[]>> = new Map();
 
-  private async getBookPages(bookId: number): Promise<Page[]> {
-    if (!this.bookPagesCache.has(bookId)) {
-      this.bookPagesCache.set(bookId, await this.client.getPages(bookId));
+  private getBookPages(bookId: number): Promise<Page[]> {
+    let pages = this.bookPagesCache.get(bookId);
+    if (!pages) {
+      pages = this.client.getPages(bookId);
+      this.bookPagesCache.set(bookId, pages);
+      const cached = pages;
+      cached.catch(() => {
+        if (this.bookPagesCache.get(bookId) === cached) this.bookPagesCache.delete(bookId);
+      });
     }
-    return this.bookPagesCache.get(bookId)!;
+    return pages;
   }
 
   private invalidateBookPagesCache(bookId: number): void {
     this.bookPagesCache.delete(bookId);
   }
 
+  // Gallery URL per image content hash, shared by every page in this import;
+  // undefined while the image is not in the gallery yet
+  private galleryUrls: Map<string, Promise<string | undefined>> = new Map();
+
+  private options: ImportOptions = {};
+
+  // Where source files are read from: the disk, or an archive held in memory
+  private src: SourceFs = diskFs;
+  // .bookstackignore plus --include/--exclude; set for directory and archive imports
+  private filter?: SourceFilter;
+
+  // Page writes run through the pool; chapters are created between drains so their order is fixed
+  private pool = new TaskPool();
+  private nextOrder = 0;
+
+  // Absolute source path (page file, page folder or chapter folder) -> BookStack URL
+  private linkTargets: Map<string, string> = new Map();
+  private linkedPages: LinkedPage[] = [];
+  private unresolvedLinks: { file: string; link: string }[] = [];
+
+  // With --sync: the existing book being mirrored and everything the import touched in it
+  private syncBook?: Book;
+  private seenPages: Set<number> = new Set();
+  private seenChapters: Set<number> = new Set();
+
+  // Manifest of the previous directory import and the one this run writes
+  private root?: string;
+  private prevState: ImportState = emptyState();
+  private nextState: ImportState = emptyState();
+
+  // Resume journal for directory and archive imports; absent in dry runs
+  private journalFile?: string;
+  private journal?: Checkpoint<ImportJournalEntry>;
+
+  // Report paths are relative to the directory or archive root being imported
+  private sourceRoot?: string;
+  private targetBook?: Book;
+  private report = new RunReport('import');
+
+  private stats = { created: 0, updated: 0, unchanged: 0, skipped: 0, resumed: 0 };
+
+  private record(action: PageAction): void {
+    if (action !== 'pending') this.stats[action]++;
+  }
+
+  // Sync previews still need to know which remote pages the import would keep
+  private async previewPage(bookId: number, chapterId: number | undefined, pageName: string, pageData: Partial<Page>, source?: PageSource): Promise<void> {
+    if (!this.syncBook) return;
+    const match = (source && await this.pageFromState(bookId, source.filePath, contentHash(pageData)))
+      || (await this.findExistingPage(bookId, chapterId, pageName));
+    if (match) this.seenPages.add(match.id);
+  }
+
+  private async pageFromState(bookId: number, filePath: string, hash: string): Promise<Page | undefined> {
+    if (!this.root) return undefined;
+    const key = stateKey(this.root, filePath);
+    let entry: PageState | undefined = this.prevState.pages[key];
+    if (entry && !this.claimEntry(entry.id)) entry = undefined;
+    else if (!entry) {
+      // A file that was moved or renamed keeps its page as long as its content is unchanged
+      for (const [oldKey, old] of Object.entries(this.prevState.pages)) {
+        if (old.hash !== hash || this.isClaimed(old.id)) continue;
+        if (await this.src.pathExists(path.join(this.root, oldKey))) continue;
+        // Another file may have taken the entry while this one waited for the check
+        if (this.claimEntry(old.id)) {
+          entry = old;
+          break;
+        }
+      }
+    }
+    if (!entry) return undefined;
+    return (await this.getBookPages(bookId)).find((p) => p.id === entry.id);
+  }
+
+  // Manifest entries go to one file each. Claims are checked and recorded without an await in
+  // between, so parallel page writes cannot both take an entry.
+  private claimedEntries: Set<number> = new Set();
+
+  private isClaimed(pageId: number): boolean {
+    return this.claimedEntries.has(pageId) || this.seenPages.has(pageId);
+  }
+
+  private claimEntry(pageId: number): boolean {
+    if (this.isClaimed(pageId)) return false;
+    this.claimedEntries.add(pageId);
+    return true;
+  }
+
+  private rememberPage(filePath: string, page: Page, pageData: Partial<Page>): void {
+    if (!this.root) return;
+    this.nextState.pages[stateKey(this.root, filePath)] = {
+      id: page.id,
+      chapterId: pageData.chapter_id ?? undefined,
+      hash: contentHash(pageData),
+    };
+  }
+
   private async getOrCreatePage(
     bookId: number,
     chapterId: number | undefined,
     pageName: string,
     pageData: Partial<Page>,
-    dryRun: boolean,
-  ): Promise<Page> {
-    if (dryRun) {
-      return { id: 0, name: pageName, slug: '', book_id: bookId, priority: 0, created_at: '', updated_at: '' } as Page;
+    source?: PageSource,
+  ): Promise<{ page: Page; action: PageAction }> {
+    const result = await this.writePage(bookId, chapterId, pageName, pageData, source);
+    if (source) this.rememberPage(source.filePath, result.page, pageData);
+    return result;
+  }
+
+  private async writePage(
+    bookId: number,
+    chapterId: number | undefined,
+    pageName: string,
+    pageData: Partial<Page>,
+    source?: PageSource,
+  ): Promise<{ page: Page; action: PageAction }> {
+    // The manifest entry wins over a name match, so retitled pages keep their ID
+    const known = source ? await this.pageFromState(bookId, source.filePath, contentHash(pageData)) : undefined;
+    let match = known || await this.findExistingPage(bookId, chapterId, pageName);
+    if (match) {
+      this.seenPages.add(match.id);
+      // The file moved to another chapter directory (or out of one) since the last import
+      if (known && (known.chapter_id || undefined) !== chapterId) {
+        match = await this.client.movePage(match.id, chapterId ? { chapterId } : { bookId });
+        this.invalidateBookPagesCache(bookId);
+      }
+      const data = await this.withGalleryImages(match.id, pageData, source);
+      // The final content depends on other pages' URLs, so the comparison waits for the link pass
+      if (source && findDocumentLinks(source.content, source.fmt).length) return { page: match, action: 'pending' };
+      return this.updateIfChanged(match.id, bookId, data);
     }
+    const created = await this.createPageWithImages(pageData, source);
+    this.seenPages.add(created.id);
+    this.invalidateBookPagesCache(bookId);
+    return { page: created, action: 'created' };
+  }
+
+  // Skips the write when the remote page already has this content, name and metadata
+  private async updateIfChanged(pageId: number, bookId: number, data: Partial<Page>): Promise<{ page: Page; action: 'updated' | 'unchanged' }> {
+    const remote = await this.client.getPage(pageId);
+    if (pageUnchanged(remote, data)) return { page: remote, action: 'unchanged' };
+    const updated = await this.client.updatePage(pageId, data);
+    this.invalidateBookPagesCache(bookId);
+    return { page: updated, action: 'updated' };
+  }
+
+  private async findExistingPage(bookId: number, chapterId: number | undefined, pageName: string): Promise<Page | undefined> {
     const existingPages = await this.getBookPages(bookId);
-    const match = existingPages.find(
+    return existingPages.find(
       (p) =>
         p.name.toLowerCase() === pageName.toLowerCase() &&
         (chapterId === undefined || p.chapter_id === chapterId),
     );
-    if (match) {
-      const updated = await this.client.updatePage(match.id, pageData);
-      this.invalidateBookPagesCache(bookId);
-      return updated;
+  }
+
+  // Images already in the gallery are linked before the page is created. Uploads need a page,
+  // so new images are added afterwards; pages with document links save them in the link pass.
+  private async createPageWithImages(pageData: Partial<Page>, source?: PageSource): Promise<Page> {
+    const known = await this.withGalleryImages(undefined, pageData, source);
+    // BookStack appends new pages in the order it receives them, which is arbitrary with
+    // parallel writes, so pages without a priority get their position in the walk instead
+    const createData = this.pool.limit > 1 && known.priority === undefined && source?.order !== undefined
+      ? { ...known, priority: source.order + 1 }
+      : known;
+    const created = await this.client.createPage(createData);
+    const data = await this.withGalleryImages(created.id, known, source);
+    if (data === known) return created;
+    if (source && findDocumentLinks(source.content, source.fmt).length) {
+      source.unsaved = true;
+      return created;
     }
-    const created = await this.client.createPage(pageData);
-    this.invalidateBookPagesCache(bookId);
-    return created;
+    return this.client.updatePage(created.id, data);
+  }
+
+  // Returns pageData pointing at the gallery copies of the page's local images. Without a
+  // page ID only images already in the gallery are used; the rest stay local for a later call.
+  // The source is updated too, so the link pass rewrites the final content.
+  private async withGalleryImages(pageId: number | undefined, pageData: Partial<Page>, source?: PageSource): Promise<Partial<Page>> {
+    if (!source || this.options.uploadImages === false) return pageData;
+    const refs = findLocalImageRefs(source.content, source.fmt, path.dirname(source.filePath));
+    // Only files from the import source are uploaded, never ones a ../ reference reaches outside it
+    const root = this.sourceRoot ?? path.dirname(source.filePath);
+    const urls = new Map<string, string>();
+    for (const ref of refs) {
+      if (!isWithin(root, ref.filePath)) {
+        if (pageId !== undefined) console.warn(`    Warning: image outside the import source skipped: ${ref.ref} (in ${source.filePath})`);
+        continue;
+      }
+      if (!(await this.src.pathExists(ref.filePath))) {
+        if (pageId !== undefined) console.warn(`    Warning: image not found: ${ref.ref} (in ${source.filePath})`);
+        continue;
+      }
+      const url = await this.galleryImageUrl(ref.filePath, pageId);
+      if (url !== undefined) urls.set(ref.ref, url);
+    }
+    if (!urls.size) return pageData;
+    const content = rewriteImageRefs(source.content, source.fmt, urls);
+    source.content = content;
+    return {
+      ...pageData,
+      html: this.convertToHtml(content, source.fmt),
+      markdown: source.fmt === 'markdown' ? content : undefined,
+    };
+  }
+
+  // Each distinct file is uploaded once; its gallery name embeds the content hash so
+  // repeated imports reuse the earlier upload instead of adding a copy. Without a page ID
+  // nothing is uploaded and a file missing from the gallery gives undefined.
+  private async galleryImageUrl(filePath: string, pageId?: number): Promise<string | undefined> {
+    const data = await this.src.readFile(filePath);
+    const hash = createHash('sha256').update(data).digest('hex');
+    const name = hashedImageName(filePath, hash);
+    let lookup = this.galleryUrls.get(hash);
+    if (!lookup) {
+      lookup = this.client.listImages({ count: 1, filter: { name } })
+        .then((res) => res.data.find((img) => img.name === name)?.url || undefined);
+      this.cacheGalleryUrl(hash, lookup);
+    }
+    const found = await lookup;
+    if (found !== undefined || pageId === undefined) return found;
+    // The first page that needs a new image uploads it; pages after it wait for that upload
+    let upload = this.galleryUrls.get(hash);
+    if (!upload || upload === lookup) {
+      upload = this.client.uploadImage({ name, uploadedTo: pageId, file: { data, filename: path.basename(filePath) } })
+        .then((image) => image.url || '');
+      this.cacheGalleryUrl(hash, upload);
+    }
+    return upload;
+  }
+
+  private cacheGalleryUrl(hash: string, url: Promise<string | undefined>): void {
+    this.galleryUrls.set(hash, url);
+    url.catch(() => {
+      if (this.galleryUrls.get(hash) === url) this.galleryUrls.delete(hash);
+    });
   }
 
   async execute(source: string, options: ImportOptions): Promise<void> {
+    this.options = options;
+    this.pool = new TaskPool(options.concurrency ?? DEFAULT_CONCURRENCY);
+    this.report = new RunReport('import', !!options.dryRun);
+    try {
+      await this.run(source, options);
+    } catch (e) {
+      this.report.error = describeError(e);
+      throw e;
+    } finally {
+      if (options.report || options.json) await this.report.emit(options);
+    }
+  }
+
+  // Items that failed under continueOnError; the CLI exits with EXIT_PARTIAL_FAILURE when non-zero
+  get failed(): number {
+    return this.report.failed;
+  }
+
+  private async run(source: string, options: ImportOptions): Promise<void> {
     console.log(`${icons.info} Importing from: ${c.bold(source)}`);
     console.log(`  Format: ${options.format || 'markdown'}`);
     console.log(`  Target book: ${options.book || 'auto-detect'}`);
@@ -82,28 +385,94 @@ export class ImportCommand {
       spin.succeed('Connection successful');
     }
 
+    if (source === '-' || isArchivePath(source)) {
+      await this.importArchive(source, options);
+      this.printSummary(options);
+      return;
+    }
+
     const sourcePath = path.resolve(source);
     
     if (!(await fs.pathExists(sourcePath))) {
       throw new Error(`Source path does not exist: ${sourcePath}`);
     }
 
-    const stats = await fs.stat(sourcePath);
-    
-    if (stats.isFile()) {
+    const stats = await this.src.stat(sourcePath);
+    if (options.resume && !stats.isDirectory()) throw new Error('--resume requires a directory or archive source');
+
+    if (stats.isFile() && options.format === 'json') {
+      await this.importBookJson(sourcePath, options);
+    } else if (stats.isFile()) {
+      if (options.sync) throw new Error('--sync requires a directory source');
       await this.importFile(sourcePath, options);
     } else if (stats.isDirectory()) {
+      if (options.format === 'json') throw new Error('--format json expects a book JSON file, not a directory');
+      this.journalFile = path.join(sourcePath, JOURNAL_FILE);
       await this.importDirectory(sourcePath, options);
     } else {
       throw new Error('Source must be a file or directory');
     }
 
-    console.log(`${icons.success} ${c.green('Import completed!')}`);
+    this.printSummary(options);
+  }
+
+  private printSummary(options: ImportOptions): void {
+    const failures = this.report.failures();
+    if (failures.length) console.log(`${icons.warning} ${c.yellow(`Import completed with ${failures.length} failures`)}`);
+    else console.log(`${icons.success} ${c.green('Import completed!')}`);
+    if (!options.dryRun) {
+      const { created, updated, unchanged, skipped, resumed } = this.stats;
+      console.log(`  Summary: ${created} created, ${updated} updated, ${unchanged} unchanged, ${skipped} skipped`);
+      if (resumed) console.log(`  Resumed: ${resumed} pages finished by the interrupted run were not imported again`);
+    }
+    if (this.unresolvedLinks.length) {
+      console.log(`${icons.warning} ${c.yellow(`Unresolved links (${this.unresolvedLinks.length}):`)}`);
+      for (const { file, link } of this.unresolvedLinks) {
+        console.log(`  ${c.gray(path.relative(process.cwd(), file) || file)}: ${link}`);
+      }
+    }
+    if (failures.length) {
+      console.log(`${icons.error} ${c.red(`Failures (${failures.length}):`)}`);
+      for (const line of failureTable(failures)) console.log(`  ${line}`);
+      if (this.journal) console.log(`  Re-run with --resume to retry only the failed items.`);
+    }
+  }
+
+  // Archives are read into memory and imported like a directory; nothing is extracted to disk
+  private async importArchive(source: string, options: ImportOptions): Promise<void> {
+    if (options.format === 'json') throw new Error('--format json expects a book JSON file, not an archive');
+    let data: Buffer;
+    if (source === '-') {
+      if (options.resume) throw new Error('--resume requires a directory or archive source; stdin cannot be resumed');
+      const chunks: Buffer[] = [];
+      for await (const chunk of process.stdin) chunks.push(Buffer.from(chunk));
+      data = Buffer.concat(chunks);
+    } else {
+      const archivePath = path.resolve(source);
+      if (!(await fs.pathExists(archivePath))) throw new Error(`Source path does not exist: ${archivePath}`);
+      data = await fs.readFile(archivePath);
+      // Archives are read-only, so their journal sits next to them
+      this.journalFile = `${archivePath}${JOURNAL_FILE}`;
+    }
+    const entries = readArchive(data);
+    if (!entries.size) throw new Error('Archive contains no files');
+
+    // The virtual root is only used to resolve paths; an archive that wraps everything
+    // in one top-level folder is imported from inside that folder
+    let root = source === '-' ? path.resolve('stdin') : path.resolve(archiveBaseName(source));
+    const memFs = new MemoryFs(root, entries);
+    const top = await memFs.readdir(root);
+    if (top.length === 1 && (await memFs.stat(path.join(root, top[0]))).isDirectory()) root = path.join(root, top[0]);
+
+    console.log(`${icons.info} Read ${entries.size} files from ${source === '-' ? 'stdin' : c.bold(source)}`);
+    this.src = memFs;
+    await this.importDirectory(root, options);
   }
 
   private async importFile(filePath: string, options: ImportOptions): Promise<void> {
+    const startedAt = Date.now();
     const fileName = path.basename(filePath, path.extname(filePath));
-    const content = await fs.readFile(filePath, 'utf-8');
+    const { content, meta } = await this.readPageSource(filePath, null, options.format || 'markdown', options);
     
     console.log(`${icons.working} Processing file: ${c.bold(fileName)}`);
 
@@ -111,27 +480,52 @@ export class ImportCommand {
 
     const pageData = {
       book_id: targetBook.id,
-      name: fileName,
+      name: meta.name || fileName,
       html: this.convertToHtml(content, options.format || 'markdown'),
       markdown: options.format === 'markdown' ? content : undefined,
-    };
+    } as Partial<Page>;
+    this.applyPageMetadata(pageData, meta);
 
+    const source = { filePath, content, fmt: options.format || 'markdown', startedAt };
+    let page: Page | undefined;
     if (options.dryRun) {
       console.log(`${icons.dry} Would create page: ${pageData.name} in book: ${targetBook.name}`);
       console.log(`  Content length: ${content.length} characters`);
     } else {
-      const page = await this.client.createPage(pageData);
+      page = await this.createPageWithImages(pageData, source);
+      this.record('created');
+      this.reportPage(page, 'created', this.sourceDetail(source));
       console.log(`${icons.success} Created page: ${page.name} ${c.gray(`(ID: ${page.id})`)}`);
     }
+    this.trackPage([filePath], targetBook, page, pageData, source);
+    await this.rewriteLinks(!!options.dryRun, (msg) => console.log(msg));
   }
 
   private async importDirectory(dirPath: string, options: ImportOptions): Promise<void> {
-    const items = await fs.readdir(dirPath);
+    this.sourceRoot = dirPath;
+    this.filter = new SourceFilter(this.src, dirPath, { include: options.include, exclude: options.exclude });
+    const items = await this.listEntries(dirPath);
+    // The manifest lives next to the sources, so archives have none
+    if (options.state !== false && this.src === diskFs) {
+      this.root = dirPath;
+      this.prevState = await loadState(dirPath);
+    }
     const bookMeta = await this.readBookMetadata(dirPath);
     const bookName = options.book || bookMeta.name || path.basename(dirPath);
-    const targetBook = await this.getTargetBook(bookName, options.dryRun);
-    if (!options.dryRun && bookMeta.description) {
-      try { await this.client.updateBook(targetBook.id, { description: bookMeta.description }); } catch {}
+    const targetBook = await this.getTargetBook(bookName, options.dryRun, options.book ? undefined : this.prevState.book?.id);
+    // A book found through the manifest takes its new title from the metadata
+    const renamed = !!bookMeta.name && !options.book && targetBook.name !== bookMeta.name;
+    if (!options.dryRun && (bookMeta.description || bookMeta.tags || renamed)) {
+      const bookData: Partial<Book> = {};
+      if (renamed) bookData.name = bookMeta.name;
+      if (bookMeta.description) bookData.description = bookMeta.description;
+      if (bookMeta.tags) bookData.tags = bookMeta.tags;
+      try { await this.client.updateBook(targetBook.id, bookData); } catch {}
+    }
+    if (this.journalFile && !options.dryRun) {
+      this.journal = new Checkpoint<ImportJournalEntry>(this.journalFile, { kind: 'import', target: `book:${targetBook.id}` });
+      const carried = await this.journal.open(!!options.resume);
+      if (options.resume) console.log(`${icons.info} Resuming: ${carried} pages were finished by the interrupted run`);
     }
     const total = await this.countFiles(dirPath, options);
     const bar = createProgressBar(total, 'Importing');
@@ -141,29 +535,30 @@ export class ImportCommand {
     const chapterFrom = (options.chapterFrom || 'dir');
     const flatten = !!options.flatten;
 
-    // First, import files directly in the root directory as book pages
-    for (const item of items) {
-      const itemPath = path.join(dirPath, item);
-      const stats = await fs.stat(itemPath);
-      if (stats.isFile() && this.isSupportedFile(item)) {
-        await this.createPageInBook(targetBook.id, itemPath, item, options, bar);
-        bar.tick(1);
+    // First, import files and page folders in the root directory as book pages
+    const pageFolders = new Set<string>();
+    for (const { name: item, path: itemPath, isFile, isDirectory } of items) {
+      if (isFile && this.isSupportedFile(item)) {
+        await this.queuePage(itemPath, bar, () => this.createPageInBook(targetBook, itemPath, item, options, bar));
+      } else if (isDirectory && (await this.isPageFolder(itemPath))) {
+        pageFolders.add(itemPath);
+        await this.queuePage(itemPath, bar, () => this.processPageFolder(targetBook, undefined, itemPath, options, bar));
       }
     }
+    // Book-level pages must exist before chapters take the next book-level priorities
+    await this.pool.drain();
 
     // Now handle first-level subdirectories
-    for (const item of items) {
-      const itemPath = path.join(dirPath, item);
-      const stats = await fs.stat(itemPath);
-      if (!stats.isDirectory()) continue;
+    for (const { name: item, path: itemPath, isDirectory } of items) {
+      if (!isDirectory || pageFolders.has(itemPath)) continue;
 
       if (flatten) {
         bar.log(`  ${icons.info} Flattening: ${c.bold(item)} ${c.gray('(pages go directly under book)')}`);
         await this.walkFiles(itemPath, maxDepth - 1, async (filePath, relName) => {
           if (!this.isSupportedFile(filePath)) return;
-          await this.createPageInBook(targetBook.id, filePath, path.basename(filePath), options, bar);
-          bar.tick(1);
+          await this.queuePage(filePath, bar, () => this.createPageInBook(targetBook, filePath, path.basename(filePath), options, bar));
         });
+        await this.pool.drain();
         continue;
       }
 
@@ -178,98 +573,210 @@ export class ImportCommand {
         }
       }
 
-      const chapter = await this.getOrCreateChapter(targetBook.id, chapterName, chapterMeta.description || '', chapterMeta.priority, !!options.dryRun);
+      const chapter = await this.guard({ type: 'chapter', name: chapterName, path: itemPath }, (msg) => bar.log(msg), () =>
+        this.getOrCreateChapter(targetBook.id, itemPath, chapterName, chapterMeta.description || '', chapterMeta.priority, chapterMeta.tags, !!options.dryRun));
+      if (!chapter) {
+        // Its pages have nowhere to go
+        bar.tick(await this.countChapterFiles(itemPath));
+        continue;
+      }
       bar.log(`  ${icons.info} ${c.bold(chapterName)} ${c.gray(`(Book ID: ${targetBook.id})`)}`);
-
+      this.linkTargets.set(itemPath, this.client.chapterUrl(targetBook.slug, chapter.slug));
 
       // Import pages within this chapter directory
-      await this.processChapterContents(targetBook.id, chapter.id, itemPath, options, bar);
+      await this.processChapterContents(targetBook, chapter.id, itemPath, options, bar);
+      await this.pool.drain();
     }
+
+    // Second pass: every page now exists, so relative document links can be resolved
+    await this.rewriteLinks(!!options.dryRun, (msg) => bar.log(msg));
     bar.stop('\n');
+
+    await this.syncAfterImport(options);
+    if (this.root && !options.dryRun) {
+      this.nextState.book = { id: targetBook.id };
+      await this.keepUnvisitedState(this.root);
+      await saveState(this.root, this.nextState);
+    }
+    // Kept after failures, so --resume retries only what failed
+    if (!this.report.failed) await this.journal?.finish();
   }
 
-  private async countFiles(dirPath: string, options: ImportOptions): Promise<number> {
-    const items = await fs.readdir(dirPath);
-    let total = 0;
+  // A whole book described by one JSON document (see src/book-json.ts)
+  private async importBookJson(filePath: string, options: ImportOptions): Promise<void> {
+    let data: BookJson;
+    try {
+      data = parseBookJson(JSON.parse(await this.src.readText(filePath)));
+    } catch (e) {
+      throw new Error(`Invalid book JSON in ${filePath}: ${(e as Error).message}`);
+    }
+    const targetBook = await this.getTargetBook(options.book || data.name, options.dryRun);
+    if (!options.dryRun && (data.description || data.tags)) {
+      const bookData: Partial<Book> = {};
+      if (data.description) bookData.description = data.description;
+      if (data.tags) bookData.tags = data.tags;
+      try { await this.client.updateBook(targetBook.id, bookData); } catch {}
+    }
+    const total = data.pages.length + data.chapters.reduce((n, ch) => n + ch.pages.length, 0);
+    const bar = createProgressBar(total, 'Importing');
+    bar.log(`${icons.info} ${c.bold(`Processing JSON as book: ${targetBook.name}`)}`);
 
-    // Count root-level files
-    for (const item of items) {
-      const p = path.join(dirPath, item);
-      const st = await fs.stat(p);
-      if (st.isFile() && this.isSupportedFile(item)) total++;
+    const log = (msg: string) => bar.log(msg);
+    for (const page of data.pages) {
+      await this.guard({ type: 'page', name: page.name, path: filePath }, log, () =>
+        this.importJsonPage(filePath, targetBook.id, undefined, page, options, bar, '  '));
+      bar.tick(1);
+    }
+    for (const ch of data.chapters) {
+      const chapter = await this.guard({ type: 'chapter', name: ch.name, path: filePath }, log, () =>
+        this.getOrCreateChapter(targetBook.id, undefined, ch.name, ch.description || '', ch.priority, ch.tags, !!options.dryRun));
+      if (!chapter) {
+        bar.tick(ch.pages.length);
+        continue;
+      }
+      bar.log(`  ${icons.info} ${c.bold(ch.name)} ${c.gray(`(Book ID: ${targetBook.id})`)}`);
+      for (const page of ch.pages) {
+        await this.guard({ type: 'page', name: page.name, path: filePath }, log, () =>
+          this.importJsonPage(filePath, targetBook.id, chapter.id, page, options, bar, '    '));
+        bar.tick(1);
+      }
     }
+    bar.stop('\n');
 
-    // Count files in subdirectories (chapters)
-    for (const item of items) {
-      const p = path.join(dirPath, item);
-      const st = await fs.stat(p);
-      if (!st.isDirectory()) continue;
+    await this.syncAfterImport(options);
+  }
 
-      total += await this.countChapterFiles(p, options);
+  // A page that failed may never have been matched to its remote copy, which would then
+  // look like an orphan, so nothing is removed after failures
+  private async syncAfterImport(options: ImportOptions): Promise<void> {
+    if (!this.syncBook) return;
+    if (this.report.failed) {
+      console.log(`${icons.warning} ${c.yellow(`Sync: skipped removing orphans because ${this.report.failed} items failed`)}`);
+      return;
     }
-    return total;
+    await this.removeOrphans(this.syncBook, options);
   }
 
-  private async countChapterFiles(chapterPath: string, options: ImportOptions): Promise<number> {
-    const entries = await fs.readdir(chapterPath);
-    let total = 0;
+  private async importJsonPage(filePath: string, bookId: number, chapterId: number | undefined, page: BookJsonPage, options: ImportOptions, bar: ProgressBar, indent: string) {
+    const startedAt = Date.now();
+    const pageData = {
+      book_id: bookId,
+      chapter_id: chapterId,
+      name: page.name,
+      html: page.markdown !== undefined ? renderMarkdown(page.markdown) : page.html ?? '',
+      markdown: page.markdown,
+    } as Partial<Page>;
+    this.applyPageMetadata(pageData, page);
+    if (options.dryRun) {
+      await this.previewPage(bookId, chapterId, page.name, pageData);
+      bar.log(`${indent}${icons.dry} Would create/update: ${page.name}`);
+      return;
+    }
+    const { page: written, action } = await this.getOrCreatePage(bookId, chapterId, page.name, pageData);
+    // Reported against the JSON file; not passed on, as JSON pages have no local images or links
+    const source = { filePath, content: page.markdown ?? page.html ?? '', fmt: page.markdown !== undefined ? 'markdown' : 'html', startedAt };
+    this.logPageAction(bar, indent, written, action, source);
+  }
 
-    for (const entry of entries) {
-      const entryPath = path.join(chapterPath, entry);
-      const stats = await fs.stat(entryPath);
+  // Mirrors the walk in importDirectory so the progress bar ticks exactly `total` times
+  private async countFiles(dirPath: string, options: ImportOptions): Promise<number> {
+    const items = await this.listEntries(dirPath);
+    const maxDepth = Number.isFinite(options.maxDepth as number) ? (options.maxDepth as number) : 10;
+    let total = 0;
 
-      // Skip metadata files
-      if (entry === '.chapter-metadata.json') continue;
+    // Count root-level files and page folders
+    const pageFolders = new Set<string>();
+    for (const item of items) {
+      if (item.isFile && this.isSupportedFile(item.name)) total++;
+      else if (item.isDirectory && (await this.isPageFolder(item.path))) pageFolders.add(item.path);
+    }
+    total += pageFolders.size;
 
-      if (stats.isDirectory()) {
-        // This is a page folder - count it as 1
-        const hasContent = await this.findPageContent(entryPath);
-        if (hasContent) total++;
-      } else if (stats.isFile() && this.isSupportedFile(entry)) {
-        // This is a legacy flat file - count it
-        total++;
+    // Count files in subdirectories (chapters, or everything below them with --flatten)
+    for (const item of items) {
+      if (!item.isDirectory || pageFolders.has(item.path)) continue;
+      if (options.flatten) {
+        await this.walkFiles(item.path, maxDepth - 1, async (filePath) => {
+          if (this.isSupportedFile(filePath)) total++;
+        });
+      } else {
+        total += await this.countChapterFiles(item.path);
       }
     }
+    return total;
+  }
 
+  // A first-level folder with page metadata and no chapter metadata is a page directly in
+  // the book, which is how `book export-contents` writes top-level pages
+  private async isPageFolder(dir: string): Promise<boolean> {
+    return (await this.src.pathExists(path.join(dir, '.page-metadata.json')))
+      && !(await this.src.pathExists(path.join(dir, '.chapter-metadata.json')));
+  }
+
+  private async countChapterFiles(chapterPath: string): Promise<number> {
+    let total = 0;
+    for (const entry of await this.listEntries(chapterPath)) {
+      // Page folders tick once even without a content file, since they are reported as skipped
+      if (entry.isDirectory || (entry.isFile && this.isSupportedFile(entry.name))) total++;
+    }
     return total;
   }
 
-  private async createPageInBook(bookId: number, filePath: string, displayName: string, options: ImportOptions, bar: ProgressBar) {
+  // Directory entries that pass .bookstackignore and --include/--exclude, in readdir order
+  private async listEntries(dir: string): Promise<{ name: string; path: string; isFile: boolean; isDirectory: boolean }[]> {
+    const entries = [];
+    for (const name of await this.src.readdir(dir)) {
+      const p = path.join(dir, name);
+      const stats = await this.src.stat(p);
+      const isDirectory = stats.isDirectory();
+      if (this.filter && !(await this.filter.accepts(p, isDirectory))) continue;
+      entries.push({ name, path: p, isFile: stats.isFile(), isDirectory });
+    }
+    return entries;
+  }
+
+  private async createPageInBook(book: Book, filePath: string, displayName: string, options: ImportOptions, bar: ProgressBar) {
+    const order = this.nextOrder++;
+    const startedAt = Date.now();
+    if (this.resumePage(book, [filePath], filePath, bar, '  ')) return;
+    const bookId = book.id;
     const fileName = path.basename(displayName, path.extname(displayName));
-    const content = await fs.readFile(filePath, 'utf-8');
+    const fmt = options.format || this.detectFormat(filePath);
     // Check if the file lives inside a page folder with metadata
-    const parentDir = path.dirname(filePath);
-    const pageMeta = await this.readPageMetadata(parentDir);
+    const { content, meta: pageMeta } = await this.readPageSource(filePath, path.dirname(filePath), fmt, options);
     const pageName = pageMeta.name || fileName;
     bar.log(`  ${icons.working} ${c.gray(pageName)}`);
-    const fmt = options.format || this.detectFormat(filePath);
     const pageData = {
       book_id: bookId,
       name: pageName,
       html: this.convertToHtml(content, fmt),
       markdown: fmt === 'markdown' ? content : undefined,
     } as Partial<Page>;
-    if (pageMeta.priority !== undefined) {
-      pageData.priority = pageMeta.priority;
-    }
+    this.applyPageMetadata(pageData, pageMeta);
+    const source = { filePath, content, fmt, order, startedAt };
+    let page: Page | undefined;
+    let action: PageAction | undefined;
     if (options.dryRun) {
+      await this.previewPage(bookId, undefined, pageName, pageData, source);
       bar.log(`  ${icons.dry} Would create/update: ${pageData.name}`);
     } else {
-      const page = await this.getOrCreatePage(bookId, undefined, pageName, pageData, false);
-      const action = page.created_at === page.updated_at ? 'Created' : 'Updated';
-      bar.log(`  ${icons.success} ${action} page: ${page.name} ${c.gray(`(ID: ${page.id})`)}`);
+      ({ page, action } = await this.getOrCreatePage(bookId, undefined, pageName, pageData, source));
+      this.logPageAction(bar, '  ', page, action, source);
     }
+    this.trackPage([filePath], book, page, pageData, source, action === 'pending');
   }
 
-  private async createPageInChapter(bookId: number, chapterId: number, filePath: string, displayName: string, options: ImportOptions, bar: ProgressBar) {
+  private async createPageInChapter(book: Book, chapterId: number, filePath: string, displayName: string, options: ImportOptions, bar: ProgressBar) {
+    const order = this.nextOrder++;
+    const startedAt = Date.now();
+    if (this.resumePage(book, [filePath], filePath, bar, '    ')) return;
+    const bookId = book.id;
     const fileName = path.basename(displayName, path.extname(displayName));
-    const content = await fs.readFile(filePath, 'utf-8');
+    const fmt = options.format || this.detectFormat(filePath);
     // Check if the file lives inside a page folder with metadata
-    const parentDir = path.dirname(filePath);
-    const pageMeta = await this.readPageMetadata(parentDir);
+    const { content, meta: pageMeta } = await this.readPageSource(filePath, path.dirname(filePath), fmt, options);
     const pageName = pageMeta.name || fileName;
     bar.log(`    ${icons.working} ${c.gray(pageName)}`);
-    const fmt = options.format || this.detectFormat(filePath);
     const pageData = {
       book_id: bookId,
       chapter_id: chapterId,
@@ -277,36 +784,155 @@ export class ImportCommand {
       html: this.convertToHtml(content, fmt),
       markdown: fmt === 'markdown' ? content : undefined,
     } as Partial<Page>;
-    if (pageMeta.priority !== undefined) {
-      pageData.priority = pageMeta.priority;
-    }
+    this.applyPageMetadata(pageData, pageMeta);
+    const source = { filePath, content, fmt, order, startedAt };
+    let page: Page | undefined;
+    let action: PageAction | undefined;
     if (options.dryRun) {
+      await this.previewPage(bookId, chapterId, pageName, pageData, source);
       bar.log(`    ${icons.dry} Would create/update: ${pageData.name}`);
     } else {
-      const page = await this.getOrCreatePage(bookId, chapterId, pageName, pageData, false);
-      const action = page.created_at === page.updated_at ? 'Created' : 'Updated';
-      bar.log(`    ${icons.success} ${action} page: ${page.name} ${c.gray(`(ID: ${page.id})`)}`);
+      ({ page, action } = await this.getOrCreatePage(bookId, chapterId, pageName, pageData, source));
+      this.logPageAction(bar, '    ', page, action, source);
     }
+    this.trackPage([filePath], book, page, pageData, source, action === 'pending');
   }
 
-  private async getOrCreateChapter(bookId: number, name: string, description: string, priority: number | undefined, dryRun: boolean) {
+  private async getOrCreateChapter(bookId: number, dirPath: string | undefined, name: string, description: string, priority: number | undefined, tags: Tag[] | undefined, dryRun: boolean) {
     if (dryRun) {
+      if (this.syncBook) {
+        const existing = await this.client.getChapters(bookId);
+        const found = this.chapterFromState(existing, dirPath) || existing.find(c => c.name.toLowerCase() === name.toLowerCase());
+        if (found) {
+          this.seenChapters.add(found.id);
+          return found;
+        }
+      }
       return { id: 1, name, slug: name.toLowerCase().replace(/\s+/g, '-'), book_id: bookId, priority: priority || 0, created_at: '', updated_at: '' } as any;
     }
     const existing = await this.client.getChapters(bookId);
-    const found = existing.find(c => c.name.toLowerCase() === name.toLowerCase());
-    if (found) return found;
+    const known = this.chapterFromState(existing, dirPath);
+    const found = known || existing.find(c => c.name.toLowerCase() === name.toLowerCase());
+    if (found) {
+      this.seenChapters.add(found.id);
+      this.rememberChapter(dirPath, found.id);
+      const changes: Partial<Chapter> = {};
+      // Retitled since the last import
+      if (known && known.name !== name) changes.name = name;
+      // Chapter metadata is the source of truth for existing chapters too
+      if (description && description !== (found.description ?? '')) changes.description = description;
+      if (priority !== undefined && priority !== found.priority) changes.priority = priority;
+      // Chapter listings leave out tags, so they are read from the chapter itself
+      if (tags && !sameTags(tags, (await this.client.getChapter(found.id)).tags)) changes.tags = tags;
+      if (Object.keys(changes).length) return this.reportChapter(await this.client.updateChapter(found.id, changes), 'updated', dirPath);
+      return this.reportChapter(found, 'unchanged', dirPath);
+    }
     const chapterData: Partial<Chapter> = { name, description };
     if (priority !== undefined) chapterData.priority = priority;
-    return await this.client.createChapter(bookId, chapterData);
+    if (tags) chapterData.tags = tags;
+    const created = await this.client.createChapter(bookId, chapterData);
+    this.seenChapters.add(created.id);
+    this.rememberChapter(dirPath, created.id);
+    return this.reportChapter(created, 'created', dirPath);
+  }
+
+  private reportChapter(chapter: Chapter, status: ReportStatus, dirPath: string | undefined): Chapter {
+    const url = this.targetBook ? this.client.chapterUrl(this.targetBook.slug, chapter.slug) : undefined;
+    this.report.add({ type: 'chapter', status, name: chapter.name, path: dirPath && this.reportPath(dirPath), id: chapter.id, url });
+    return chapter;
+  }
+
+  private chapterFromState(existing: Chapter[], dirPath: string | undefined): Chapter | undefined {
+    const entry = this.root && dirPath ? this.prevState.chapters[stateKey(this.root, dirPath)] : undefined;
+    return entry && existing.find((ch) => ch.id === entry.id);
+  }
+
+  private rememberChapter(dirPath: string | undefined, id: number): void {
+    if (this.root && dirPath) this.nextState.chapters[stateKey(this.root, dirPath)] = { id };
+  }
+
+  // Files this run did not write (failed, filtered out or skipped) keep their entries, so the
+  // next run still finds their pages by ID. Entries of deleted files, and IDs another file
+  // took over, are dropped.
+  private async keepUnvisitedState(root: string): Promise<void> {
+    const pageIds = new Set(Object.values(this.nextState.pages).map((p) => p.id));
+    for (const [key, entry] of Object.entries(this.prevState.pages)) {
+      if (this.nextState.pages[key] || pageIds.has(entry.id)) continue;
+      if (await this.src.pathExists(path.join(root, key))) this.nextState.pages[key] = entry;
+    }
+    const chapterIds = new Set(Object.values(this.nextState.chapters).map((ch) => ch.id));
+    for (const [key, entry] of Object.entries(this.prevState.chapters)) {
+      if (this.nextState.chapters[key] || chapterIds.has(entry.id)) continue;
+      if (await this.src.pathExists(path.join(root, key))) this.nextState.chapters[key] = entry;
+    }
+  }
+
+  // Mirror mode: remote pages and chapters the import did not touch are deleted,
+  // or moved into a holding chapter with --archive-orphans
+  private async removeOrphans(book: Book, options: ImportOptions): Promise<void> {
+    const archiveName = options.archiveOrphans
+      ? (typeof options.archiveOrphans === 'string' ? options.archiveOrphans : DEFAULT_ARCHIVE_CHAPTER)
+      : undefined;
+    const chapters = await this.client.getChapters(book.id);
+    const pages = await this.client.getPages(book.id);
+    const holding = archiveName ? chapters.find((ch) => ch.name.toLowerCase() === archiveName.toLowerCase()) : undefined;
+
+    const orphanPages = pages.filter((p) => !this.seenPages.has(p.id) && !(holding && p.chapter_id === holding.id));
+    // A chapter still holding an imported page is kept, or that page would go with it
+    const orphanChapters = chapters.filter(
+      (ch) => !this.seenChapters.has(ch.id) && ch.id !== holding?.id && !pages.some((p) => p.chapter_id === ch.id && this.seenPages.has(p.id)),
+    );
+    if (!orphanPages.length && !orphanChapters.length) {
+      console.log(`${icons.success} Sync: nothing to remove from ${c.bold(book.name)}`);
+      return;
+    }
+
+    const action = archiveName ? `move to "${archiveName}"` : 'delete';
+    const chapterNames = new Map(chapters.map((ch) => [ch.id, ch.name]));
+    console.log(`${icons.warning} ${c.yellow(`Sync: ${orphanPages.length} pages and ${orphanChapters.length} chapters no longer exist locally (${action}):`)}`);
+    for (const ch of orphanChapters) {
+      console.log(`  ${c.red('-')} chapter: ${ch.name} ${c.gray(`(ID: ${ch.id})`)}`);
+    }
+    for (const p of orphanPages) {
+      const where = p.chapter_id ? ` in ${chapterNames.get(p.chapter_id) ?? `chapter ${p.chapter_id}`}` : '';
+      console.log(`  ${c.red('-')} page: ${p.name} ${c.gray(`(ID: ${p.id}${where})`)}`);
+    }
+
+    if (options.dryRun) {
+      console.log(`${icons.dry} Would ${action} the items above`);
+      return;
+    }
+    if (!options.yes && !(await confirm(`${archiveName ? 'Archive' : 'Delete'} ${orphanPages.length} pages and ${orphanChapters.length} chapters?`))) {
+      console.log(`${icons.info} Sync cancelled; nothing was removed. Use --yes to skip the prompt.`);
+      return;
+    }
+
+    if (archiveName) {
+      const target = holding || await this.client.createChapter(book.id, {
+        name: archiveName,
+        description: 'Pages removed from the import source',
+      });
+      for (const p of orphanPages) await this.client.movePage(p.id, { chapterId: target.id });
+      // Their pages were moved above, so only empty chapters are deleted
+      for (const ch of orphanChapters) await this.client.deleteChapter(ch.id);
+    } else {
+      const deletedChapters = new Set(orphanChapters.map((ch) => ch.id));
+      for (const ch of orphanChapters) await this.client.deleteChapter(ch.id);
+      // Deleting a chapter takes its pages with it
+      for (const p of orphanPages) {
+        if (!p.chapter_id || !deletedChapters.has(p.chapter_id)) await this.client.deletePage(p.id);
+      }
+    }
+    this.invalidateBookPagesCache(book.id);
+    console.log(`${icons.success} Sync: ${archiveName ? 'archived' : 'deleted'} ${orphanPages.length} pages and ${orphanChapters.length} chapters`);
   }
 
-  private async readChapterMetadata(dir: string): Promise<{ name?: string; description?: string; priority?: number }> {
+  private async readChapterMetadata(dir: string): Promise<{ name?: string; description?: string; priority?: number; tags?: Tag[] }> {
     const metaPath = path.join(dir, '.chapter-metadata.json');
     try {
-      if (await fs.pathExists(metaPath)) {
-        const data = JSON.parse(await fs.readFile(metaPath, 'utf8')) as { name?: string; description?: string; priority?: number };
-        return { name: data.name, description: data.description, priority: data.priority };
+      if (await this.src.pathExists(metaPath)) {
+        const data = JSON.parse(await this.src.readText(metaPath)) as { name?: string; description?: string; priority?: number; tags?: unknown };
+        return { name: data.name, description: data.description, priority: data.priority, tags: normalizeTags(data.tags) };
       }
     } catch (e) {
       console.warn(`  Warning: failed to parse ${metaPath}: ${(e as Error).message}`);
@@ -314,12 +940,12 @@ export class ImportCommand {
     return {};
   }
 
-  private async readPageMetadata(dir: string): Promise<{ name?: string; priority?: number }> {
+  private async readPageMetadata(dir: string): Promise<PageMetadata> {
     const metaPath = path.join(dir, '.page-metadata.json');
     try {
-      if (await fs.pathExists(metaPath)) {
-        const data = JSON.parse(await fs.readFile(metaPath, 'utf8')) as { name?: string; priority?: number };
-        return { name: data.name, priority: data.priority };
+      if (await this.src.pathExists(metaPath)) {
+        const data = JSON.parse(await this.src.readText(metaPath)) as { name?: string; priority?: number; tags?: unknown; template?: boolean };
+        return { name: data.name, priority: data.priority, tags: normalizeTags(data.tags), template: data.template };
       }
     } catch (e) {
       console.warn(`    Warning: failed to parse ${metaPath}: ${(e as Error).message}`);
@@ -327,12 +953,12 @@ export class ImportCommand {
     return {};
   }
 
-  private async readBookMetadata(dir: string): Promise<{ name?: string; description?: string }> {
+  private async readBookMetadata(dir: string): Promise<{ name?: string; description?: string; tags?: Tag[] }> {
     const metaPath = path.join(dir, '.book-metadata.json');
     try {
-      if (await fs.pathExists(metaPath)) {
-        const data = JSON.parse(await fs.readFile(metaPath, 'utf8')) as { name?: string; description?: string };
-        return { name: data.name, description: data.description };
+      if (await this.src.pathExists(metaPath)) {
+        const data = JSON.parse(await this.src.readText(metaPath)) as { name?: string; description?: string; tags?: unknown };
+        return { name: data.name, description: data.description, tags: normalizeTags(data.tags) };
       }
     } catch (e) {
       console.warn(`Warning: failed to parse ${metaPath}: ${(e as Error).message}`);
@@ -340,35 +966,195 @@ export class ImportCommand {
     return {};
   }
 
+  private logPageAction(bar: ProgressBar, indent: string, page: Page, action: PageAction, source: PageSource, detail = ''): void {
+    this.record(action);
+    if (action === 'pending') {
+      source.elapsedMs = Date.now() - (source.startedAt ?? Date.now());
+      bar.log(`${indent}${icons.info} Found page: ${page.name} ${c.gray(`(ID: ${page.id}${detail}; checked after links are resolved)`)}`);
+    } else {
+      bar.log(`${indent}${icons.success} ${ACTION_LABELS[action]} page: ${page.name} ${c.gray(`(ID: ${page.id}${detail})`)}`);
+      this.reportPage(page, action, this.sourceDetail(source));
+    }
+  }
+
+  // Runs one page through the pool
+  private queuePage(p: string, bar: ProgressBar, work: () => Promise<void>): Promise<void> {
+    return this.pool.run(async () => {
+      await this.guard({ type: 'page', path: p }, (msg) => bar.log(msg), work);
+      bar.tick(1);
+    });
+  }
+
+  // A failure is reported against the item's path. It then stops the import, or with
+  // continueOnError is logged and leaves the result undefined so the caller moves on.
+  private async guard<T>(item: { type: 'chapter' | 'page'; name?: string; path: string }, log: (msg: string) => void, work: () => Promise<T>): Promise<T | undefined> {
+    const startedAt = Date.now();
+    try {
+      return await work();
+    } catch (e) {
+      const error = describeError(e);
+      const where = this.reportPath(item.path);
+      this.report.add({ ...item, status: 'failed', path: where, durationMs: Date.now() - startedAt, error });
+      if (!this.options.continueOnError) throw e;
+      log(`  ${icons.error} Failed ${item.type}: ${item.name || where} ${c.gray(`(${error})`)}`);
+      return undefined;
+    }
+  }
+
+  private reportPage(page: Page, status: ReportStatus, detail: Pick<ReportItem, 'path' | 'bytes' | 'durationMs'>): void {
+    const url = this.targetBook ? this.client.pageUrl(this.targetBook.slug, page.slug) : undefined;
+    this.report.add({ type: 'page', status, name: page.name, id: page.id, url, ...detail });
+  }
+
+  private sourceDetail(source: PageSource): Pick<ReportItem, 'path' | 'bytes' | 'durationMs'> {
+    return {
+      path: this.reportPath(source.filePath),
+      bytes: Buffer.byteLength(source.content, 'utf8'),
+      durationMs: (source.elapsedMs ?? 0) + Date.now() - (source.startedAt ?? Date.now()),
+    };
+  }
+
+  private reportPath(p: string): string {
+    return this.sourceRoot ? stateKey(this.sourceRoot, p) : path.relative(process.cwd(), p) || p;
+  }
+
+  private trackPage(paths: string[], book: Book, page: Page | undefined, pageData: Partial<Page>, source: PageSource, pending = false): void {
+    // Dry runs have no slugs yet; any non-empty URL marks the target as resolvable
+    const url = page ? this.client.pageUrl(book.slug, page.slug) : `#${pageData.name}`;
+    for (const p of paths) this.linkTargets.set(p, url);
+    if (findDocumentLinks(source.content, source.fmt).length) this.linkedPages.push({ page, pageData, source, pending });
+    else if (page) this.markDone(page, pageData, source);
+  }
+
+  // Journaled once nothing is left to do for the page, i.e. after its link pass if it has links
+  private markDone(page: Page, pageData: Partial<Page>, source: PageSource): void {
+    if (!this.journal || !this.sourceRoot) return;
+    this.journal.record({
+      key: stateKey(this.sourceRoot, source.filePath),
+      id: page.id,
+      slug: page.slug,
+      chapterId: pageData.chapter_id ?? undefined,
+      hash: contentHash(pageData),
+    });
+  }
+
+  // Pages the interrupted run finished are not read or written again, but still serve as
+  // link targets, count as kept for --sync and keep their manifest entry
+  private resumePage(book: Book, paths: string[], filePath: string, bar: ProgressBar, indent: string): boolean {
+    const done = this.journal && this.sourceRoot ? this.journal.get(stateKey(this.sourceRoot, filePath)) : undefined;
+    if (!done) return false;
+    const url = this.client.pageUrl(book.slug, done.slug);
+    for (const p of paths) this.linkTargets.set(p, url);
+    this.seenPages.add(done.id);
+    this.report.add({ type: 'page', status: 'resumed', path: done.key, id: done.id, url });
+    if (this.root) this.nextState.pages[stateKey(this.root, filePath)] = { id: done.id, chapterId: done.chapterId, hash: done.hash };
+    this.stats.resumed++;
+    bar.log(`${indent}${icons.info} Already imported: ${done.key} ${c.gray(`(ID: ${done.id})`)}`);
+    return true;
+  }
+
+  private async rewriteLinks(dryRun: boolean, log: (msg: string) => void): Promise<void> {
+    // Pages are queued as their writes finish; walk order keeps the output stable under --concurrency
+    const linked = [...this.linkedPages].sort((a, b) => (a.source.order ?? 0) - (b.source.order ?? 0));
+    for (const { page, pageData, source, pending } of linked) {
+      const result = rewriteDocumentLinks(source.content, source.fmt, (target) => {
+        const { path: rel, fragment } = splitFragment(target);
+        let decoded = rel;
+        try { decoded = decodeURIComponent(rel); } catch {}
+        const url = this.linkTargets.get(path.resolve(path.dirname(source.filePath), decoded));
+        if (!url) return null;
+        return fragment ? `${url}#${bookstackAnchor(fragment)}` : url;
+      });
+      result.unresolved.forEach((link) => this.unresolvedLinks.push({ file: source.filePath, link }));
+      if (!result.resolved && !pending && !source.unsaved) {
+        if (page) this.markDone(page, pageData, source);
+        continue;
+      }
+      if (dryRun || !page) {
+        log(`  ${icons.dry} Would rewrite ${result.resolved} links in: ${pageData.name}`);
+        continue;
+      }
+      const data = {
+        ...pageData,
+        html: this.convertToHtml(result.content, source.fmt),
+        markdown: source.fmt === 'markdown' ? result.content : undefined,
+      };
+      await this.pool.run(() => this.guard({ type: 'page', name: page.name, path: source.filePath }, log, async () => {
+        if (pending) {
+          source.startedAt = Date.now();
+          const { action } = await this.updateIfChanged(page.id, page.book_id, data);
+          this.record(action);
+          this.reportPage(page, action, this.sourceDetail(source));
+          log(`  ${icons.success} ${ACTION_LABELS[action]} page: ${page.name} ${c.gray(`(ID: ${page.id}, ${result.resolved} links rewritten)`)}`);
+          this.markDone(page, pageData, source);
+          return;
+        }
+        await this.client.updatePage(page.id, data);
+        this.markDone(page, pageData, source);
+        log(`  ${icons.success} ${result.resolved ? `Rewrote ${result.resolved} links in` : 'Saved uploaded images in'}: ${page.name}`);
+      }));
+    }
+    await this.pool.drain();
+    this.linkedPages = [];
+  }
+
+  // Reads a page file and its metadata. Markdown files may carry YAML front matter,
+  // which is stripped from the body and merged with the sidecar metadata in metaDir.
+  private async readPageSource(filePath: string, metaDir: string | null, fmt: string, options: ImportOptions): Promise<{ content: string; meta: PageMetadata }> {
+    const raw = await this.src.readText(filePath);
+    const sidecar = metaDir ? await this.readPageMetadata(metaDir) : {};
+    if (fmt !== 'markdown') return { content: raw, meta: sidecar };
+    try {
+      const { meta, body } = parseFrontMatter(raw);
+      return { content: body, meta: mergePageMetadata(sidecar, meta, options.metadataPrecedence) };
+    } catch (e) {
+      console.warn(`    Warning: failed to parse front matter in ${filePath}: ${(e as Error).message}`);
+      return { content: raw, meta: sidecar };
+    }
+  }
+
+  private applyPageMetadata(pageData: Partial<Page>, meta: PageMetadata): void {
+    if (meta.priority !== undefined) pageData.priority = meta.priority;
+    if (meta.tags) pageData.tags = meta.tags;
+    if (meta.template !== undefined) pageData.template = meta.template;
+  }
+
   private async findPageContent(pageDir: string): Promise<string | null> {
     // Look for content files in priority order
-    const candidates = ['page.md', 'index.md', 'content.md', 'README.md'];
+    const candidates = ['page.md', 'page.html', 'index.md', 'content.md', 'README.md'];
     for (const candidate of candidates) {
       const filePath = path.join(pageDir, candidate);
-      if (await fs.pathExists(filePath)) {
+      if (await this.src.pathExists(filePath) && (!this.filter || await this.filter.accepts(filePath, false))) {
         return filePath;
       }
     }
     return null;
   }
 
-  private async processPageFolder(bookId: number, chapterId: number, pageFolderPath: string, options: ImportOptions, bar: ProgressBar) {
+  private async processPageFolder(book: Book, chapterId: number | undefined, pageFolderPath: string, options: ImportOptions, bar: ProgressBar) {
+    const order = this.nextOrder++;
+    const startedAt = Date.now();
+    const bookId = book.id;
     const folderName = path.basename(pageFolderPath);
-    // Read page metadata
-    const pageMeta = await this.readPageMetadata(pageFolderPath);
+    const indent = chapterId === undefined ? '  ' : '    ';
 
     // Find content file
     const contentPath = await this.findPageContent(pageFolderPath);
     if (!contentPath) {
-      bar.log(`    ${icons.warning} No content file found: ${c.gray(folderName)}`);
+      bar.log(`${indent}${icons.warning} No content file found: ${c.gray(folderName)}`);
+      this.stats.skipped++;
+      this.report.add({ type: 'page', status: 'skipped', name: folderName, path: this.reportPath(pageFolderPath), error: 'no content file' });
       return;
     }
+    if (this.resumePage(book, [contentPath, pageFolderPath], contentPath, bar, indent)) return;
+
+    // Read page metadata (sidecar and front matter)
+    const fmt = options.format || this.detectFormat(contentPath);
+    const { content, meta: pageMeta } = await this.readPageSource(contentPath, pageFolderPath, fmt, options);
 
     // Use metadata name or fallback to folder name
     const pageName = pageMeta.name || folderName;
-    bar.log(`    ${icons.working} ${c.gray(pageName)}`);
-    const content = await fs.readFile(contentPath, 'utf-8');
-    const fmt = options.format || this.detectFormat(contentPath);
+    bar.log(`${indent}${icons.working} ${c.gray(pageName)}`);
 
     const pageData = {
       book_id: bookId,
@@ -377,38 +1163,29 @@ export class ImportCommand {
       html: this.convertToHtml(content, fmt),
       markdown: fmt === 'markdown' ? content : undefined,
     } as Partial<Page>;
+    this.applyPageMetadata(pageData, pageMeta);
 
-    if (pageMeta.priority !== undefined) {
-      pageData.priority = pageMeta.priority;
-    }
-
+    const source = { filePath: contentPath, content, fmt, order, startedAt };
+    let page: Page | undefined;
+    let action: PageAction | undefined;
     if (options.dryRun) {
-      bar.log(`    ${icons.dry} Would create/update: ${pageName} ${c.gray(`(priority: ${pageMeta.priority ?? 'default'})`)}`);
+      await this.previewPage(bookId, chapterId, pageName, pageData, source);
+      bar.log(`${indent}${icons.dry} Would create/update: ${pageName} ${c.gray(`(priority: ${pageMeta.priority ?? 'default'})`)}`);
     } else {
-      const page = await this.getOrCreatePage(bookId, chapterId, pageName, pageData, false);
-      const action = page.created_at === page.updated_at ? 'Created' : 'Updated';
-      bar.log(`    ${icons.success} ${action} page: ${page.name} ${c.gray(`(ID: ${page.id}, priority: ${page.priority})`)}`);
+      ({ page, action } = await this.getOrCreatePage(bookId, chapterId, pageName, pageData, source));
+      this.logPageAction(bar, indent, page, action, source, `, priority: ${page.priority}`);
     }
+    this.trackPage([contentPath, pageFolderPath], book, page, pageData, source, action === 'pending');
   }
 
-  private async processChapterContents(bookId: number, chapterId: number, chapterPath: string, options: ImportOptions, bar: ProgressBar) {
-    const entries = await fs.readdir(chapterPath);
-
-    for (const entry of entries) {
-      const entryPath = path.join(chapterPath, entry);
-      const stats = await fs.stat(entryPath);
-
-      // Skip metadata files
-      if (entry === '.chapter-metadata.json') continue;
-
-      if (stats.isDirectory()) {
+  private async processChapterContents(book: Book, chapterId: number, chapterPath: string, options: ImportOptions, bar: ProgressBar) {
+    for (const { name: entry, path: entryPath, isFile, isDirectory } of await this.listEntries(chapterPath)) {
+      if (isDirectory) {
         // This is a page folder - process it
-        await this.processPageFolder(bookId, chapterId, entryPath, options, bar);
-        bar.tick(1);
-      } else if (stats.isFile() && this.isSupportedFile(entry)) {
+        await this.queuePage(entryPath, bar, () => this.processPageFolder(book, chapterId, entryPath, options, bar));
+      } else if (isFile && this.isSupportedFile(entry)) {
         // This is a legacy flat file - process it the old way
-        await this.createPageInChapter(bookId, chapterId, entryPath, path.basename(entry), options, bar);
-        bar.tick(1);
+        await this.queuePage(entryPath, bar, () => this.createPageInChapter(book, chapterId, entryPath, path.basename(entry), options, bar));
       }
     }
   }
@@ -417,8 +1194,8 @@ export class ImportCommand {
     const candidates = ['README.md', 'Readme.md', 'readme.md', 'index.md'];
     for (const c of candidates) {
       const p = path.join(dir, c);
-      if (await fs.pathExists(p)) {
-        const content = await fs.readFile(p, 'utf8');
+      if (await this.src.pathExists(p)) {
+        const { body: content } = splitFrontMatter(await this.src.readText(p));
         // Try first Markdown heading
         const m = content.match(/^#\s+(.+)$/m) || content.match(/^##\s+(.+)$/m) || content.match(/^###\s+(.+)$/m);
         if (m && m[1]) return m[1].trim();
@@ -431,27 +1208,32 @@ export class ImportCommand {
   }
 
   private async walkFiles(root: string, depth: number, onFile: (filePath: string, relName: string) => Promise<void>) {
-    async function walk(current: string, currentDepth: number) {
-      const entries = await fs.readdir(current);
-      for (const ent of entries) {
-        const p = path.join(current, ent);
-        const st = await fs.stat(p);
-        if (st.isDirectory()) {
+    const walk = async (current: string, currentDepth: number) => {
+      for (const ent of await this.listEntries(current)) {
+        if (ent.isDirectory) {
           if (currentDepth > 0) {
-            await walk(p, currentDepth - 1);
+            await walk(ent.path, currentDepth - 1);
           }
-        } else if (st.isFile()) {
-          await onFile(p, path.relative(root, p));
+        } else if (ent.isFile) {
+          await onFile(ent.path, path.relative(root, ent.path));
         }
       }
-    }
+    };
     await walk(root, Math.max(0, depth));
   }
 
-  private async getTargetBook(bookName: string, dryRun: boolean = false): Promise<Book> {
+  private async getTargetBook(bookName: string, dryRun: boolean = false, knownId?: number): Promise<Book> {
     console.log(`${icons.working} Looking for book: ${c.bold(bookName)}`);
 
     if (dryRun) {
+      // A sync preview compares against the existing book, which is only read
+      if (this.options.sync) {
+        const existing = await this.findBook(bookName, knownId);
+        if (existing) {
+          this.syncBook = existing;
+          return existing;
+        }
+      }
       // In dry-run mode, return a mock book
       return {
         id: 1,
@@ -462,10 +1244,39 @@ export class ImportCommand {
       };
     }
     
-    // Try to find by name or ID
+    let book = await this.findBook(bookName, knownId);
+    const created = !book;
+
+    if (!book) {
+      console.log(`${icons.info} Book not found, creating: ${c.bold(bookName)}`);
+      book = await this.client.createBook({
+        name: bookName,
+        description: `Book created by bookstack-cli import`
+      });
+      console.log(`${icons.success} Created book: ${book.name} ${c.gray(`(ID: ${book.id})`)}`);
+    } else {
+      console.log(`${icons.success} Using existing book: ${book.name} ${c.gray(`(ID: ${book.id})`)}`);
+      if (this.options.sync) this.syncBook = book;
+    }
+    this.targetBook = book;
+    this.report.add({ type: 'book', status: created ? 'created' : 'unchanged', name: book.name, id: book.id, url: this.client.bookUrl(book.slug) });
+
+    return book;
+  }
+
+  // Try the manifest's book, then by name or ID
+  private async findBook(bookName: string, knownId?: number): Promise<Book | null> {
     let book: Book | null = null;
+
+    if (knownId) {
+      try {
+        book = await this.client.getBook(knownId);
+      } catch (error) {
+        // Deleted since the last import
+      }
+    }
     
-    if (/^\d+$/.test(bookName)) {
+    if (!book && /^\d+$/.test(bookName)) {
       // It's a numeric ID
       try {
         book = await this.client.getBook(parseInt(bookName));
@@ -478,18 +1289,6 @@ export class ImportCommand {
       // Try to find by name
       book = await this.client.findBookByName(bookName);
     }
-    
-    if (!book) {
-      console.log(`${icons.info} Book not found, creating: ${c.bold(bookName)}`);
-      book = await this.client.createBook({
-        name: bookName,
-        description: `Book created by bookstack-cli import`
-      });
-      console.log(`${icons.success} Created book: ${book.name} ${c.gray(`(ID: ${book.id})`)}`);
-    } else {
-      console.log(`${icons.success} Using existing book: ${book.name} ${c.gray(`(ID: ${book.id})`)}`);
-    }
-    
     return book;
   }
 
@@ -518,46 +1317,13 @@ export class ImportCommand {
       case 'html':
         return content;
       case 'markdown':
-        // Simple markdown to HTML conversion (basic)
-        return this.simpleMarkdownToHtml(content);
+        return renderMarkdown(content);
       default:
         // Treat as plain text
         return `<pre>${this.escapeHtml(content)}</pre>`;
     }
   }
 
-  private simpleMarkdownToHtml(markdown: string): string {
-    let html = markdown;
-    
-    // Headers
-    html = html.replace(/^### (.*$)/gm, '<h3>$1</h3>');
-    html = html.replace(/^## (.*$)/gm, '<h2>$1</h2>');
-    html = html.replace(/^# (.*$)/gm, '<h1>$1</h1>');
-    
-    // Bold and italic
-    html = html.replace(/\*\*\*(.*?)\*\*\*/g, '<strong><em>$1</em></strong>');
-    html = html.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
-    html = html.replace(/\*(.*?)\*/g, '<em>$1</em>');
-    
-    // Links
-    html = html.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2">$1</a>');
-    
-    // Code blocks
-    html = html.replace(/```([\s\S]*?)```/g, '<pre><code>$1</code></pre>');
-    html = html.replace(/`([^`]+)`/g, '<code>$1</code>');
-    
-    // Line breaks
-    html = html.replace(/\n\n/g, '</p><p>');
-    html = html.replace(/\n/g, '<br>');
-    
-    // Wrap in paragraphs if not already wrapped
-    if (!html.includes('<p>') && !html.includes('<h1>') && !html.includes('<h2>') && !html.includes('<h3>')) {
-      html = `<p>${html}</p>`;
-    }
-    
-    return html;
-  }
-
   private escapeHtml(text: string): string {
     return text
       .replace(/&/g, '&amp;')
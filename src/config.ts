@@ -8,6 +8,9 @@ export interface ResolvedConfig {
   url?: string;
   tokenId?: string;
   tokenSecret?: string;
+  retries?: number;
+  retryDelay?: number;
+  retryMaxDelay?: number;
   source?: string;
 }
 
@@ -34,10 +37,19 @@ function normalize(obj: RawConfig | undefined | null): ResolvedConfig {
     url: (get('url') || get('baseUrl') || get('base_url'))?.toString(),
     tokenId: (get('tokenId') || get('token_id'))?.toString(),
     tokenSecret: (get('tokenSecret') || get('token_secret'))?.toString(),
+    retries: toNumber(obj['retries']),
+    retryDelay: toNumber(obj['retryDelay'] ?? obj['retry_delay']),
+    retryMaxDelay: toNumber(obj['retryMaxDelay'] ?? obj['retry_max_delay']),
   };
   return result;
 }
 
+function toNumber(value: unknown): number | undefined {
+  if (value == null || value === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
 async function readConfigFile(filePath: string): Promise<ResolvedConfig> {
   const ext = path.extname(filePath).toLowerCase();
   const base = path.basename(filePath).toLowerCase();
@@ -90,12 +102,27 @@ function fromEnv(): ResolvedConfig {
   const url = env.BOOKSTACK_URL || env.BOOKSTACK_BASE_URL || env.BOOKSTACK_HOST;
   const tokenId = env.BOOKSTACK_TOKEN_ID || env.BOOKSTACK_ID;
   const tokenSecret = env.BOOKSTACK_TOKEN_SECRET || env.BOOKSTACK_SECRET;
-  return { url, tokenId, tokenSecret, source: 'env' };
+  return {
+    url,
+    tokenId,
+    tokenSecret,
+    retries: toNumber(env.BOOKSTACK_RETRIES),
+    retryDelay: toNumber(env.BOOKSTACK_RETRY_DELAY),
+    retryMaxDelay: toNumber(env.BOOKSTACK_RETRY_MAX_DELAY),
+    source: 'env',
+  };
 }
 
 export async function resolveConfig(opts: {
   explicitPath?: string;
-  cli?: { url?: string; tokenId?: string; tokenSecret?: string };
+  cli?: {
+    url?: string;
+    tokenId?: string;
+    tokenSecret?: string;
+    retries?: number;
+    retryDelay?: number;
+    retryMaxDelay?: number;
+  };
 }): Promise<ResolvedConfig> {
   const fileConf = await findFileConfig(opts.explicitPath);
   const envConf = fromEnv();
@@ -105,6 +132,9 @@ export async function resolveConfig(opts: {
     url: cliConf.url || envConf.url || fileConf.url,
     tokenId: cliConf.tokenId || envConf.tokenId || fileConf.tokenId,
     tokenSecret: cliConf.tokenSecret || envConf.tokenSecret || fileConf.tokenSecret,
+    retries: cliConf.retries ?? envConf.retries ?? fileConf.retries,
+    retryDelay: cliConf.retryDelay ?? envConf.retryDelay ?? fileConf.retryDelay,
+    retryMaxDelay: cliConf.retryMaxDelay ?? envConf.retryMaxDelay ?? fileConf.retryMaxDelay,
     source: cliConf.url || cliConf.tokenId || cliConf.tokenSecret
       ? 'cli'
       : envConf.url || envConf.tokenId || envConf.tokenSecret
@@ -0,0 +1,121 @@
+// Export manifest: what the last `book export-contents` wrote where, so --since can skip
+// unchanged pages and tidy up after renamed and deleted ones
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { isWithin } from './archive';
+
+export const EXPORT_STATE_FILE = '.bookstack-export.json';
+export const EXPORT_STATE_VERSION = 1;
+
+export interface ExportedPage {
+  path: string; // page folder (nested) or file (legacy), relative to the output directory
+  updatedAt?: string; // remote updated_at when it was written
+  priority?: number;
+}
+
+export interface ExportState {
+  version: number;
+  target: string; // "book:<id>:<structure>:<format>"; another target's state is not used
+  exportedAt: string;
+  watermark?: string; // newest updated_at among the exported pages
+  chapters: Record<string, string>; // chapter ID -> folder
+  pages: Record<string, ExportedPage>; // page ID -> where it was written
+}
+
+// A page of the book as this run would write it
+export interface PlannedPage {
+  id: number;
+  path: string;
+  updatedAt?: string;
+  priority?: number;
+}
+
+export interface ExportPlan {
+  export: Set<number>; // page IDs to write
+  moves: { id: number; from: string; to: string }[]; // pages renamed or moved since the last run
+  removals: string[]; // pages deleted since the last run
+  staleChapters: string[]; // chapter folders no longer in use
+}
+
+export async function loadExportState(dir: string, target: string): Promise<ExportState | undefined> {
+  const file = path.join(dir, EXPORT_STATE_FILE);
+  if (!(await fs.pathExists(file))) return undefined;
+  try {
+    const data = await fs.readJson(file);
+    if (data?.version !== EXPORT_STATE_VERSION) throw new Error(`unsupported version ${JSON.stringify(data?.version)}`);
+    if (data.target !== target) throw new Error(`it records a different export (${data.target})`);
+    const state: ExportState = { chapters: {}, pages: {}, ...data };
+    // Paths in the file decide what gets moved and removed, so none may reach outside the export
+    const unsafe = [...Object.values(state.pages).map((p) => p?.path), ...Object.values(state.chapters)].find((rel) => !insideExport(dir, rel));
+    if (unsafe !== undefined) throw new Error(`it lists a path outside the export directory (${JSON.stringify(unsafe)})`);
+    return state;
+  } catch (e) {
+    console.warn(`Warning: ignoring ${file}: ${(e as Error).message}`);
+    return undefined;
+  }
+}
+
+// The record of this run; the watermark is the newest updated_at among the pages
+export function buildExportState(target: string, pages: PlannedPage[], chapters: Record<string, string>): ExportState {
+  const stamps = pages.map((p) => p.updatedAt).filter((t): t is string => !!t);
+  return {
+    version: EXPORT_STATE_VERSION,
+    target,
+    exportedAt: new Date().toISOString(),
+    watermark: stamps.sort((a, b) => Date.parse(a) - Date.parse(b)).pop(),
+    chapters,
+    pages: Object.fromEntries(pages.map((p) => [p.id, { path: p.path, updatedAt: p.updatedAt, priority: p.priority }])),
+  };
+}
+
+export async function saveExportState(dir: string, state: ExportState): Promise<void> {
+  await fs.writeFile(path.join(dir, EXPORT_STATE_FILE), JSON.stringify(state, null, 2) + '\n');
+}
+
+// A page is written when it is new since the last run, changed since `since` (for "last", its
+// updated_at differs from the one recorded), reordered, or missing locally. Renamed and moved
+// pages keep their files, which are moved to the new place.
+export async function planExport(outRoot: string, pages: PlannedPage[], chapterDirs: string[], previous: ExportState | undefined, since: 'last' | Date): Promise<ExportPlan> {
+  const plan: ExportPlan = { export: new Set(), moves: [], removals: [], staleChapters: [] };
+  for (const page of pages) {
+    const prev = previous?.pages[page.id];
+    const updated = since === 'last'
+      ? !prev || page.updatedAt !== prev.updatedAt
+      : !page.updatedAt || Date.parse(page.updatedAt) > since.getTime() || (!!previous && !prev);
+    let from = page.path;
+    if (prev && prev.path !== page.path && (await fs.pathExists(path.join(outRoot, prev.path)))) {
+      plan.moves.push({ id: page.id, from: prev.path, to: page.path });
+      from = prev.path;
+    }
+    const missing = !(await fs.pathExists(path.join(outRoot, from)));
+    if (updated || missing || (prev && prev.priority !== page.priority)) plan.export.add(page.id);
+  }
+  const current = new Set(pages.map((p) => String(p.id)));
+  for (const [id, prev] of Object.entries(previous?.pages || {})) {
+    if (!current.has(id)) plan.removals.push(prev.path);
+  }
+  const inUse = new Set(chapterDirs);
+  plan.staleChapters = [...new Set(Object.values(previous?.chapters || {}))].filter((dir) => !inUse.has(dir));
+  return plan;
+}
+
+// Whether a recorded path names something strictly below the export directory
+function insideExport(outRoot: string, rel: unknown): boolean {
+  return typeof rel === 'string' && path.resolve(outRoot, rel) !== path.resolve(outRoot) && isWithin(outRoot, rel);
+}
+
+// Deleted pages go first, so a renamed page can take over a deleted page's place
+export async function applyExportPlan(outRoot: string, plan: ExportPlan): Promise<void> {
+  const paths = [...plan.removals, ...plan.moves.flatMap((m) => [m.from, m.to]), ...plan.staleChapters];
+  const unsafe = paths.find((rel) => !insideExport(outRoot, rel));
+  if (unsafe !== undefined) throw new Error(`Refusing to change ${unsafe}: it is outside the export directory ${outRoot}`);
+  for (const rel of plan.removals) await fs.remove(path.join(outRoot, rel));
+  for (const { from, to } of plan.moves) await fs.move(path.join(outRoot, from), path.join(outRoot, to), { overwrite: true });
+  // A renamed or deleted chapter's folder is left with its metadata at most
+  for (const rel of plan.staleChapters) {
+    const dir = path.join(outRoot, rel);
+    if (!(await fs.pathExists(dir))) continue;
+    const left = (await fs.readdir(dir)).filter((name) => name !== '.chapter-metadata.json');
+    if (!left.length) await fs.remove(dir);
+  }
+}
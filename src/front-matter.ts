@@ -0,0 +1,62 @@
+// YAML front matter for imported markdown pages
+import { parse as parseYaml } from 'yaml';
+import { Tag } from './bookstack-client';
+import { normalizeTags } from './tags';
+
+export interface PageMetadata {
+  name?: string;
+  priority?: number;
+  tags?: Tag[];
+  template?: boolean;
+}
+
+export type MetadataPrecedence = 'front-matter' | 'sidecar';
+
+// "---" on the first line, then YAML, then a closing "---" (or "...") line
+const FRONT_MATTER_RE = /^\uFEFF?---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+export function splitFrontMatter(content: string): { yaml: string | null; body: string } {
+  const m = content.match(FRONT_MATTER_RE);
+  if (!m) return { yaml: null, body: content };
+  return { yaml: m[1] ?? '', body: content.slice(m[0].length) };
+}
+
+// Returns the page metadata found in the front matter and the body without it.
+// Throws when the YAML is malformed or a field has the wrong type.
+export function parseFrontMatter(content: string): { meta: PageMetadata; body: string } {
+  const { yaml, body } = splitFrontMatter(content);
+  if (yaml == null) return { meta: {}, body };
+  const data = parseYaml(yaml) ?? {};
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('front matter must be a YAML mapping');
+  }
+  return { meta: toPageMetadata(data as Record<string, unknown>), body };
+}
+
+function toPageMetadata(data: Record<string, unknown>): PageMetadata {
+  const meta: PageMetadata = {};
+  const name = data.title ?? data.name;
+  if (name != null) meta.name = String(name);
+  if (data.priority != null) {
+    const priority = Number(data.priority);
+    if (!Number.isInteger(priority)) throw new Error(`priority must be an integer, got ${JSON.stringify(data.priority)}`);
+    meta.priority = priority;
+  }
+  const tags = normalizeTags(data.tags);
+  if (tags) meta.tags = tags;
+  if (data.template != null) {
+    if (typeof data.template !== 'boolean') throw new Error(`template must be true or false, got ${JSON.stringify(data.template)}`);
+    meta.template = data.template;
+  }
+  return meta;
+}
+
+// Field-by-field merge: the preferred source wins wherever it sets a field
+export function mergePageMetadata(sidecar: PageMetadata, frontMatter: PageMetadata, precedence: MetadataPrecedence = 'front-matter'): PageMetadata {
+  const [base, preferred] = precedence === 'sidecar' ? [frontMatter, sidecar] : [sidecar, frontMatter];
+  const merged: PageMetadata = { ...base };
+  for (const [key, value] of Object.entries(preferred)) {
+    if (value !== undefined) (merged as Record<string, unknown>)[key] = value;
+  }
+  return merged;
+}
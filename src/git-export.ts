@@ -0,0 +1,165 @@
+// Commits export-contents output with the local git binary, authored by the BookStack users
+// who made the changes
+import { execFile } from 'child_process';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { PageRevision, UserRef } from './bookstack-client';
+import { EXPORT_STATE_FILE } from './export-state';
+import { JOURNAL_FILE } from './checkpoint';
+
+export type GitMode = 'run' | 'revisions';
+export const GIT_MODES: GitMode[] = ['run', 'revisions'];
+
+export interface GitAuthor {
+  name: string;
+  email: string;
+  date: string; // ISO timestamp
+}
+
+// Files export-contents keeps for itself; they change on every run
+const UNTRACKED = [EXPORT_STATE_FILE, JOURNAL_FILE];
+
+// Committer for machines without a git identity configured
+const FALLBACK_COMMITTER = { GIT_COMMITTER_NAME: 'bookstack-cli', GIT_COMMITTER_EMAIL: 'bookstack-cli@localhost' };
+
+function git(cwd: string, args: string[], env?: NodeJS.ProcessEnv): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, env, maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if ((error as NodeJS.ErrnoException | null)?.code === 'ENOENT') reject(new Error('git was not found on PATH; --git needs the git command line tool'));
+      else if (error) reject(new Error(`git ${args[0]} failed: ${String(stderr).trim() || error.message}`));
+      else resolve(String(stdout));
+    });
+  });
+}
+
+// The export directory, in its own repository or one it is part of. Staging and commits
+// only take in paths below the directory.
+export class GitRepo {
+  private constructor(readonly dir: string, private env: NodeJS.ProcessEnv) {}
+
+  static async open(dir: string): Promise<GitRepo> {
+    await fs.ensureDir(dir);
+    const inside = await git(dir, ['rev-parse', '--is-inside-work-tree']).then((out) => out.trim() === 'true', () => false);
+    if (!inside) await git(dir, ['init', '-q']);
+
+    const exclude = path.resolve(dir, (await git(dir, ['rev-parse', '--git-path', 'info/exclude'])).trim());
+    const current = (await fs.pathExists(exclude)) ? await fs.readFile(exclude, 'utf8') : '';
+    const missing = UNTRACKED.filter((name) => !current.split(/\r?\n/).includes(name));
+    if (missing.length) await fs.outputFile(exclude, `${current}${current && !current.endsWith('\n') ? '\n' : ''}${missing.join('\n')}\n`);
+
+    const hasIdentity = await git(dir, ['var', 'GIT_COMMITTER_IDENT']).then(() => true, () => false);
+    return new GitRepo(dir, hasIdentity ? process.env : { ...process.env, ...FALLBACK_COMMITTER });
+  }
+
+  // Stages `paths` (additions, changes and deletions) and lists what changed, relative to the directory
+  async stage(paths = ['.']): Promise<string[]> {
+    await git(this.dir, ['add', '-A', '--', ...paths], this.env);
+    const out = await git(this.dir, ['diff', '--cached', '--name-only', '--relative', '-z', '--', ...paths], this.env);
+    return out.split('\0').filter(Boolean);
+  }
+
+  // The short hash of the new commit, or undefined when `paths` have no changes
+  async commit(message: string, author?: GitAuthor, paths = ['.']): Promise<string | undefined> {
+    if (!(await this.stage(paths)).length) return undefined;
+    const env = author
+      ? { ...this.env, GIT_AUTHOR_NAME: author.name, GIT_AUTHOR_EMAIL: author.email, GIT_AUTHOR_DATE: gitDate(author.date) }
+      : this.env;
+    await git(this.dir, ['commit', '-q', '-m', message, '--', ...paths], env);
+    return (await git(this.dir, ['rev-parse', '--short', 'HEAD'], this.env)).trim();
+  }
+}
+
+// Seconds since the epoch, which git reads whatever the fraction and zone format of the timestamp
+function gitDate(iso: string): string {
+  return `@${Math.floor(Date.parse(iso) / 1000)} +0000`;
+}
+
+// BookStack has no user emails in its API; the user's slug at the instance host stands in
+export function gitAuthor(user: UserRef | number | undefined, at: string | undefined, host: string): GitAuthor | undefined {
+  if (!user || typeof user === 'number' || !at || Number.isNaN(Date.parse(at))) return undefined;
+  return { name: user.name, email: `${user.slug || `user-${user.id}`}@${host}`, date: at };
+}
+
+// "Co-authored-by" trailers for everyone but the commit author, in the order given
+export function coAuthorTrailers(author: GitAuthor, others: GitAuthor[]): string {
+  const seen = new Set([`${author.name} <${author.email}>`]);
+  const lines: string[] = [];
+  for (const other of others) {
+    const ident = `${other.name} <${other.email}>`;
+    if (seen.has(ident)) continue;
+    seen.add(ident);
+    lines.push(`Co-authored-by: ${ident}`);
+  }
+  return lines.length ? `\n\n${lines.join('\n')}` : '';
+}
+
+export interface RevisionClient {
+  getPageRevisions(pageId: number): Promise<PageRevision[] | undefined>;
+  getPageRevision(pageId: number, revisionId: number): Promise<PageRevision>;
+}
+
+// A page whose revisions are replayed into `file` (relative to the repository directory)
+export interface ReplayPage {
+  id: number;
+  name: string;
+  file: string;
+  after?: string; // only revisions saved after this time; the previous export's updated_at
+}
+
+// The revision body in the export format, when the revision has one
+function revisionContent(rev: PageRevision, format: string): string | undefined {
+  if (format === 'markdown') return rev.markdown || undefined;
+  if (format === 'html') return rev.html || undefined;
+  return rev.text || undefined;
+}
+
+// Writes each page revision into the page's file and commits it as the revision's author, oldest
+// first across all pages. Returns the number of commits, or undefined when the instance has no
+// revisions API. Revisions without content in `format` (e.g. markdown for WYSIWYG pages) are skipped.
+export async function replayRevisions(repo: GitRepo, client: RevisionClient, pages: ReplayPage[], format: string, host: string): Promise<number | undefined> {
+  const pending: { page: ReplayPage; rev: PageRevision }[] = [];
+  for (const page of pages) {
+    const revisions = await client.getPageRevisions(page.id);
+    if (!revisions) return undefined;
+    const after = page.after ? Date.parse(page.after) : -Infinity;
+    for (const rev of revisions) {
+      if (Date.parse(rev.created_at) > after) pending.push({ page, rev });
+    }
+  }
+  pending.sort((a, b) => Date.parse(a.rev.created_at) - Date.parse(b.rev.created_at) || a.rev.id - b.rev.id);
+
+  let commits = 0;
+  for (const { page, rev } of pending) {
+    const full = rev.html === undefined && rev.markdown === undefined ? await client.getPageRevision(page.id, rev.id) : rev;
+    const content = revisionContent(full, format);
+    if (content === undefined) continue;
+    await fs.outputFile(path.join(repo.dir, page.file), content);
+    const message = `Update ${rev.name || page.name}${rev.summary ? `\n\n${rev.summary}` : ''}`;
+    if (await repo.commit(message, gitAuthor(full.created_by ?? rev.created_by, rev.created_at, host), [page.file])) commits += 1;
+  }
+  return commits;
+}
+
+export interface RunPage {
+  id: number;
+  name: string;
+  path: string; // page file, or page folder, relative to the repository directory
+}
+
+// Commits everything the run changed. The author is whoever edited a changed page last, with the
+// other editors as co-authors; a run that only changed metadata keeps the committer as author.
+export async function commitRun(repo: GitRepo, client: { getPage(id: number): Promise<{ updated_by?: UserRef | number; updated_at: string }> }, subject: string, pages: RunPage[], host: string): Promise<string | undefined> {
+  const changed = await repo.stage();
+  if (!changed.length) return undefined;
+  const touched = pages.filter((p) => changed.some((file) => file === p.path || file.startsWith(`${p.path}/`)));
+  const authors: GitAuthor[] = [];
+  for (const page of touched) {
+    const full = await client.getPage(page.id);
+    const author = gitAuthor(full.updated_by, full.updated_at, host);
+    if (author) authors.push(author);
+  }
+  authors.sort((a, b) => Date.parse(b.date) - Date.parse(a.date));
+  const body = touched.length ? `\n\n${touched.map((p) => `- ${p.name}`).join('\n')}` : '';
+  const message = `${subject}${body}${authors.length ? coAuthorTrailers(authors[0], authors.slice(1)) : ''}`;
+  return repo.commit(message, authors[0]);
+}
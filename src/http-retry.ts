@@ -0,0 +1,121 @@
+// Retry with exponential backoff for the BookStack HTTP client
+import { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+export interface RetryOptions {
+  retries?: number; // attempts after the first request (default: 3)
+  baseDelayMs?: number; // first backoff step (default: 500)
+  maxDelayMs?: number; // backoff ceiling; Retry-After may exceed it (default: 30000)
+  onRetry?: (info: RetryInfo) => void;
+}
+
+export interface RetryInfo {
+  attempt: number;
+  retries: number;
+  delayMs: number;
+  method: string;
+  url: string;
+  status?: number;
+  code?: string;
+}
+
+export const DEFAULT_RETRIES = 3;
+export const DEFAULT_RETRY_DELAY_MS = 500;
+export const DEFAULT_RETRY_MAX_DELAY_MS = 30000;
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+const RETRYABLE_STATUSES = [502, 503, 504];
+const RETRYABLE_CODES = ['ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'ECONNREFUSED', 'EPIPE'];
+
+type RetryConfig = InternalAxiosRequestConfig & { __retryCount?: number };
+
+export function attachRetry(instance: AxiosInstance, opts: RetryOptions = {}): void {
+  const retries = Math.max(0, opts.retries ?? DEFAULT_RETRIES);
+  const baseDelayMs = Math.max(0, opts.baseDelayMs ?? DEFAULT_RETRY_DELAY_MS);
+  const maxDelayMs = Math.max(baseDelayMs, opts.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS);
+
+  // Once the server reports an exhausted rate limit, hold further requests until it resets
+  let pausedUntil = 0;
+
+  instance.interceptors.request.use(async (config) => {
+    const wait = pausedUntil - Date.now();
+    if (wait > 0) await sleep(wait);
+    return config;
+  });
+
+  instance.interceptors.response.use(
+    (response: AxiosResponse) => {
+      const headers = response.headers || {};
+      if (String(headerValue(headers, 'x-ratelimit-remaining')) === '0') {
+        const resumeIn = parseRetryAfter(headers);
+        if (resumeIn != null) pausedUntil = Math.max(pausedUntil, Date.now() + resumeIn);
+      }
+      return response;
+    },
+    async (error: AxiosError) => {
+      const config = error.config as RetryConfig | undefined;
+      if (!config || !isRetryable(error)) throw error;
+      const attempt = (config.__retryCount ?? 0) + 1;
+      if (attempt > retries) throw error;
+      config.__retryCount = attempt;
+
+      const retryAfter = error.response ? parseRetryAfter(error.response.headers || {}) : null;
+      const delayMs = retryAfter ?? backoffDelay(attempt, baseDelayMs, maxDelayMs);
+      if (retryAfter != null) pausedUntil = Math.max(pausedUntil, Date.now() + retryAfter);
+      opts.onRetry?.({
+        attempt,
+        retries,
+        delayMs,
+        method: (config.method || 'get').toUpperCase(),
+        url: config.url || '',
+        status: error.response?.status,
+        code: error.code,
+      });
+      await sleep(delayMs);
+      return instance.request(config);
+    },
+  );
+}
+
+// 429 means the request was rejected before being processed, so any method may retry.
+// Server errors and dropped connections only retry for idempotent methods.
+export function isRetryable(error: AxiosError): boolean {
+  const method = (error.config?.method || 'get').toLowerCase();
+  const status = error.response?.status;
+  if (status === 429) return true;
+  if (!IDEMPOTENT_METHODS.includes(method)) return false;
+  if (status != null) return RETRYABLE_STATUSES.includes(status);
+  return !!error.code && RETRYABLE_CODES.includes(error.code);
+}
+
+// Exponential backoff with "equal jitter": half fixed, half random
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number, random = Math.random): number {
+  const exp = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(exp / 2 + random() * (exp / 2));
+}
+
+// Milliseconds to wait from Retry-After (seconds or HTTP date) or X-RateLimit-Reset (epoch seconds)
+export function parseRetryAfter(headers: Record<string, any>, now = Date.now()): number | null {
+  const retryAfter = headerValue(headers, 'retry-after');
+  if (retryAfter != null && retryAfter !== '') {
+    const secs = Number(retryAfter);
+    if (Number.isFinite(secs)) return Math.max(0, secs * 1000);
+    const date = Date.parse(String(retryAfter));
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+  const reset = Number(headerValue(headers, 'x-ratelimit-reset'));
+  if (Number.isFinite(reset) && reset > 0) return Math.max(0, reset * 1000 - now);
+  return null;
+}
+
+function headerValue(headers: Record<string, any>, name: string): any {
+  if (typeof headers.get === 'function') {
+    const v = headers.get(name);
+    if (v != null) return v;
+  }
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  return key ? headers[key] : undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
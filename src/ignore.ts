@@ -0,0 +1,164 @@
+// .bookstackignore (gitignore syntax) and --include/--exclude globs for directory imports
+import * as path from 'path';
+import { SourceFs } from './source-fs';
+
+export const IGNORE_FILE = '.bookstackignore';
+
+export interface IgnoreRule {
+  pattern: string;
+  negate: boolean;
+  dirOnly: boolean;
+  regex: RegExp; // matched against the path relative to the rule's base directory
+}
+
+// One rule per meaningful line: blank lines and "#" comments are skipped, "!" re-includes,
+// a trailing "/" only matches directories, and a "/" anywhere else anchors the pattern to
+// the ignore file's directory instead of matching at any depth
+export function parseIgnore(text: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+    const rule = compileRule(line);
+    if (rule) rules.push(rule);
+  }
+  return rules;
+}
+
+export function compileRule(line: string): IgnoreRule | null {
+  let pattern = line;
+  let negate = false;
+  if (pattern.startsWith('!')) {
+    negate = true;
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+    pattern = pattern.slice(1);
+  }
+  const dirOnly = pattern.endsWith('/');
+  if (dirOnly) pattern = pattern.replace(/\/+$/, '');
+  if (!pattern) return null;
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\//, '');
+  const source = globToRegExp(pattern);
+  const regex = new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`);
+  return { pattern: line, negate, dirOnly, regex };
+}
+
+// "*" and "?" stay within one path segment, "**" spans segments, "[...]" is a character class
+export function globToRegExp(glob: string): string {
+  let out = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        const slash = glob[i + 2] === '/';
+        out += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        out += '[^/]*';
+      }
+    } else if (ch === '?') {
+      out += '[^/]';
+    } else if (ch === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) {
+        out += '\\[';
+      } else {
+        const body = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        out += `[${body}]`;
+        i = end;
+      }
+    } else if (ch === '\\' && i + 1 < glob.length) {
+      out += escapeRegExp(glob[++i]);
+    } else {
+      out += escapeRegExp(ch);
+    }
+  }
+  return out;
+}
+
+// The last matching rule wins, as in git
+export function matchRules(rules: IgnoreRule[], rel: string, isDir: boolean): boolean | undefined {
+  let ignored: boolean | undefined;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) continue;
+    if (rule.regex.test(rel)) ignored = !rule.negate;
+  }
+  return ignored;
+}
+
+// Decides which entries under an import root are imported. Ignore files are read
+// lazily from every directory on the way down, so nested ones only affect their subtree.
+export class SourceFilter {
+  private ignoreFiles = new Map<string, Promise<IgnoreRule[]>>();
+  private ignoredDirs = new Map<string, Promise<boolean>>();
+  private exclude: IgnoreRule[];
+  private include: IgnoreRule[];
+
+  constructor(
+    private src: SourceFs,
+    private root: string,
+    options: { include?: string[]; exclude?: string[] } = {},
+  ) {
+    this.exclude = (options.exclude || []).map(compileRule).filter((r): r is IgnoreRule => !!r);
+    this.include = (options.include || []).map(compileRule).filter((r): r is IgnoreRule => !!r);
+  }
+
+  // --include only narrows files; directories are always entered unless ignored
+  async accepts(p: string, isDir: boolean): Promise<boolean> {
+    if (await this.isIgnored(p, isDir)) return false;
+    if (isDir || !this.include.length) return true;
+    return !!matchRules(this.include, this.rel(this.root, p), false);
+  }
+
+  private async isIgnored(p: string, isDir: boolean): Promise<boolean> {
+    const parent = path.dirname(p);
+    // Nothing inside an ignored directory can be re-included
+    if (parent !== this.root && (await this.isIgnoredDir(parent))) return true;
+
+    let ignored = false;
+    for (const dir of this.ancestors(parent)) {
+      const result = matchRules(await this.rulesIn(dir), this.rel(dir, p), isDir);
+      if (result !== undefined) ignored = result;
+    }
+    const cli = matchRules(this.exclude, this.rel(this.root, p), isDir);
+    return cli || ignored;
+  }
+
+  private isIgnoredDir(dir: string): Promise<boolean> {
+    let cached = this.ignoredDirs.get(dir);
+    if (!cached) {
+      cached = this.isIgnored(dir, true);
+      this.ignoredDirs.set(dir, cached);
+    }
+    return cached;
+  }
+
+  private rulesIn(dir: string): Promise<IgnoreRule[]> {
+    let rules = this.ignoreFiles.get(dir);
+    if (!rules) {
+      const file = path.join(dir, IGNORE_FILE);
+      rules = (async () => ((await this.src.pathExists(file)) ? parseIgnore(await this.src.readText(file)) : []))();
+      this.ignoreFiles.set(dir, rules);
+    }
+    return rules;
+  }
+
+  // Root first, so deeper ignore files override shallower ones
+  private ancestors(dir: string): string[] {
+    const chain = [dir];
+    for (let current = dir; current !== this.root && current !== path.dirname(current); ) {
+      current = path.dirname(current);
+      chain.unshift(current);
+    }
+    return chain;
+  }
+
+  private rel(base: string, p: string): string {
+    return path.relative(base, p).split(path.sep).join('/');
+  }
+}
+
+function escapeRegExp(ch: string): string {
+  return ch.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
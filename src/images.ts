@@ -0,0 +1,132 @@
+// Helpers for matching image-gallery entries against page content
+import * as path from 'path';
+import { ImageItem } from './bookstack-client';
+
+export interface PageContent {
+  id: number;
+  name: string;
+  html?: string;
+  markdown?: string;
+}
+
+// Matches /uploads/images/... paths inside absolute URLs, relative src attributes and markdown links
+const UPLOAD_PATH_RE = /\/uploads\/images\/[^\s"'()<>?#]+/g;
+const DRAWIO_RE = /drawio-diagram=["']?(\d+)/g;
+
+// Scaled and thumbnail variants live in sibling folders of the original:
+//   /uploads/images/gallery/2024-01/scaled-1680-/a.png
+//   /uploads/images/gallery/2024-01/thumbs-150-150/a.png
+export function normalizeImagePath(urlOrPath: string): string {
+  let p = urlOrPath;
+  const idx = p.indexOf('/uploads/images/');
+  if (idx > 0) p = p.slice(idx);
+  p = p.replace(/[?#].*$/, '');
+  try {
+    p = decodeURIComponent(p);
+  } catch {}
+  return p.replace(/\/(scaled-\d+-|thumbs-\d+-\d+)\//, '/');
+}
+
+export function imagePathOf(image: ImageItem): string | null {
+  const source = image.path || image.url;
+  return source ? normalizeImagePath(source) : null;
+}
+
+export function extractImageReferences(content: string): { paths: Set<string>; drawioIds: Set<number> } {
+  const paths = new Set<string>();
+  const drawioIds = new Set<number>();
+  for (const m of content.matchAll(UPLOAD_PATH_RE)) paths.add(normalizeImagePath(m[0]));
+  for (const m of content.matchAll(DRAWIO_RE)) drawioIds.add(parseInt(m[1], 10));
+  return { paths, drawioIds };
+}
+
+export interface OrphanReport {
+  orphans: ImageItem[];
+  referenced: number;
+  scannedPages: number;
+}
+
+// An image is referenced when any page's HTML or markdown points at its file
+// (or, for drawings, embeds its drawio-diagram ID). Images without a known path
+// are never reported, since they cannot be matched.
+export function findOrphanImages(images: ImageItem[], pages: PageContent[]): OrphanReport {
+  const paths = new Set<string>();
+  const drawioIds = new Set<number>();
+  for (const page of pages) {
+    const refs = extractImageReferences(`${page.html || ''}\n${page.markdown || ''}`);
+    refs.paths.forEach((p) => paths.add(p));
+    refs.drawioIds.forEach((id) => drawioIds.add(id));
+  }
+  const orphans = images.filter((img) => {
+    if (drawioIds.has(img.id)) return false;
+    const p = imagePathOf(img);
+    return !!p && !paths.has(p);
+  });
+  return { orphans, referenced: images.length - orphans.length, scannedPages: pages.length };
+}
+
+// Local image references in imported files: ![alt](./img/a.png) and <img src="img/a.png">
+const MD_IMAGE_RE = /(!\[[^\]]*\]\(\s*)(<[^>\n]+>|[^\s)]+)((?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?\s*\))/g;
+const HTML_IMG_RE = /(<img\b[^>]*?\bsrc\s*=\s*)(["'])([^"']+)\2/gi;
+const UPLOADABLE_IMAGE_EXTS = ['.png', '.jpg', '.jpeg', '.gif', '.webp'];
+
+export interface LocalImageRef {
+  ref: string; // as written in the source, e.g. ./img/a.png
+  filePath: string; // resolved against the source file's directory
+}
+
+export function isLocalImageRef(ref: string): boolean {
+  if (!ref || ref.startsWith('/') || ref.startsWith('#')) return false;
+  if (/^[a-z][a-z0-9+.-]*:/i.test(ref) || ref.startsWith('//')) return false; // http:, data:, protocol-relative
+  return UPLOADABLE_IMAGE_EXTS.includes(path.extname(stripQuery(ref)).toLowerCase());
+}
+
+export function findLocalImageRefs(content: string, format: string, baseDir: string): LocalImageRef[] {
+  const refs = new Map<string, LocalImageRef>();
+  const add = (ref: string) => {
+    if (!isLocalImageRef(ref) || refs.has(ref)) return;
+    refs.set(ref, { ref, filePath: path.resolve(baseDir, decodePath(stripQuery(ref))) });
+  };
+  if (format === 'markdown') {
+    for (const m of content.matchAll(MD_IMAGE_RE)) add(unwrapAngle(m[2]));
+  }
+  for (const m of content.matchAll(HTML_IMG_RE)) add(m[3]);
+  return [...refs.values()];
+}
+
+// Replaces image references found by findLocalImageRefs; other text is left untouched
+export function rewriteImageRefs(content: string, format: string, urls: Map<string, string>): string {
+  let out = content;
+  if (format === 'markdown') {
+    out = out.replace(MD_IMAGE_RE, (whole, open: string, target: string, close: string) => {
+      const url = urls.get(unwrapAngle(target));
+      return url ? `${open}${url}${close}` : whole;
+    });
+  }
+  return out.replace(HTML_IMG_RE, (whole, open: string, quote: string, src: string) => {
+    const url = urls.get(src);
+    return url ? `${open}${quote}${url}${quote}` : whole;
+  });
+}
+
+// Gallery name carrying a short content hash, so later imports can find the upload again
+export function hashedImageName(filePath: string, hash: string): string {
+  const ext = path.extname(filePath);
+  return `${path.basename(filePath, ext)}-${hash.slice(0, 12)}${ext}`;
+}
+
+function unwrapAngle(target: string): string {
+  return target.startsWith('<') && target.endsWith('>') ? target.slice(1, -1) : target;
+}
+
+function stripQuery(ref: string): string {
+  return ref.replace(/[?#].*$/, '');
+}
+
+function decodePath(ref: string): string {
+  try {
+    return decodeURIComponent(ref);
+  } catch {
+    return ref;
+  }
+}
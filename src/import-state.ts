@@ -0,0 +1,56 @@
+// Import manifest: remembers which BookStack items each local file and folder became,
+// so later imports update by ID instead of matching by name
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+export const STATE_FILE = '.bookstack-state.json';
+export const STATE_VERSION = 1;
+
+export interface PageState {
+  id: number;
+  chapterId?: number;
+  hash: string; // contentHash of the local body as last imported; finds the page again after a rename
+  updatedAt?: string; // remote updated_at after that import
+}
+
+export interface ImportState {
+  version: number;
+  book?: { id: number };
+  chapters: Record<string, { id: number }>; // chapter directory -> chapter
+  pages: Record<string, PageState>; // content file -> page
+}
+
+export function emptyState(): ImportState {
+  return { version: STATE_VERSION, chapters: {}, pages: {} };
+}
+
+// Manifest keys are relative to the import root with forward slashes, so the
+// file can be committed alongside the sources
+export function stateKey(root: string, filePath: string): string {
+  return path.relative(root, filePath).split(path.sep).join('/');
+}
+
+// A missing file means a first import; an unreadable one is reported and ignored
+export async function loadState(root: string): Promise<ImportState> {
+  const file = path.join(root, STATE_FILE);
+  if (!(await fs.pathExists(file))) return emptyState();
+  try {
+    const data = await fs.readJson(file);
+    if (data?.version !== STATE_VERSION) throw new Error(`unsupported version ${JSON.stringify(data?.version)}`);
+    return { ...emptyState(), ...data };
+  } catch (e) {
+    console.warn(`Warning: ignoring ${file}: ${(e as Error).message}`);
+    return emptyState();
+  }
+}
+
+export async function saveState(root: string, state: ImportState): Promise<void> {
+  await fs.writeFile(path.join(root, STATE_FILE), JSON.stringify(sortedState(state), null, 2) + '\n');
+}
+
+// Stable key order keeps diffs of a committed manifest small
+function sortedState(state: ImportState): ImportState {
+  const sorted = <T>(record: Record<string, T>) =>
+    Object.fromEntries(Object.keys(record).sort().map((k) => [k, record[k]]));
+  return { ...state, chapters: sorted(state.chapters), pages: sorted(state.pages) };
+}
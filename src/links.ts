@@ -0,0 +1,73 @@
+// Cross-document links in imported files: [setup](../setup/page.md#install), [guide](../guide/) and <a href="setup.html">
+import * as path from 'path';
+
+const MD_LINK_RE = /(?<!!)(\[[^\]]*\]\(\s*)(<[^>\n]+>|[^\s)]+)((?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?\s*\))/g;
+const HTML_LINK_RE = /(<a\b[^>]*?\bhref\s*=\s*)(["'])([^"']+)\2/gi;
+const DOCUMENT_EXTS = ['.md', '.markdown', '.html', '.htm'];
+
+export function isDocumentLink(target: string): boolean {
+  if (!target || target.startsWith('/') || target.startsWith('#')) return false;
+  if (/^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith('//')) return false;
+  const { path: p } = splitFragment(target);
+  // "setup/" points at a page folder or chapter directory
+  return p.endsWith('/') || DOCUMENT_EXTS.includes(path.extname(p).toLowerCase());
+}
+
+export function splitFragment(target: string): { path: string; fragment?: string } {
+  const idx = target.indexOf('#');
+  const withoutQuery = (idx === -1 ? target : target.slice(0, idx)).replace(/\?.*$/, '');
+  return idx === -1 ? { path: withoutQuery } : { path: withoutQuery, fragment: target.slice(idx + 1) };
+}
+
+export function findDocumentLinks(content: string, format: string): string[] {
+  const links = new Set<string>();
+  if (format === 'markdown') {
+    for (const m of content.matchAll(MD_LINK_RE)) links.add(unwrapAngle(m[2]));
+  }
+  for (const m of content.matchAll(HTML_LINK_RE)) links.add(m[3]);
+  return [...links].filter(isDocumentLink);
+}
+
+// Rewrites every document link the resolver knows; the rest are returned as unresolved
+export function rewriteDocumentLinks(
+  content: string,
+  format: string,
+  resolve: (target: string) => string | null,
+): { content: string; resolved: number; unresolved: string[] } {
+  let resolved = 0;
+  const unresolved = new Set<string>();
+  const replace = (target: string): string | null => {
+    if (!isDocumentLink(target)) return null;
+    const url = resolve(target);
+    if (url) resolved++;
+    else unresolved.add(target);
+    return url;
+  };
+  let out = content;
+  if (format === 'markdown') {
+    out = out.replace(MD_LINK_RE, (whole, open: string, target: string, close: string) => {
+      const url = replace(unwrapAngle(target));
+      return url ? `${open}${url}${close}` : whole;
+    });
+  }
+  out = out.replace(HTML_LINK_RE, (whole, open: string, quote: string, href: string) => {
+    const url = replace(href);
+    return url ? `${open}${quote}${url}${quote}` : whole;
+  });
+  return { content: out, resolved, unresolved: [...unresolved] };
+}
+
+// BookStack gives headings IDs of "bkmrk-" plus the first 20 characters of their
+// lowercased, dash-joined text, which matches GitHub-style anchors for plain headings
+export function bookstackAnchor(fragment: string): string {
+  let text = fragment;
+  try {
+    text = decodeURIComponent(fragment);
+  } catch {}
+  if (text.startsWith('bkmrk-')) return fragment;
+  return encodeURIComponent(`bkmrk-${text.toLowerCase().slice(0, 20)}`);
+}
+
+function unwrapAngle(target: string): string {
+  return target.startsWith('<') && target.endsWith('>') ? target.slice(1, -1) : target;
+}
@@ -0,0 +1,60 @@
+// Markdown to HTML for imported pages (CommonMark + GitHub Flavored Markdown)
+import { Marked, Tokens } from 'marked';
+
+// Common fence aliases mapped to the language names BookStack's code block picker uses
+const CODE_LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  ts: 'typescript',
+  py: 'python',
+  rb: 'ruby',
+  rs: 'rust',
+  kt: 'kotlin',
+  cs: 'csharp',
+  'c#': 'csharp',
+  'c++': 'cpp',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  console: 'bash',
+  ps1: 'powershell',
+  pwsh: 'powershell',
+  yml: 'yaml',
+  md: 'markdown',
+  htm: 'html',
+  dockerfile: 'docker',
+  golang: 'go',
+};
+
+export function codeLanguage(info: string | undefined): string | undefined {
+  const lang = (info || '').trim().split(/\s+/)[0].toLowerCase();
+  if (!lang) return undefined;
+  return CODE_LANGUAGE_ALIASES[lang] || lang;
+}
+
+const marked = new Marked({
+  gfm: true,
+  renderer: {
+    // BookStack stores code blocks as <pre><code class="language-x">, like its own editor does
+    code({ text, lang, escaped }: Tokens.Code): string {
+      const body = (escaped ? text : escapeHtml(text)).replace(/\n$/, '') + '\n';
+      const language = codeLanguage(lang);
+      const cls = language ? ` class="language-${escapeHtml(language)}"` : '';
+      return `<pre><code${cls}>${body}</code></pre>\n`;
+    },
+  },
+});
+
+export function renderMarkdown(markdown: string): string {
+  return marked.parse(markdown, { async: false }) as string;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,53 @@
+// Change detection for imported pages
+import { createHash } from 'crypto';
+import { Page, Tag } from './bookstack-client';
+
+export function normalizeMarkdown(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+$/, ''))
+    .join('\n')
+    .trim();
+}
+
+// BookStack adds bkmrk- IDs to block elements and may reflow whitespace between tags
+export function normalizeHtml(html: string): string {
+  return html
+    .replace(/\s+id=(["'])bkmrk-[^"']*\1/g, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/>\s+</g, '><')
+    .trim();
+}
+
+function normalizeTags(tags: Tag[]): string[] {
+  return tags.map((t) => `${t.name}=${t.value ?? ''}`).sort();
+}
+
+// Tag lists hold the same tags, in any order
+export function sameTags(a: Tag[] | undefined, b: Tag[] | undefined): boolean {
+  return JSON.stringify(normalizeTags(a ?? [])) === JSON.stringify(normalizeTags(b ?? []));
+}
+
+// Hash of the page body alone, which survives renames and moves
+export function contentHash(page: Partial<Page>): string {
+  const body = page.markdown !== undefined ? normalizeMarkdown(page.markdown) : normalizeHtml(page.html ?? '');
+  return createHash('sha256').update(body).digest('hex');
+}
+
+// Hash over the fields an import writes. Fields the local data leaves unset (priority,
+// tags, template) are left out, so they never count as a change.
+export function pageHash(page: Partial<Page>, fields: Partial<Page> = page): string {
+  const parts: Record<string, unknown> = { name: page.name ?? '' };
+  if (fields.markdown !== undefined) parts.markdown = normalizeMarkdown(page.markdown ?? '');
+  else parts.html = normalizeHtml(page.html ?? '');
+  if (fields.priority !== undefined) parts.priority = page.priority ?? null;
+  if (fields.tags !== undefined) parts.tags = normalizeTags(page.tags ?? []);
+  if (fields.template !== undefined) parts.template = !!page.template;
+  return createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+}
+
+// True when writing `local` over `remote` would not change anything
+export function pageUnchanged(remote: Page, local: Partial<Page>): boolean {
+  return pageHash(remote, local) === pageHash(local);
+}
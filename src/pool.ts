@@ -0,0 +1,41 @@
+// Bounded worker pool for page imports and exports
+export const DEFAULT_CONCURRENCY = 1;
+
+// Tasks start in the order they are submitted, with at most `limit` in flight.
+// After the first failure no new tasks start; drain() rethrows it once the
+// running ones have settled.
+export class TaskPool {
+  private running = new Set<Promise<void>>();
+  private error: unknown;
+  private failed = false;
+
+  constructor(public readonly limit: number = DEFAULT_CONCURRENCY) {
+    if (!Number.isInteger(limit) || limit < 1) throw new Error(`Concurrency must be a positive integer, got ${limit}`);
+  }
+
+  // Resolves once the task has started, so callers can keep walking without
+  // queueing unbounded work
+  async run(task: () => Promise<void>): Promise<void> {
+    while (this.running.size >= this.limit) await Promise.race(this.running);
+    if (this.failed) return;
+    const p: Promise<void> = task()
+      .catch((e) => {
+        if (!this.failed) {
+          this.failed = true;
+          this.error = e;
+        }
+      })
+      .finally(() => this.running.delete(p));
+    this.running.add(p);
+  }
+
+  async drain(): Promise<void> {
+    while (this.running.size) await Promise.race(this.running);
+    if (this.failed) {
+      const error = this.error;
+      this.failed = false;
+      this.error = undefined;
+      throw error;
+    }
+  }
+}
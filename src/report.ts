@@ -0,0 +1,102 @@
+// Machine-readable record of an import or export run, for --report <file> and --json
+import * as fs from 'fs-extra';
+import { isAxiosError } from 'axios';
+
+export const REPORT_VERSION = 1;
+
+// Exit code for a --continue-on-error run that finished with some failed items;
+// anything that stops a run outright still exits with 1
+export const EXIT_PARTIAL_FAILURE = 2;
+
+export type ReportStatus = 'created' | 'updated' | 'unchanged' | 'exported' | 'skipped' | 'resumed' | 'failed';
+
+export interface ReportItem {
+  type: 'book' | 'chapter' | 'page';
+  status: ReportStatus;
+  name?: string;
+  path?: string; // local file or folder, relative to the source or output directory
+  id?: number;
+  url?: string;
+  bytes?: number;
+  durationMs?: number;
+  error?: string;
+}
+
+export interface Report {
+  version: number;
+  operation: 'import' | 'export';
+  dryRun: boolean;
+  ok: boolean;
+  error?: string; // why the run stopped early
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  summary: Partial<Record<ReportStatus, number>>; // page counts per status
+  items: ReportItem[]; // in the order they finished
+}
+
+export class RunReport {
+  private items: ReportItem[] = [];
+  private startedAt = new Date();
+  error?: string;
+
+  constructor(private operation: Report['operation'], private dryRun = false) {}
+
+  add(item: ReportItem): void {
+    this.items.push(item);
+  }
+
+  get failed(): number {
+    return this.failures().length;
+  }
+
+  failures(): ReportItem[] {
+    return this.items.filter((item) => item.status === 'failed');
+  }
+
+  toJSON(): Report {
+    const finishedAt = new Date();
+    const summary: Partial<Record<ReportStatus, number>> = {};
+    for (const item of this.items) {
+      if (item.type === 'page') summary[item.status] = (summary[item.status] || 0) + 1;
+    }
+    return {
+      version: REPORT_VERSION,
+      operation: this.operation,
+      dryRun: this.dryRun,
+      ok: !this.error && !this.failed,
+      error: this.error,
+      startedAt: this.startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - this.startedAt.getTime(),
+      summary,
+      items: this.items,
+    };
+  }
+
+  // --report writes a file; --json prints to stdout, which the command keeps free of log lines
+  async emit(options: { report?: string; json?: boolean }): Promise<void> {
+    const text = JSON.stringify(this.toJSON(), null, 2) + '\n';
+    if (options.report) await fs.outputFile(options.report, text);
+    if (options.json) process.stdout.write(text);
+  }
+}
+
+// One line for the report; API errors carry BookStack's own message when there is one
+export function describeError(error: unknown): string {
+  if (isAxiosError(error)) {
+    const status = error.response?.status;
+    const detail = (error.response?.data as any)?.error?.message || error.message;
+    return status ? `HTTP ${status}: ${detail}` : detail;
+  }
+  return (error as Error)?.message || String(error);
+}
+
+// Aligned TYPE / PATH / ERROR rows for the end-of-run failure summary
+export function failureTable(items: ReportItem[]): string[] {
+  const rows = items.map((item) => [item.type, item.path || item.name || '', item.error || '']);
+  const widths = [0, 1].map((col) => Math.max(4, ...rows.map((row) => row[col].length)));
+  return [['TYPE', 'PATH', 'ERROR'], ...rows].map(
+    ([type, where, error]) => `${type.padEnd(widths[0])}  ${where.padEnd(widths[1])}  ${error}`.trimEnd(),
+  );
+}
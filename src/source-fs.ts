@@ -0,0 +1,75 @@
+// Read-only view of an import source: a directory on disk or an archive held in memory
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+export interface SourceStat {
+  isFile(): boolean;
+  isDirectory(): boolean;
+}
+
+export interface SourceFs {
+  readdir(dir: string): Promise<string[]>;
+  stat(p: string): Promise<SourceStat>;
+  pathExists(p: string): Promise<boolean>;
+  readFile(p: string): Promise<Buffer>;
+  readText(p: string): Promise<string>;
+}
+
+export const diskFs: SourceFs = {
+  // Sorted like MemoryFs, so chapters and pages are visited in the same order on every platform
+  readdir: async (dir) => (await fs.readdir(dir)).sort(),
+  stat: (p) => fs.stat(p),
+  pathExists: (p) => fs.pathExists(p),
+  readFile: (p) => fs.readFile(p),
+  readText: (p) => fs.readFile(p, 'utf8'),
+};
+
+// Files keyed by absolute path under `root`; directories are implied by the file paths
+export class MemoryFs implements SourceFs {
+  private files = new Map<string, Buffer>();
+  private dirs = new Map<string, Set<string>>();
+
+  constructor(public readonly root: string, entries: Map<string, Buffer>) {
+    this.dirs.set(root, new Set());
+    for (const [rel, data] of entries) {
+      const abs = path.join(root, rel);
+      this.files.set(abs, data);
+      let child = abs;
+      let parent = path.dirname(abs);
+      while (child !== root) {
+        if (!this.dirs.has(parent)) this.dirs.set(parent, new Set());
+        this.dirs.get(parent)!.add(path.basename(child));
+        child = parent;
+        parent = path.dirname(parent);
+      }
+    }
+  }
+
+  async readdir(dir: string): Promise<string[]> {
+    const names = this.dirs.get(path.resolve(dir));
+    if (!names) throw new Error(`ENOENT: no such directory in archive: ${dir}`);
+    return [...names].sort();
+  }
+
+  async stat(p: string): Promise<SourceStat> {
+    const abs = path.resolve(p);
+    const isFile = this.files.has(abs);
+    if (!isFile && !this.dirs.has(abs)) throw new Error(`ENOENT: no such file in archive: ${p}`);
+    return { isFile: () => isFile, isDirectory: () => !isFile };
+  }
+
+  async pathExists(p: string): Promise<boolean> {
+    const abs = path.resolve(p);
+    return this.files.has(abs) || this.dirs.has(abs);
+  }
+
+  async readFile(p: string): Promise<Buffer> {
+    const data = this.files.get(path.resolve(p));
+    if (!data) throw new Error(`ENOENT: no such file in archive: ${p}`);
+    return data;
+  }
+
+  async readText(p: string): Promise<string> {
+    return (await this.readFile(p)).toString('utf8');
+  }
+}
@@ -0,0 +1,46 @@
+// Tag parsing shared by CLI flags, import metadata and front matter
+import { Tag } from './bookstack-client';
+
+// "name=value" or bare "name"
+export function parseTag(raw: string): Tag {
+  const idx = raw.indexOf('=');
+  if (idx === -1) return { name: raw.trim() };
+  return { name: raw.slice(0, idx).trim(), value: raw.slice(idx + 1).trim() };
+}
+
+// Accepts the shapes people write by hand in metadata files:
+//   [{ "name": "team", "value": "docs" }], ["team=docs", "draft"] or { "team": "docs", "draft": "" }
+export function normalizeTags(raw: unknown): Tag[] | undefined {
+  if (raw == null) return undefined;
+  let tags: Tag[];
+  if (Array.isArray(raw)) {
+    tags = raw.map((t) => {
+      if (typeof t === 'string') return parseTag(t);
+      if (t && typeof t === 'object' && 'name' in t) {
+        const { name, value } = t as { name: unknown; value?: unknown };
+        return { name: String(name).trim(), value: value == null || value === '' ? undefined : String(value) };
+      }
+      throw new Error(`Invalid tag: ${JSON.stringify(t)}`);
+    });
+  } else if (typeof raw === 'object') {
+    tags = Object.entries(raw as Record<string, unknown>).map(([name, value]) => ({
+      name: name.trim(),
+      value: value == null || value === '' ? undefined : String(value),
+    }));
+  } else {
+    throw new Error(`Tags must be a list or a map, got ${typeof raw}`);
+  }
+  return tags
+    .filter((t) => t.name)
+    .map((t) => (t.value === undefined ? { name: t.name } : t));
+}
+
+// Only the fields worth persisting; API responses also carry id and order
+export function cleanTags(tags: Tag[] | undefined): Tag[] | undefined {
+  if (!tags || !tags.length) return undefined;
+  return tags.map((t) => (t.value ? { name: t.name, value: t.value } : { name: t.name }));
+}
+
+export function formatTags(tags: Tag[] | undefined): string {
+  return (tags || []).map((t) => (t.value ? `${t.name}: ${t.value}` : t.name)).join(', ');
+}
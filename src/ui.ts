@@ -1,22 +1,35 @@
 // Minimal UI helpers for colors, spinners, and progress bars
 import pc from 'picocolors';
+import * as readline from 'readline';
 
 let colorEnabled = true;
 let quietEnabled = false;
 
-export function configureUi(opts: { color?: boolean; quiet?: boolean }) {
+// `quiet` hides spinners, progress bars and console.log chatter.
+// `json` hides spinners and progress bars but keeps console.log for the JSON payload.
+export function configureUi(opts: { color?: boolean; quiet?: boolean; json?: boolean }) {
   if (typeof opts.color === 'boolean') colorEnabled = opts.color;
-  if (typeof opts.quiet === 'boolean') {
-    quietEnabled = opts.quiet;
-    if (quietEnabled) {
+  if (typeof opts.quiet === 'boolean' || typeof opts.json === 'boolean') {
+    quietEnabled = !!opts.quiet || !!opts.json;
+    if (opts.quiet && !opts.json) {
       (console as any)._origLog = (console as any)._origLog || console.log;
       console.log = (() => {}) as any;
     } else if ((console as any)._origLog) {
+      // Restored once; a later call must not undo a console.log someone else installed since
       console.log = (console as any)._origLog;
+      delete (console as any)._origLog;
     }
   }
 }
 
+export async function confirm(question: string): Promise<boolean> {
+  if (!process.stdin.isTTY) return false;
+  const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+  const answer = await new Promise<string>((resolve) => rl.question(`${question} [y/N] `, resolve));
+  rl.close();
+  return /^y(es)?$/i.test(answer.trim());
+}
+
 export const c: any = new Proxy(pc as any, {
   get(target, prop: any) {
     const fn = (target as any)[prop];
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { archiveBaseName, isArchivePath, isWithin, readArchive, safeEntryPath, TarWriter } from '../src/archive';
+import { makeTar, makeZip } from './archive-fixtures';
+
+const text = (m: Map<string, Buffer>) => Object.fromEntries([...m].map(([k, v]) => [k, v.toString()]));
+
+describe('readArchive', () => {
+  const files = { 'docs/index.md': '# Home\n', 'docs/guide/page.md': 'Guide\n' };
+
+  it('reads zip, tar and tar.gz archives by content', () => {
+    expect(text(readArchive(makeZip(files)))).toEqual(files);
+    expect(text(readArchive(makeTar(files)))).toEqual(files);
+    expect(text(readArchive(zlib.gzipSync(makeTar(files))))).toEqual(files);
+  });
+
+  it('rejects entries that would escape the import root', () => {
+    expect(() => readArchive(makeZip({ '../evil.md': 'x' }))).toThrow('path traversal');
+    expect(() => readArchive(makeTar({ 'docs/../../evil.md': 'x' }))).toThrow('path traversal');
+    expect(() => readArchive(makeTar({ '/etc/evil.md': 'x' }))).toThrow('absolute');
+  });
+
+  it('rejects unknown formats', () => {
+    expect(() => readArchive(Buffer.from('plain text'))).toThrow('Unrecognized archive format');
+  });
+});
+
+describe('archive paths', () => {
+  it('recognizes archive extensions and strips them', () => {
+    expect(isArchivePath('out/Docs.TGZ')).toBe(true);
+    expect(isArchivePath('docs/page.md')).toBe(false);
+    expect(archiveBaseName('docs.tar.gz')).toBe('docs');
+  });
+
+  it('normalizes separators and dot segments', () => {
+    expect(safeEntryPath('./docs\\guide//page.md')).toBe('docs/guide/page.md');
+    expect(() => safeEntryPath('C:/x.md')).toThrow('absolute');
+  });
+});
+
+describe('isWithin', () => {
+  it('accepts the root and paths below it only', () => {
+    expect(isWithin('/docs', '/docs')).toBe(true);
+    expect(isWithin('/docs', 'img/a.png')).toBe(true);
+    expect(isWithin('/docs', '/docs/..hidden.png')).toBe(true);
+    expect(isWithin('/docs', '/docs/../etc/passwd.png')).toBe(false);
+    expect(isWithin('/docs', '/etc/passwd.png')).toBe(false);
+  });
+});
+
+describe('TarWriter', () => {
+  let tmpdir: string;
+
+  beforeEach(async () => {
+    tmpdir = await fs.mkdtemp(path.join(os.tmpdir(), 'bookstack-tar-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmpdir);
+  });
+
+  it('writes tar and tar.gz archives readArchive reads back, long paths included', async () => {
+    const long = `${'deep/'.repeat(30)}page.md`;
+    const files = new Map([ ['backup.json', Buffer.from('{}\n')], [long, Buffer.from('x'.repeat(600))], ['empty.txt', Buffer.alloc(0)] ]);
+    for (const name of ['out.tar', 'out.tar.gz']) {
+      const tar = new TarWriter(path.join(tmpdir, name), name.endsWith('.gz'));
+      for (const [rel, data] of files) await tar.add(rel, data);
+      await tar.close();
+      expect(text(readArchive(await fs.readFile(path.join(tmpdir, name))))).toEqual(text(files));
+    }
+  });
+
+  it('hands each entry to the file as it is added instead of holding the archive', async () => {
+    const file = path.join(tmpdir, 'big.tar');
+    const tar = new TarWriter(file);
+    const entry = Buffer.alloc(256 * 1024, 'a');
+    for (let i = 1; i <= 8; i++) {
+      await tar.add(`images/${i}.png`, entry);
+      expect((await fs.stat(file)).size).toBe(i * (512 + entry.length));
+    }
+    await tar.close();
+    expect(readArchive(await fs.readFile(file)).size).toBe(8);
+  });
+
+  it('removes an aborted archive', async () => {
+    const file = path.join(tmpdir, 'partial.tar.gz');
+    const tar = new TarWriter(file, true);
+    await tar.add('pages/1.html', Buffer.from('<p>1</p>'));
+    await tar.abort();
+    expect(await fs.pathExists(file)).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { AssetFolder, findAssetRefs, replaceAssetLinks } from '../src/assets';
+
+const BASE = 'https://docs.example.com';
+
+function fakeClient() {
+  const downloads: string[] = [];
+  return {
+    downloads,
+    webBase: () => BASE,
+    async download(url: string) {
+      downloads.push(url);
+      if (url.includes('missing')) throw new Error('Request failed with status code 404');
+      return new TextEncoder().encode(`image ${path.posix.basename(url)}`);
+    },
+    async getAttachment(id: number) {
+      downloads.push(`attachment:${id}`);
+      if (id === 9) return { id, name: 'Vendor site', uploaded_to: 1, external: true, content: 'https://vendor.example/' };
+      return { id, name: 'Run Book', extension: 'pdf', uploaded_to: 1, external: false, content: Buffer.from('%PDF').toString('base64') };
+    },
+  };
+}
+
+let tmpdir: string;
+
+beforeEach(async () => {
+  tmpdir = await fs.mkdtemp(path.join(os.tmpdir(), 'bookstack-assets-'));
+});
+
+afterEach(async () => {
+  await fs.remove(tmpdir);
+});
+
+describe('findAssetRefs', () => {
+  it('finds instance images and attachments, keyed by the original file', () => {
+    const refs = findAssetRefs([
+      `[![a](${BASE}/uploads/images/gallery/2024-01/scaled-1680-/a.png)](${BASE}/uploads/images/gallery/2024-01/a.png)`,
+      '<img src="/uploads/images/drawio/2024-01/drawing-1.png">',
+      '![elsewhere](https://cdn.example.net/uploads/images/gallery/x.png)',
+      `[Run book](${BASE}/attachments/5) [open](/attachments/5?open=true)`,
+    ].join('\n'), BASE);
+    expect(refs.map((r) => [r.link, r.key])).toEqual([
+      [`${BASE}/uploads/images/gallery/2024-01/scaled-1680-/a.png`, 'image:/uploads/images/gallery/2024-01/a.png'],
+      [`${BASE}/uploads/images/gallery/2024-01/a.png`, 'image:/uploads/images/gallery/2024-01/a.png'],
+      ['/uploads/images/drawio/2024-01/drawing-1.png', 'image:/uploads/images/drawio/2024-01/drawing-1.png'],
+      [`${BASE}/attachments/5`, 'attachment:5'],
+      ['/attachments/5?open=true', 'attachment:5'],
+    ]);
+  });
+
+  it('replaces whole links only', () => {
+    const content = `![a](${BASE}/uploads/images/gallery/a.png) [f](${BASE}/attachments/1) [g](${BASE}/attachments/12)`;
+    const hrefs = new Map([ [`${BASE}/uploads/images/gallery/a.png`, 'assets/a.png'], [`${BASE}/attachments/1`, 'assets/f.pdf'] ]);
+    expect(replaceAssetLinks(content, hrefs)).toBe(`![a](assets/a.png) [f](assets/f.pdf) [g](${BASE}/attachments/12)`);
+  });
+});
+
+describe('AssetFolder', () => {
+  it('downloads each asset once and links to it relative to the page', async () => {
+    const client = fakeClient();
+    const stats = { files: 0, bytes: 0, failed: 0 };
+    const warnings: string[] = [];
+    const folder = new AssetFolder(client, path.join(tmpdir, 'assets'), stats);
+    const page = [
+      `[![a](${BASE}/uploads/images/gallery/2024-01/scaled-1680-/a.png)](${BASE}/uploads/images/gallery/2024-01/a.png)`,
+      '![other a](/uploads/images/gallery/2024-02/a.png)',
+      `[Run book](${BASE}/attachments/5) [Vendor](${BASE}/attachments/9)`,
+      `![gone](${BASE}/uploads/images/gallery/2024-01/missing.png)`,
+    ].join('\n');
+
+    const out = await folder.localize(page, path.join(tmpdir, 'guide'), (msg) => warnings.push(msg));
+
+    expect(out).toBe([
+      '[![a](../assets/a.png)](../assets/a.png)',
+      '![other a](../assets/a-2.png)',
+      `[Run book](../assets/run-book.pdf) [Vendor](https://vendor.example/)`,
+      `![gone](${BASE}/uploads/images/gallery/2024-01/missing.png)`,
+    ].join('\n'));
+    expect(client.downloads).toEqual([
+      '/uploads/images/gallery/2024-01/a.png',
+      '/uploads/images/gallery/2024-02/a.png',
+      '/uploads/images/gallery/2024-01/missing.png',
+      'attachment:5',
+      'attachment:9',
+    ]);
+    expect((await fs.readdir(path.join(tmpdir, 'assets'))).sort()).toEqual(['a-2.png', 'a.png', 'run-book.pdf']);
+    expect(await fs.readFile(path.join(tmpdir, 'assets', 'run-book.pdf'), 'utf8')).toBe('%PDF');
+    expect(stats).toEqual({ files: 3, bytes: 'image a.png'.length * 2 + 4, failed: 1 });
+    expect(warnings).toEqual([`Could not download ${BASE}/uploads/images/gallery/2024-01/missing.png: Request failed with status code 404`]);
+
+    // A second page linking the same image reuses the file
+    expect(await folder.localize(`![a](${BASE}/uploads/images/gallery/2024-01/a.png)`, tmpdir, () => {})).toBe('![a](assets/a.png)');
+    expect(client.downloads).toHaveLength(5);
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { BackupCommand, parseBackup, RestoreCommand } from '../src/commands/backup';
+import { configureUi } from '../src/ui';
+
+// An in-memory instance with the calls backup reads and restore writes
+function fakeInstance(base: string) {
+  let nextId = base.includes('old') ? 1 : 500;
+  const shelves: any[] = [];
+  const books: any[] = [];
+  const chapters: any[] = [];
+  const pages: any[] = [];
+  const images: any[] = [];
+  const attachments: any[] = [];
+  const files = new Map<string, Uint8Array>();
+  const find = (list: any[], id: number) => {
+    const item = list.find((x) => x.id === id);
+    if (!item) throw new Error(`${id} not found`);
+    return { ...item };
+  };
+  async function* each<T>(list: T[]) { yield* list; }
+  // New slugs carry the ID, as when a name is already taken, so links have to be remapped
+  const slugOf = (name: string, id: number) => `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${id}`;
+  const client: any = {
+    shelves, books, chapters, pages, images, attachments, files,
+    webBase: () => base,
+    iterateShelves: () => each(shelves),
+    async getShelf(id: number) {
+      const shelf = find(shelves, id);
+      return { ...shelf, books: shelf.books.map((b: number) => find(books, b)) };
+    },
+    iterateBooks: () => each(books),
+    async listBooks() { return { data: books, total: books.length }; },
+    async getBook(id: number) {
+      const byPriority = (a: any, b: any) => a.priority - b.priority;
+      const contents = [
+        ...pages.filter((p) => p.book_id === id && !p.chapter_id).map((p) => ({ type: 'page', id: p.id, priority: p.priority })),
+        ...chapters.filter((ch) => ch.book_id === id).map((ch) => ({
+          type: 'chapter', id: ch.id, priority: ch.priority,
+          pages: pages.filter((p) => p.chapter_id === ch.id).sort(byPriority).map((p) => ({ type: 'page', id: p.id })),
+        })),
+      ].sort(byPriority);
+      return { ...find(books, id), contents };
+    },
+    async getChapter(id: number) { return find(chapters, id); },
+    async getPage(id: number) { return find(pages, id); },
+    async getImages() { return images; },
+    async download(url: string) { return files.get(url)!; },
+    async getAttachments() { return attachments.map(({ content, ...att }) => att); },
+    async getAttachment(id: number) { return find(attachments, id); },
+    async createBook(data: any) {
+      const id = nextId++;
+      const book = { id, slug: slugOf(data.name, id), ...data };
+      books.push(book);
+      return book;
+    },
+    async createChapter(bookId: number, data: any) {
+      const id = nextId++;
+      const ch = { id, book_id: bookId, slug: slugOf(data.name, id), ...data };
+      chapters.push(ch);
+      return ch;
+    },
+    async createPage(data: any) {
+      const id = nextId++;
+      const page = { id, slug: slugOf(data.name, id), ...data, html: data.html ?? `<p>${data.markdown}</p>` };
+      pages.push(page);
+      return page;
+    },
+    async updatePage(id: number, data: any) {
+      const page = pages.find((p) => p.id === id);
+      Object.assign(page, data);
+      return { ...page };
+    },
+    async uploadImage(input: any) {
+      const id = nextId++;
+      const url = `${base}/uploads/images/${input.type}/2026-10/${input.file.filename}`;
+      const img = { id, name: input.name, type: input.type, uploaded_to: input.uploadedTo, url, path: url.slice(base.length) };
+      images.push(img);
+      files.set(url, input.file.data);
+      return img;
+    },
+    async createAttachment(input: any) {
+      const att = {
+        id: nextId++, name: input.name, uploaded_to: input.uploadedTo, external: !input.file,
+        content: input.file ? Buffer.from(input.file.data).toString('base64') : input.link,
+      };
+      attachments.push(att);
+      return att;
+    },
+    async createShelf(data: any) {
+      const shelf = { id: nextId++, ...data };
+      shelves.push(shelf);
+      return shelf;
+    },
+  };
+  return client;
+}
+
+function seed(instance: any) {
+  const base = instance.webBase();
+  instance.books.push({ id: 1, name: 'Runbooks', slug: 'runbooks', description: 'On-call', tags: [ { name: 'team', value: 'ops' } ] });
+  instance.books.push({ id: 2, name: 'Empty', slug: 'empty' });
+  instance.chapters.push({ id: 3, book_id: 1, name: 'Databases', slug: 'databases', priority: 2, tags: [ { name: 'tier', value: '1' } ] });
+  instance.pages.push({
+    id: 4, book_id: 1, name: 'Overview', slug: 'overview', priority: 1, template: true,
+    markdown: `![diagram](${base}/uploads/images/gallery/2024-01/diagram.png)\n[Runbook](${base}/attachments/7)\n`
+      + `[Failover](${base}/books/runbooks/page/failover#bkmrk-steps) [by ID](/link/5) [elsewhere](${base}/books/other/page/x)\n`,
+    html: '<p>rendered</p>',
+  });
+  instance.pages.push({
+    id: 5, book_id: 1, chapter_id: 3, name: 'Failover', slug: 'failover', priority: 1, tags: [ { name: 'draft' } ],
+    html: `<div drawio-diagram="8"><img src="${base}/uploads/images/drawio/2024-01/drawing-8.png"></div><a href="${base}/books/runbooks/chapter/databases">up</a>`,
+  });
+  instance.images.push({ id: 6, name: 'diagram.png', type: 'gallery', uploaded_to: 4, url: `${base}/uploads/images/gallery/2024-01/diagram.png` });
+  instance.images.push({ id: 8, name: 'drawing-8.png', type: 'drawio', uploaded_to: 5, url: `${base}/uploads/images/drawio/2024-01/drawing-8.png` });
+  instance.files.set(`${base}/uploads/images/gallery/2024-01/diagram.png`, Buffer.from('png-bytes'));
+  instance.files.set(`${base}/uploads/images/drawio/2024-01/drawing-8.png`, Buffer.from('drawio-bytes'));
+  instance.attachments.push({ id: 7, name: 'Runbook', extension: 'pdf', uploaded_to: 4, external: false, content: Buffer.from('%PDF').toString('base64') });
+  instance.attachments.push({ id: 9, name: 'Status page', uploaded_to: 5, external: true, content: 'https://status.example/' });
+  instance.shelves.push({ id: 10, name: 'Operations', tags: [], books: [2, 1] });
+}
+
+let tmpdir: string;
+
+beforeEach(async () => {
+  configureUi({ quiet: true });
+  tmpdir = await fs.mkdtemp(path.join(os.tmpdir(), 'bookstack-backup-'));
+});
+
+afterEach(async () => {
+  configureUi({ quiet: false });
+  await fs.remove(tmpdir);
+});
+
+describe('backup and restore', () => {
+  it('restores a backup archive onto an empty instance with new IDs', async () => {
+    const source = fakeInstance('https://old.example');
+    seed(source);
+    const archive = path.join(tmpdir, 'instance.tar.gz');
+    const backup = await new BackupCommand(source).execute(archive);
+    expect(backup.pages.map((p) => [p.id, p.htmlFile, p.markdownFile])).toEqual([
+      [4, 'pages/4.html', 'pages/4.md'],
+      [5, 'pages/5.html', undefined],
+    ]);
+
+    const target = fakeInstance('https://new.example');
+    const mapFile = path.join(tmpdir, 'map.json');
+    const restore = new RestoreCommand(target);
+    await restore.execute(archive, { map: mapFile });
+
+    const { map } = restore;
+    expect(target.books.map((b: any) => [b.name, b.description, b.tags])).toEqual([
+      ['Runbooks', 'On-call', [ { name: 'team', value: 'ops' } ]],
+      ['Empty', '', undefined],
+    ]);
+    expect(target.chapters).toEqual([
+      { id: map.chapters[3], book_id: map.books[1], slug: 'databases-502', name: 'Databases', description: '', priority: 2, tags: [ { name: 'tier', value: '1' } ] },
+    ]);
+    const overview = target.pages.find((p: any) => p.id === map.pages[4]);
+    expect(overview).toMatchObject({ book_id: map.books[1], chapter_id: undefined, priority: 1, template: true });
+    expect(overview.markdown).toBe(
+      `![diagram](https://new.example/uploads/images/gallery/2026-10/diagram.png)\n[Runbook](https://new.example/attachments/${map.attachments[7]})\n`
+      + `[Failover](https://new.example/books/runbooks-500/page/failover-504#bkmrk-steps) [by ID](/link/${map.pages[5]}) [elsewhere](https://old.example/books/other/page/x)\n`,
+    );
+    const failover = target.pages.find((p: any) => p.id === map.pages[5]);
+    expect(failover).toMatchObject({ chapter_id: map.chapters[3], tags: [ { name: 'draft' } ] });
+    expect(failover.html).toBe(
+      `<div drawio-diagram="${map.images[8]}"><img src="https://new.example/uploads/images/drawio/2026-10/drawing-8.png"></div>`
+      + '<a href="https://new.example/books/runbooks-500/chapter/databases-502">up</a>',
+    );
+    expect(target.images.map((i: any) => [i.type, i.uploaded_to])).toEqual([ ['gallery', map.pages[4]], ['drawio', map.pages[5]] ]);
+    expect(Buffer.from(target.files.get('https://new.example/uploads/images/gallery/2026-10/diagram.png')).toString()).toBe('png-bytes');
+    expect(target.attachments.map((a: any) => [a.name, a.uploaded_to, a.external, a.content])).toEqual([
+      ['Runbook', map.pages[4], false, Buffer.from('%PDF').toString('base64')],
+      ['Status page', map.pages[5], true, 'https://status.example/'],
+    ]);
+    expect(target.shelves).toEqual([ { id: map.shelves[10], name: 'Operations', description: '', tags: undefined, books: [map.books[2], map.books[1]] } ]);
+    expect(await fs.readJson(mapFile)).toEqual({
+      source: 'https://old.example',
+      target: 'https://new.example',
+      shelves: { 10: 509 }, books: { 1: 500, 2: 501 }, chapters: { 3: 502 }, pages: { 4: 503, 5: 504 },
+      images: { 6: 505, 8: 506 }, attachments: { 7: 507, 9: 508 },
+    });
+  });
+
+  it('refuses a non-empty backup directory and unknown backup versions', async () => {
+    await fs.outputFile(path.join(tmpdir, 'old', 'notes.txt'), 'keep');
+    await expect(new BackupCommand(fakeInstance('https://old.example')).execute(path.join(tmpdir, 'old'))).rejects.toThrow('Backup directory is not empty');
+    expect(() => parseBackup({ version: 2 })).toThrow('unsupported backup version 2 (expected 1)');
+  });
+
+  it('restores nothing in a dry run', async () => {
+    const source = fakeInstance('https://old.example');
+    seed(source);
+    await new BackupCommand(source).execute(path.join(tmpdir, 'backup'));
+    expect(await fs.pathExists(path.join(tmpdir, 'backup', 'backup.json'))).toBe(true);
+
+    const target = fakeInstance('https://new.example');
+    await new RestoreCommand(target).execute(path.join(tmpdir, 'backup'), { dryRun: true, map: path.join(tmpdir, 'map.json') });
+    expect(target.books).toEqual([]);
+    expect(await fs.pathExists(path.join(tmpdir, 'map.json'))).toBe(false);
+  });
+});
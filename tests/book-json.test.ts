@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'bun:test';
+import { exportBookJson, parseBookJson } from '../src/book-json';
+
+describe('parseBookJson', () => {
+  it('fills defaults and normalizes tags', () => {
+    const book = parseBookJson({
+      name: 'Handbook',
+      tags: { team: 'docs' },
+      chapters: [ { name: 'Setup', pages: [ { name: 'Install', markdown: '# Install', tags: ['draft'] } ] } ],
+    });
+    expect(book.version).toBe(1);
+    expect(book.pages).toEqual([]);
+    expect(book.tags).toEqual([ { name: 'team', value: 'docs' } ]);
+    expect(book.chapters[0].pages[0]).toMatchObject({ name: 'Install', markdown: '# Install', tags: [ { name: 'draft' } ] });
+  });
+
+  it('names the offending field', () => {
+    expect(() => parseBookJson({ name: 'B', chapters: [ { name: 'C', pages: [ { name: 'P', priority: 'high' } ] } ] }))
+      .toThrow('chapters[0].pages[0].priority must be an integer');
+    expect(() => parseBookJson({ name: 'B', pages: [ {} ] })).toThrow('pages[0].name must be a non-empty string');
+    expect(() => parseBookJson({ version: 2, name: 'B' })).toThrow('unsupported version 2');
+    expect(() => parseBookJson([])).toThrow('book must be an object');
+  });
+});
+
+describe('exportBookJson', () => {
+  it('reads pages and chapters in book order', async () => {
+    const client: any = {
+      async getBook(id: number) {
+        return {
+          id, name: 'Handbook', slug: 'handbook', description: '', tags: [ { name: 'team', value: 'docs' } ],
+          contents: [
+            { type: 'page', id: 1, name: 'Welcome' },
+            { type: 'chapter', id: 2, name: 'Setup', pages: [ { id: 3, name: 'Install' } ] },
+          ],
+        };
+      },
+      async getChapter(id: number) { return { id, name: 'Setup', description: 'How to', priority: 2, tags: [] }; },
+      async getPage(id: number) {
+        return id === 1
+          ? { id, name: 'Welcome', priority: 1, html: '<p>Hi</p>', markdown: '', tags: [] }
+          : { id, name: 'Install', priority: 0, markdown: '# Install', template: true, tags: [ { name: 'os', value: '' } ] };
+      },
+    };
+    const json = await exportBookJson(client, 7);
+    expect(json).toEqual({
+      version: 1,
+      name: 'Handbook',
+      description: undefined,
+      tags: [ { name: 'team', value: 'docs' } ],
+      pages: [ { name: 'Welcome', priority: 1, tags: undefined, template: undefined, html: '<p>Hi</p>' } ],
+      chapters: [ {
+        name: 'Setup', description: 'How to', priority: 2, tags: undefined,
+        pages: [ { name: 'Install', priority: 0, tags: [ { name: 'os' } ], template: true, markdown: '# Install' } ],
+      } ],
+    });
+    // The export is itself valid input
+    expect(parseBookJson(JSON.parse(JSON.stringify(json))).chapters[0].pages[0].markdown).toBe('# Install');
+  });
+});
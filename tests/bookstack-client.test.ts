@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'bun:test';
+import { BookStackClient, collect } from '../src/bookstack-client';
+
+// Replace the axios transport so requests can be asserted without a network.
+function clientWithAdapter(handler: (config: any) => any) {
+  const client = new BookStackClient({ baseUrl: 'https://bs.example', tokenId: 'id', tokenSecret: 'secret' });
+  const calls: any[] = [];
+  (client as any).client.defaults.adapter = async (config: any) => {
+    calls.push({ method: config.method, url: config.url, params: { ...(config.params || {}) }, data: config.data });
+    return { data: handler(config), status: 200, statusText: 'OK', headers: {}, config };
+  };
+  return { client, calls };
+}
+
+const books = Array.from({ length: 7 }, (_, i) => ({ id: i + 1, name: `Book ${i + 1}`, slug: `book-${i + 1}` }));
+
+function listHandler(items: any[]) {
+  return (config: any) => {
+    const { count = 100, offset = 0 } = config.params || {};
+    return { data: items.slice(offset, offset + count), total: items.length };
+  };
+}
+
+describe('BookStackClient pagination', () => {
+  it('listBooks requests a single window and reports the total', async () => {
+    const { client, calls } = clientWithAdapter(listHandler(books));
+    const res = await client.listBooks({ count: 3, offset: 2 });
+    expect(res.data.map((b) => b.id)).toEqual([3, 4, 5]);
+    expect(res.total).toBe(7);
+    expect(calls.map(({ url, params }) => ({ url, params }))).toEqual([{ url: '/books', params: { count: 3, offset: 2 } }]);
+  });
+
+  it('iterateBooks follows offsets until the total is reached', async () => {
+    const { client, calls } = clientWithAdapter(listHandler(books));
+    const all = await collect(client.iterateBooks({ count: 3 }));
+    expect(all.map((b) => b.id)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(calls.map((c) => c.params.offset)).toEqual([0, 3, 6]);
+  });
+
+  it('getBooks returns every book', async () => {
+    const { client } = clientWithAdapter(listHandler(books));
+    expect((await client.getBooks()).length).toBe(7);
+  });
+
+  it('search maps offsets onto page numbers', async () => {
+    const hits = Array.from({ length: 25 }, (_, i) => ({ id: i + 1, name: `Hit ${i + 1}`, slug: `hit-${i + 1}`, type: 'page' }));
+    const { client, calls } = clientWithAdapter((config) => {
+      const { page, count } = config.params;
+      return { data: hits.slice((page - 1) * count, page * count), total: hits.length };
+    });
+    const res = await client.search('hit', { count: 10, offset: 15 });
+    expect(res.data.map((r) => r.id)).toEqual([16, 17, 18, 19, 20, 21, 22, 23, 24, 25]);
+    expect(res.total).toBe(25);
+    expect(calls.map((c) => c.params.page)).toEqual([2, 3]);
+
+    const all = await client.searchAll('hit');
+    expect(all.length).toBe(25);
+    expect((await client.searchAll('hit', { offset: 22 })).map((r) => r.id)).toEqual([23, 24, 25]);
+  });
+
+  it('iterateTagValues sends the tag name with every page request', async () => {
+    const values = Array.from({ length: 4 }, (_, i) => ({ name: 'team', value: `v${i}`, usages: 1 }));
+    const { client, calls } = clientWithAdapter(listHandler(values));
+    const all = await collect(client.iterateTagValues('team', { count: 2 }));
+    expect(all.map((v) => v.value)).toEqual(['v0', 'v1', 'v2', 'v3']);
+    expect(calls.map(({ url, params }) => ({ url, params }))).toEqual([
+      { url: '/tags/values-for-name', params: { name: 'team', count: 2, offset: 0 } },
+      { url: '/tags/values-for-name', params: { name: 'team', count: 2, offset: 2 } },
+    ]);
+  });
+});
+
+describe('BookStackClient attachments', () => {
+  it('filters attachment listings by page', async () => {
+    const { client, calls } = clientWithAdapter(() => ({ data: [], total: 0 }));
+    await client.listAttachments({ filter: { uploaded_to: 12 } });
+    expect(calls[0].url).toBe('/attachments');
+    expect(calls[0].params['filter[uploaded_to]']).toBe(12);
+  });
+
+  it('uploads files as multipart form data', async () => {
+    const { client, calls } = clientWithAdapter((config) => ({ id: 3, name: 'runbook.pdf', uploaded_to: 12, external: false }));
+    const att = await client.createAttachment({
+      name: 'runbook.pdf',
+      uploadedTo: 12,
+      file: { data: new TextEncoder().encode('%PDF'), filename: 'runbook.pdf' },
+    });
+    expect(att.id).toBe(3);
+    const form = calls[0].data as FormData;
+    expect(form).toBeInstanceOf(FormData);
+    expect(form.get('name')).toBe('runbook.pdf');
+    expect(form.get('uploaded_to')).toBe('12');
+    expect(await (form.get('file') as Blob).text()).toBe('%PDF');
+  });
+
+  it('creates link attachments as JSON', async () => {
+    const { client, calls } = clientWithAdapter(() => ({ id: 4, name: 'Status', uploaded_to: 12, external: true }));
+    await client.createAttachment({ name: 'Status', uploadedTo: 12, link: 'https://status.example' });
+    expect(JSON.parse(calls[0].data)).toEqual({ name: 'Status', uploaded_to: 12, link: 'https://status.example' });
+  });
+
+  it('updates files through a POST method override', async () => {
+    const { client, calls } = clientWithAdapter(() => ({ id: 3, name: 'v2', uploaded_to: 12, external: false }));
+    await client.updateAttachment(3, { name: 'v2', file: { data: new Uint8Array([1]), filename: 'v2.bin' } });
+    expect(calls[0].method).toBe('post');
+    expect(calls[0].url).toBe('/attachments/3');
+    expect((calls[0].data as FormData).get('_method')).toBe('PUT');
+  });
+});
+
+describe('BookStackClient images', () => {
+  it('updates only the fields given', async () => {
+    const { client, calls } = clientWithAdapter(() => ({ id: 4, name: 'Logo' }));
+    await client.updateImage(4, { name: 'Logo' });
+    await client.updateImage(4, { file: { data: new Uint8Array([1]), filename: 'logo.png' } });
+    expect(calls[0]).toMatchObject({ method: 'put', url: '/image-gallery/4' });
+    expect(JSON.parse(calls[0].data)).toEqual({ name: 'Logo' });
+    expect(calls[1]).toMatchObject({ method: 'post', url: '/image-gallery/4' });
+    expect((calls[1].data as FormData).has('name')).toBe(false);
+    expect((calls[1].data as FormData).get('_method')).toBe('PUT');
+  });
+});
+
+describe('BookStackClient downloads', () => {
+  it('sends the API token to the instance only', async () => {
+    const { client, calls } = clientWithAdapter(() => new ArrayBuffer(2));
+    const anonymous: any[] = [];
+    (client as any).anonymous.defaults.adapter = async (config: any) => {
+      anonymous.push({ url: config.url, auth: config.headers?.Authorization });
+      return { data: new ArrayBuffer(3), status: 200, statusText: 'OK', headers: {}, config };
+    };
+
+    expect((await client.download('/uploads/images/gallery/a.png')).length).toBe(2);
+    expect((await client.download('https://bs.example/uploads/images/gallery/b.png')).length).toBe(2);
+    expect((await client.download('https://evil.example/uploads/images/gallery/c.png')).length).toBe(3);
+    expect((await client.download('//evil.example/d.png')).length).toBe(3);
+
+    expect(calls.map((c) => c.url)).toEqual([
+      'https://bs.example/uploads/images/gallery/a.png',
+      'https://bs.example/uploads/images/gallery/b.png',
+    ]);
+    expect(anonymous).toEqual([
+      { url: 'https://evil.example/uploads/images/gallery/c.png', auth: undefined },
+      { url: 'https://evil.example/d.png', auth: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { Checkpoint, JOURNAL_FILE } from '../src/checkpoint';
+
+let tmpdir: string;
+let file: string;
+
+beforeEach(async () => {
+  tmpdir = await fs.mkdtemp(path.join(os.tmpdir(), 'bookstack-journal-'));
+  file = path.join(tmpdir, JOURNAL_FILE);
+});
+
+afterEach(async () => {
+  await fs.remove(tmpdir);
+});
+
+describe('Checkpoint', () => {
+  it('carries finished items over when resuming the same target', async () => {
+    const first = new Checkpoint(file, { kind: 'export', target: 'book:1' });
+    await first.open(false);
+    first.record({ key: 'page:1' });
+    first.record({ key: 'page:2' });
+    // A line cut short by the crash is dropped
+    await fs.appendFile(file, '{"key":"pa');
+
+    const second = new Checkpoint(file, { kind: 'export', target: 'book:1' });
+    expect(await second.open(true)).toBe(2);
+    expect(second.has('page:2')).toBe(true);
+    second.record({ key: 'page:3' });
+
+    const third = new Checkpoint(file, { kind: 'export', target: 'book:1' });
+    expect(await third.open(true)).toBe(3);
+  });
+
+  it('starts over without resume or for another target', async () => {
+    const first = new Checkpoint(file, { kind: 'import', target: 'book:1' });
+    await first.open(false);
+    first.record({ key: 'a.md' });
+
+    const origWarn = console.warn;
+    const warnings: string[] = [];
+    console.warn = (msg: string) => { warnings.push(msg); };
+    try {
+      expect(await new Checkpoint(file, { kind: 'import', target: 'book:2' }).open(true)).toBe(0);
+      expect(await new Checkpoint(file, { kind: 'import', target: 'book:2' }).open(false)).toBe(0);
+    } finally {
+      console.warn = origWarn;
+    }
+    expect(warnings[0]).toContain('belongs to a different import');
+    expect(warnings[1]).toContain('use --resume');
+  });
+
+  it('removes the journal when the run finishes', async () => {
+    const journal = new Checkpoint(file, { kind: 'export', target: 'book:1' });
+    await journal.open(false);
+    await journal.finish();
+    expect(await fs.pathExists(file)).toBe(false);
+  });
+});
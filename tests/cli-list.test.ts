@@ -1,5 +1,11 @@
 import { describe, it, expect, mock, beforeEach, afterEach } from 'bun:test';
 import * as realUi from '../src/ui';
+import * as clientModule from '../src/bookstack-client';
+
+// Snapshot the real client exports: mock.module() patches the module in place and
+// the patch outlives this file unless the real exports are put back afterwards.
+const realClient = { ...clientModule };
+const restoreClient = () => mock.module(new URL('../src/bookstack-client.ts', import.meta.url).href, () => realClient);
 
 // Strip ANSI escape codes for predictable test assertions
 const stripAnsi = (s: string) => s.replace(/\x1b\[[0-9;]*m/g, '');
@@ -29,6 +35,10 @@ function mockClient(overrides: Partial<Record<string, any>> = {}) {
     async getPages(bookId: number) { return [ { id: 20, name: `Pg One (b${bookId})`, slug: 'pg-one' } ]; }
     async getAllPages() { return [ { id: 21, name: 'Pg Any', slug: 'pg-any' } ]; }
     async getImages() { return [ { id: 7, name: 'Logo', type: 'image', url: 'https://mock/img/7' } ]; }
+    async listShelves() { return { data: await this.getShelves(), total: 2 }; }
+    async listBooks() { return { data: await this.getBooks(), total: 2 }; }
+    async listAllPages() { return { data: await this.getAllPages(), total: 1 }; }
+    async listImages() { return { data: await this.getImages(), total: 1 }; }
     async findBookByName(q: string) { return q === 'DocBook' ? { id: 999 } : null; }
   }
   Object.assign(StubClient.prototype, overrides);
@@ -47,6 +57,7 @@ beforeEach(() => {
 
 afterEach(() => {
   mock.restore();
+  restoreClient();
 });
 
 describe('CLI list commands', () => {
@@ -103,6 +114,134 @@ describe('CLI list commands', () => {
     expect(out).toContain('Pg One (b999)');
   });
 
+  it('passes --limit/--offset through and hints at remaining items', async () => {
+    let seen: any;
+    mockClient({
+      async listBooks(opts: any) {
+        seen = opts;
+        return { data: [ { id: 5, name: 'Book C', slug: 'book-c' } ], total: 12 };
+      },
+    });
+    const program = await loadProgram();
+    const out = await withCapturedStdout(async () => {
+      await program.parseAsync(['node', 'bookstack', 'books', 'list', '--limit', '1', '--offset', '4']);
+    });
+    expect(seen).toEqual({ count: 1, offset: 4 });
+    expect(out).toContain('5: Book C (book-c)');
+    expect(out).toContain('7 more not shown (use --offset 5 or --all)');
+  });
+
+  it('fetches every page with --all', async () => {
+    mockClient({
+      async listAllPages() { throw new Error('should not be called'); },
+      async getAllPages() { return [ { id: 21, name: 'Pg Any', slug: 'pg-any' }, { id: 22, name: 'Pg Two', slug: 'pg-two' } ]; },
+    });
+    const program = await loadProgram();
+    const out = await withCapturedStdout(async () => {
+      await program.parseAsync(['node', 'bookstack', 'pages', 'list', '--all']);
+    });
+    expect(out).toContain('22: Pg Two (pg-two)');
+    expect(out).not.toContain('more not shown');
+  });
+
+  it('skips --offset items with --all', async () => {
+    const calls: any[][] = [];
+    mockClient({
+      async getBooks(opts: any) {
+        calls.push(['getBooks', opts]);
+        return [ { id: 4, name: 'Book B', slug: 'book-b' } ];
+      },
+      async getAllPages(opts: any) {
+        calls.push(['getAllPages', opts]);
+        return [ { id: 22, name: 'Pg Two', slug: 'pg-two' } ];
+      },
+      async getPages() {
+        return [1, 2, 3].map((id) => ({ id, name: `Pg ${id}`, slug: `pg-${id}` }));
+      },
+    });
+    const program = await loadProgram();
+    const books = await withCapturedStdout(() => program.parseAsync(['node', 'bookstack', 'books', 'list', '--all', '--offset', '1']));
+    const pages = await withCapturedStdout(() => program.parseAsync(['node', 'bookstack', 'pages', 'list', '--all', '--offset', '1']));
+    const inBook = await withCapturedStdout(() => program.parseAsync(['node', 'bookstack', 'pages', 'list', '--book', '7', '--all', '--offset', '1']));
+
+    expect(calls).toEqual([ ['getBooks', { offset: 1 }], ['getAllPages', { offset: 1 }] ]);
+    expect(books).toContain('4: Book B (book-b)');
+    expect(pages).toContain('22: Pg Two (pg-two)');
+    expect(inBook).not.toContain('1: Pg 1');
+    expect(inBook).toContain('2: Pg 2 (pg-2)');
+    expect(inBook).toContain('3: Pg 3 (pg-3)');
+  });
+
+  it('limits search tables by default but returns every result as JSON', async () => {
+    const calls: any[][] = [];
+    const hits = Array.from({ length: 30 }, (_, i) => ({ id: i + 1, name: `Hit ${i + 1}`, slug: `hit-${i + 1}`, type: 'book' }));
+    mockClient({
+      async search(q: string, opts: any) {
+        calls.push(['search', q, opts]);
+        return { data: hits.slice(opts.offset || 0, (opts.offset || 0) + opts.count), total: hits.length };
+      },
+      async searchAll(q: string, opts: any) {
+        calls.push(['searchAll', q, opts]);
+        return hits.slice(opts.offset || 0);
+      },
+    });
+    const program = await loadProgram();
+
+    const json = await withCapturedStdout(() => program.parseAsync(['node', 'bookstack', 'search', 'hit', '--json']));
+    expect(JSON.parse(json)).toHaveLength(30);
+    const table = await withCapturedStdout(() => program.parseAsync(['node', 'bookstack', 'search', 'hit']));
+    expect(table).toContain('5 more not shown (use --offset 25 or --all)');
+    await withCapturedStdout(() => program.parseAsync(['node', 'bookstack', 'search', 'hit', '--all', '--offset', '10']));
+    await withCapturedStdout(() => program.parseAsync(['node', 'bookstack', 'search', 'hit', '--json', '--limit', '5']));
+
+    expect(calls).toEqual([
+      ['searchAll', 'hit', { offset: undefined }],
+      ['search', 'hit', { count: 25, offset: undefined }],
+      ['searchAll', 'hit', { offset: 10 }],
+      ['search', 'hit', { count: 5, offset: undefined }],
+    ]);
+  });
+
+  it('lists attachments filtered by page', async () => {
+    let seen: any;
+    mockClient({
+      async listAttachments(opts: any) {
+        seen = opts;
+        return { data: [ { id: 3, name: 'runbook', extension: 'pdf', uploaded_to: 301, external: false } ], total: 1 };
+      },
+    });
+    const program = await loadProgram();
+    const out = await withCapturedStdout(async () => {
+      await program.parseAsync(['node', 'bookstack', 'attachments', 'list', '--page', '301']);
+    });
+    expect(seen.filter).toEqual({ uploaded_to: 301 });
+    expect(out).toContain('Attachments:');
+    expect(out).toContain('#3 runbook (pdf) page:301');
+  });
+
+  it('lists tag names, and values for one name', async () => {
+    let valuesFor: string | undefined;
+    const counts = { usages: 3, book_count: 1, chapter_count: 0, page_count: 2, shelf_count: 0 };
+    mockClient({
+      async listTags() { return { data: [ { name: 'team', values: 2, ...counts } ], total: 1 }; },
+      async listTagValues(name: string) {
+        valuesFor = name;
+        return { data: [ { name, value: 'docs', ...counts } ], total: 1 };
+      },
+    });
+    const program = await loadProgram();
+    const out1 = await withCapturedStdout(async () => {
+      await program.parseAsync(['node', 'bookstack', 'tags', 'list']);
+    });
+    expect(out1).toContain('team (3 uses, 2 values: 1 books, 0 chapters, 2 pages, 0 shelves)');
+    const out2 = await withCapturedStdout(async () => {
+      await program.parseAsync(['node', 'bookstack', 'tags', 'list', '--name', 'team']);
+    });
+    expect(valuesFor).toBe('team');
+    expect(out2).toContain('Values for team:');
+    expect(out2).toContain('docs (3 uses: 1 books');
+  });
+
   it('lists images and supports --json', async () => {
     // For --json, the CLI sets quiet which normally silences console.log.
     // Override UI for this test so --json does not mute console.log.
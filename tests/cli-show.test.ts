@@ -1,5 +1,11 @@
 import { describe, it, expect, mock, beforeEach, afterEach } from 'bun:test';
 import * as realUi from '../src/ui';
+import * as clientModule from '../src/bookstack-client';
+
+// Snapshot the real client exports: mock.module() patches the module in place and
+// the patch outlives this file unless the real exports are put back afterwards.
+const realClient = { ...clientModule };
+const restoreClient = () => mock.module(new URL('../src/bookstack-client.ts', import.meta.url).href, () => realClient);
 
 // Strip ANSI escape codes for predictable test assertions
 const stripAnsi = (s: string) => s.replace(/\x1b\[[0-9;]*m/g, '');
@@ -58,7 +64,7 @@ async function loadProgram() {
 }
 
 beforeEach(() => { mock.restore(); });
-afterEach(() => { mock.restore(); });
+afterEach(() => { mock.restore(); restoreClient(); });
 
 describe('Single-resource commands', () => {
   it('book show <name> (human) prints header, pages, and chapters', async () => {
@@ -134,6 +140,23 @@ describe('Single-resource commands', () => {
     expect(out).toContain('Chapter');
   });
 
+  it('page show <id> prints tags and includes them in --json', async () => {
+    mockClient({
+      async getPage(id: number) {
+        return { id, slug: 'pg-a', name: 'Page A', book_id: 999, tags: [ { name: 'team', value: 'docs', order: 0 }, { name: 'draft', value: '' } ] } as any;
+      },
+    });
+    const program = await loadProgram();
+    const out = await withCapturedStdout(async () => {
+      await program.parseAsync(['node', 'bookstack', 'page', 'show', '301']);
+    });
+    expect(out).toContain('Tags: team: docs, draft');
+    const json = await withCapturedStdout(async () => {
+      await program.parseAsync(['node', 'bookstack', 'page', 'show', '301', '--json']);
+    });
+    expect(JSON.parse(json).tags).toEqual([ { name: 'team', value: 'docs' }, { name: 'draft' } ]);
+  });
+
   it('page show <id> --json outputs structured JSON', async () => {
     mock.module(new URL('../src/ui.ts', import.meta.url).href, () => ({
       ...realUi,
@@ -0,0 +1,476 @@
+import { describe, it, expect, mock, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import * as clientModule from '../src/bookstack-client';
+
+// Snapshot the real client exports: mock.module() patches the module in place and
+// the patch outlives this file unless the real exports are put back afterwards.
+const realClient = { ...clientModule };
+const restoreClient = () => mock.module(new URL('../src/bookstack-client.ts', import.meta.url).href, () => realClient);
+
+// Strip ANSI escape codes for predictable test assertions
+const stripAnsi = (s: string) => s.replace(/\x1b\[[0-9;]*m/g, '');
+
+// Capture console.log output for an async action
+async function withCapturedStdout(fn: () => Promise<void> | void) {
+  let out = '';
+  const origLog = console.log;
+  console.log = (...args: any[]) => {
+    const line = args.map((a) => (typeof a === 'string' ? a : JSON.stringify(a))).join(' ');
+    out += (out.endsWith('\n') || out.length === 0 ? '' : '\n') + line + '\n';
+  };
+  try {
+    await fn();
+  } finally {
+    console.log = origLog;
+  }
+  return stripAnsi(out);
+}
+
+// Records every write call as [method, ...args]
+let calls: any[][];
+
+function mockClient(overrides: Partial<Record<string, any>> = {}) {
+  class StubClient {
+    constructor(_: any) {}
+    async findBookByName(q: string) { return q === 'DocBook' ? { id: 999 } : null; }
+    async getBook(id: number) { return { id, name: 'Doc Book', slug: 'docbook' }; }
+    async getPage(id: number) { return { id, name: 'Existing Page', slug: 'existing', book_id: 999 }; }
+    async getShelf(id: number) { return { id, name: 'Primary', slug: 'primary' }; }
+    async getShelves() { return [ { id: 42, name: 'Primary', slug: 'primary' } ]; }
+    async createBook(data: any) { calls.push(['createBook', data]); return { id: 5, slug: 'new-book', ...data }; }
+    async updateBook(id: number, data: any) { calls.push(['updateBook', id, data]); return { id, slug: 'docbook', name: 'Doc Book', ...data }; }
+    async deleteBook(id: number) { calls.push(['deleteBook', id]); }
+    async createChapter(bookId: number, data: any) { calls.push(['createChapter', bookId, data]); return { id: 11, book_id: bookId, ...data }; }
+    async moveChapter(id: number, bookId: number) { calls.push(['moveChapter', id, bookId]); return { id, name: 'Moved Chapter', book_id: bookId }; }
+    async createPage(data: any) { calls.push(['createPage', data]); return { id: 77, ...data }; }
+    async updatePage(id: number, data: any) { calls.push(['updatePage', id, data]); return { id, ...data }; }
+    async movePage(id: number, target: any) { calls.push(['movePage', id, target]); return { id, name: 'Existing Page' }; }
+    async createShelf(data: any) { calls.push(['createShelf', data]); return { id: 43, ...data }; }
+  }
+  Object.assign(StubClient.prototype, overrides);
+  mock.module(new URL('../src/bookstack-client.ts', import.meta.url).href, () => ({ BookStackClient: StubClient }));
+}
+
+// Enough of a BookStack instance, kept in memory, for export-contents and import to talk to
+function memoryServer() {
+  let nextId = 1;
+  const books: any[] = [];
+  const chapters: any[] = [];
+  const pages: any[] = [];
+  const slugify = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  const byPriority = (a: any, b: any) => a.priority - b.priority || a.id - b.id;
+  const find = (list: any[], id: number) => {
+    const item = list.find((x) => x.id === id);
+    if (!item) throw new Error(`${id} not found`);
+    return item;
+  };
+  // Like BookStack, new items without a priority go last
+  const nextPriority = (bookId: number, chapterId?: number) =>
+    1 + Math.max(-1, ...[...chapters, ...pages].filter((x) => x.book_id === bookId && x.chapter_id === chapterId).map((x) => x.priority));
+  const pageEntry = (p: any) => ({ type: 'page', id: p.id, name: p.name, slug: p.slug, priority: p.priority, updated_at: p.updated_at });
+  return {
+    books,
+    chapters,
+    pages,
+    async testConnection() { return true; },
+    webBase: () => 'https://bs.example',
+    bookUrl: (book: string) => `https://bs.example/books/${book}`,
+    pageUrl: (book: string, page: string) => `https://bs.example/books/${book}/page/${page}`,
+    chapterUrl: (book: string, chapter: string) => `https://bs.example/books/${book}/chapter/${chapter}`,
+    async findBookByName(q: string) { return books.find((b) => b.name === q || b.slug === q) || null; },
+    async getBook(id: number) {
+      const contents = [
+        ...pages.filter((p) => p.book_id === id && !p.chapter_id).map(pageEntry),
+        ...chapters.filter((ch) => ch.book_id === id).map((ch) => ({
+          type: 'chapter', id: ch.id, name: ch.name, slug: ch.slug, description: ch.description, priority: ch.priority,
+          pages: pages.filter((p) => p.chapter_id === ch.id).sort(byPriority).map(pageEntry),
+        })),
+      ].sort(byPriority);
+      return { ...find(books, id), contents };
+    },
+    async createBook(data: any) {
+      const book = { id: nextId++, slug: slugify(data.name), tags: [], ...data };
+      books.push(book);
+      return { ...book };
+    },
+    async updateBook(id: number, data: any) { return { ...Object.assign(find(books, id), data) }; },
+    async getChapters(bookId: number) { return chapters.filter((ch) => ch.book_id === bookId).map((ch) => ({ ...ch })); },
+    async getChapter(id: number) { return { ...find(chapters, id) }; },
+    async createChapter(bookId: number, data: any) {
+      const ch = { id: nextId++, book_id: bookId, slug: slugify(data.name), priority: nextPriority(bookId), tags: [], ...data };
+      chapters.push(ch);
+      return { ...ch };
+    },
+    async updateChapter(id: number, data: any) { return { ...Object.assign(find(chapters, id), data) }; },
+    async getPages(bookId: number) { return pages.filter((p) => p.book_id === bookId).map((p) => ({ ...p })); },
+    async getPage(id: number) { return { ...find(pages, id) }; },
+    async createPage(data: any) {
+      const page = {
+        id: nextId++, slug: slugify(data.name), priority: nextPriority(data.book_id, data.chapter_id || undefined),
+        tags: [], template: false, created_at: 't', updated_at: 't',
+        ...data, chapter_id: data.chapter_id || undefined,
+      };
+      pages.push(page);
+      return { ...page };
+    },
+    async updatePage(id: number, data: any) { return { ...Object.assign(find(pages, id), data, { updated_at: 'u' }) }; },
+    // Like BookStack, the export starts with the page name as a heading; WYSIWYG pages are converted
+    async exportPage(id: number) {
+      const page = find(pages, id);
+      return `# ${page.name}\n\n${page.markdown || `${page.html.replace(/<[^>]+>/g, '')}\n`}`;
+    },
+    async listImages() { return { data: [], total: 0 }; },
+  };
+}
+
+// Every file below dir, keyed by its relative path, leaving out the export state
+async function readTree(dir: string, rel = ''): Promise<Record<string, string>> {
+  const files: Record<string, string> = {};
+  for (const name of (await fs.readdir(path.join(dir, rel))).sort()) {
+    if (name === '.bookstack-export.json') continue;
+    const relPath = path.join(rel, name);
+    if ((await fs.stat(path.join(dir, relPath))).isDirectory()) Object.assign(files, await readTree(dir, relPath));
+    else files[relPath] = await fs.readFile(path.join(dir, relPath), 'utf8');
+  }
+  return files;
+}
+
+async function loadProgram() {
+  const mod = await import(new URL('../src/bookstack-cli.ts', import.meta.url).href);
+  return mod.program as import('../src/bookstack-cli').program;
+}
+
+let tmpdir: string;
+
+beforeEach(async () => {
+  mock.restore();
+  calls = [];
+  tmpdir = await fs.mkdtemp(path.join(os.tmpdir(), 'bookstack-cli-write-'));
+});
+
+afterEach(async () => {
+  mock.restore();
+  restoreClient();
+  await fs.remove(tmpdir);
+});
+
+describe('Write commands', () => {
+  it('book create sends name, description and tags and prints JSON', async () => {
+    mockClient();
+    const program = await loadProgram();
+    const out = await withCapturedStdout(async () => {
+      await program.parseAsync([
+        'node', 'bookstack', 'book', 'create', '--name', 'New Book', '--description', 'About it',
+        '--tag', 'team=docs', '--tag', 'draft', '--json',
+      ]);
+    });
+    expect(calls[0]).toEqual(['createBook', {
+      name: 'New Book', description: 'About it',
+      tags: [ { name: 'team', value: 'docs' }, { name: 'draft' } ],
+    }]);
+    const data = JSON.parse(out);
+    expect(data.id).toBe(5);
+    expect(data.name).toBe('New Book');
+  });
+
+  it('book update resolves the book by name', async () => {
+    mockClient();
+    const program = await loadProgram();
+    const out = await withCapturedStdout(async () => {
+      await program.parseAsync(['node', 'bookstack', 'book', 'update', 'DocBook', '--description', 'Refreshed']);
+    });
+    expect(calls[0]).toEqual(['updateBook', 999, { description: 'Refreshed' }]);
+    expect(out).toContain('Updated book: Doc Book (ID: 999)');
+  });
+
+  it('book delete --yes skips the prompt', async () => {
+    mockClient();
+    const program = await loadProgram();
+    const out = await withCapturedStdout(async () => {
+      await program.parseAsync(['node', 'bookstack', 'book', 'delete', '999', '--yes']);
+    });
+    expect(calls).toEqual([['deleteBook', 999]]);
+    expect(out).toContain('Deleted book: Doc Book (ID: 999)');
+  });
+
+  it('chapter create targets the resolved book', async () => {
+    mockClient();
+    const program = await loadProgram();
+    await withCapturedStdout(async () => {
+      await program.parseAsync(['node', 'bookstack', 'chapter', 'create', '--book', 'DocBook', '--name', 'Setup', '--priority', '2']);
+    });
+    expect(calls[0]).toEqual(['createChapter', 999, { name: 'Setup', priority: 2 }]);
+  });
+
+  it('chapter move sends the destination book', async () => {
+    mockClient();
+    const program = await loadProgram();
+    await withCapturedStdout(async () => {
+      await program.parseAsync(['node', 'bookstack', 'chapter', 'move', '11', '--book', '3']);
+    });
+    expect(calls[0]).toEqual(['moveChapter', 11, 3]);
+  });
+
+  it('page create reads markdown from a file', async () => {
+    const file = path.join(tmpdir, 'body.md');
+    await fs.writeFile(file, '# Hello\n');
+    mockClient();
+    const program = await loadProgram();
+    const out = await withCapturedStdout(async () => {
+      await program.parseAsync(['node', 'bookstack', 'page', 'create', '--chapter', '11', '--name', 'Hello', '--markdown', file]);
+    });
+    expect(calls[0]).toEqual(['createPage', { name: 'Hello', markdown: '# Hello\n', chapter_id: 11 }]);
+    expect(out).toContain('Created page: Hello (ID: 77)');
+  });
+
+  it('page update sends only the fields being changed', async () => {
+    const file = path.join(tmpdir, 'body.html');
+    await fs.writeFile(file, '<p>New</p>');
+    mockClient({ async getPage() { throw new Error('the page is not fetched first'); } });
+    const program = await loadProgram();
+    await withCapturedStdout(async () => {
+      await program.parseAsync(['node', 'bookstack', 'page', 'update', '301', '--html', file]);
+    });
+    expect(calls).toEqual([ ['updatePage', 301, { html: '<p>New</p>' }] ]);
+  });
+
+  it('images update sends the new file without reading the image first', async () => {
+    const file = path.join(tmpdir, 'logo.png');
+    await fs.writeFile(file, 'png');
+    mockClient({
+      async getImage() { throw new Error('the image is not fetched first'); },
+      async updateImage(id: number, input: any) { calls.push(['updateImage', id, input.name, input.file?.filename]); return { id, name: 'Logo' }; },
+    });
+    const program = await loadProgram();
+    await withCapturedStdout(async () => {
+      await program.parseAsync(['node', 'bookstack', 'images', 'update', '8', '--file', file]);
+    });
+    expect(calls).toEqual([ ['updateImage', 8, undefined, 'logo.png'] ]);
+  });
+
+  it('page move into a chapter', async () => {
+    mockClient();
+    const program = await loadProgram();
+    await withCapturedStdout(async () => {
+      await program.parseAsync(['node', 'bookstack', 'page', 'move', '301', '--chapter', '12']);
+    });
+    expect(calls[0]).toEqual(['movePage', 301, { chapterId: 12 }]);
+  });
+
+  it('shelf create resolves books into IDs', async () => {
+    mockClient();
+    const program = await loadProgram();
+    await withCapturedStdout(async () => {
+      await program.parseAsync(['node', 'bookstack', 'shelf', 'create', '--name', 'Ops', '--book', 'DocBook', '--book', '7']);
+    });
+    expect(calls[0]).toEqual(['createShelf', { name: 'Ops', books: [999, 7] }]);
+  });
+
+  it('images upload attaches the file to the resolved page', async () => {
+    const file = path.join(tmpdir, 'diagram.png');
+    await fs.writeFile(file, Buffer.from([1, 2, 3]));
+    mockClient({
+      async uploadImage(input: any) { calls.push(['uploadImage', input]); return { id: 9, name: input.name, url: 'https://x/uploads/images/gallery/d.png' }; },
+    });
+    const program = await loadProgram();
+    const out = await withCapturedStdout(async () => {
+      await program.parseAsync(['node', 'bookstack', 'images', 'upload', file, '--page', '301']);
+    });
+    const input = calls[0][1];
+    expect(input.name).toBe('diagram.png');
+    expect(input.uploadedTo).toBe(301);
+    expect(input.type).toBe('gallery');
+    expect(Array.from(input.file.data)).toEqual([1, 2, 3]);
+    expect(out).toContain('Uploaded image: diagram.png (ID: 9)');
+  });
+
+  it('images orphans --delete removes unreferenced images', async () => {
+    mockClient({
+      async getImages() {
+        return [
+          { id: 1, name: 'used.png', path: '/uploads/images/gallery/2024-01/used.png' },
+          { id: 2, name: 'stale.png', path: '/uploads/images/gallery/2024-01/stale.png' },
+        ];
+      },
+      async getAllPages() { return [ { id: 301, name: 'Page' } ]; },
+      async getPage(id: number) { return { id, name: 'Page', html: '<img src="/uploads/images/gallery/2024-01/scaled-1680-/used.png">' }; },
+      async deleteImage(id: number) { calls.push(['deleteImage', id]); },
+    });
+    const program = await loadProgram();
+    const out = await withCapturedStdout(async () => {
+      await program.parseAsync(['node', 'bookstack', 'images', 'orphans', '--delete', '--yes']);
+    });
+    expect(out).toContain('Orphaned images (1 of 2):');
+    expect(out).toContain('#2 stale.png');
+    expect(calls).toEqual([['deleteImage', 2]]);
+  });
+
+  it('book export-contents --report records every exported page', async () => {
+    const outDir = path.join(tmpdir, 'out');
+    const reportFile = path.join(tmpdir, 'report.json');
+    mockClient({
+      async getBook(id: number) {
+        return {
+          id, name: 'Doc Book', slug: 'docbook',
+          contents: [
+            { type: 'page', id: 1, name: 'Intro', slug: 'intro' },
+            { type: 'chapter', id: 2, name: 'Guide', slug: 'guide', pages: [ { type: 'page', id: 3, name: 'Setup', slug: 'setup' } ] },
+          ],
+        };
+      },
+      async getChapter(id: number) { return { id, name: 'Guide', tags: [] }; },
+      async exportPage(id: number) { return `page ${id}\n`; },
+      pageUrl: (book: string, page: string) => `https://bs.example/books/${book}/page/${page}`,
+      chapterUrl: (book: string, chapter: string) => `https://bs.example/books/${book}/chapter/${chapter}`,
+    });
+    const program = await loadProgram();
+    await withCapturedStdout(async () => {
+      await program.parseAsync(['node', 'bookstack', 'book', 'export-contents', 'DocBook', '--dir', outDir, '--report', reportFile]);
+    });
+    const report = await fs.readJson(reportFile);
+    expect(report).toMatchObject({ operation: 'export', ok: true, summary: { exported: 2 } });
+    // Items are listed as they finish, so pages and chapter folders may interleave
+    const items = [...report.items].sort((x: any, y: any) => x.path.localeCompare(y.path));
+    expect(items.map((i: any) => [i.type, i.status, i.path])).toEqual([
+      ['chapter', 'exported', 'guide'],
+      ['page', 'exported', 'guide/setup/page.md'],
+      ['page', 'exported', 'intro/page.md'],
+    ]);
+    expect(items[1]).toMatchObject({ id: 3, url: 'https://bs.example/books/docbook/page/setup', bytes: 7 });
+    expect(await fs.pathExists(path.join(outDir, '.bookstack-journal'))).toBe(false);
+  });
+
+  it('book export-contents --with-assets saves linked images next to each page', async () => {
+    const outDir = path.join(tmpdir, 'out');
+    mockClient({
+      async getBook(id: number) {
+        return { id, name: 'Doc Book', slug: 'docbook', contents: [ { type: 'page', id: 1, name: 'Intro', slug: 'intro' } ] };
+      },
+      async exportPage() { return '![diagram](https://bs.example/uploads/images/gallery/2024-01/scaled-1680-/diagram.png)\n'; },
+      async download(url: string) { calls.push(['download', url]); return new TextEncoder().encode('png'); },
+      webBase: () => 'https://bs.example',
+      pageUrl: (book: string, page: string) => `https://bs.example/books/${book}/page/${page}`,
+    });
+    const program = await loadProgram();
+    const out = await withCapturedStdout(async () => {
+      await program.parseAsync(['node', 'bookstack', 'book', 'export-contents', 'DocBook', '--dir', outDir, '--with-assets']);
+    });
+    expect(await fs.readFile(path.join(outDir, 'intro', 'page.md'), 'utf8')).toBe('![diagram](assets/diagram.png)\n');
+    expect(await fs.readFile(path.join(outDir, 'intro', 'assets', 'diagram.png'), 'utf8')).toBe('png');
+    expect(calls).toEqual([['download', '/uploads/images/gallery/2024-01/diagram.png']]);
+    expect(out).toContain('Assets: 1 files');
+  });
+
+  it('book export-contents output imports into an identical book', async () => {
+    const source = memoryServer();
+    const book = await source.createBook({ name: 'Handbook', description: 'How we work', tags: [ { name: 'team', value: 'docs' } ] });
+    await source.createPage({ book_id: book.id, name: 'Welcome', priority: 0, markdown: '# Welcome\n' });
+    const guide = await source.createChapter(book.id, { name: 'Guide', description: 'Getting started', priority: 1, tags: [ { name: 'level', value: 'intro' } ] });
+    await source.createPage({ book_id: book.id, chapter_id: guide.id, name: 'Install Steps', priority: 2, markdown: 'Run it.\n' });
+    await source.createPage({ book_id: book.id, chapter_id: guide.id, name: 'Configure', priority: 1, markdown: 'Set it.\n', tags: [ { name: 'draft' } ] });
+    await source.createPage({ book_id: book.id, name: 'Meeting Notes', priority: 2, markdown: '## Agenda\n', template: true });
+    await source.createChapter(book.id, { name: 'Reference', priority: 3 });
+    await source.createPage({ book_id: book.id, name: 'Legacy', priority: 4, html: '<p>Written in the WYSIWYG editor.</p>' });
+
+    const program = await loadProgram();
+    const first = path.join(tmpdir, 'first');
+    const second = path.join(tmpdir, 'second');
+    mockClient(source);
+    await withCapturedStdout(() => program.parseAsync(['node', 'bookstack', 'book', 'export-contents', 'Handbook', '--dir', first]));
+
+    const target = memoryServer();
+    mockClient(target);
+    await withCapturedStdout(() => program.parseAsync(['node', 'bookstack', 'import', first, '--no-state']));
+    await withCapturedStdout(() => program.parseAsync(['node', 'bookstack', 'book', 'export-contents', 'Handbook', '--dir', second]));
+
+    const exported = await readTree(first);
+    expect(Object.keys(exported)).toEqual([
+      '.book-metadata.json',
+      'guide/.chapter-metadata.json',
+      'guide/configure/.page-metadata.json',
+      'guide/configure/page.md',
+      'guide/install-steps/.page-metadata.json',
+      'guide/install-steps/page.md',
+      'legacy/.page-metadata.json',
+      'legacy/page.md',
+      'meeting-notes/.page-metadata.json',
+      'meeting-notes/page.md',
+      'reference/.chapter-metadata.json',
+      'welcome/.page-metadata.json',
+      'welcome/page.md',
+    ]);
+    expect(JSON.parse(exported['meeting-notes/.page-metadata.json'])).toEqual({ name: 'Meeting Notes', priority: 2, template: true });
+    expect(exported['welcome/page.md']).toBe('# Welcome\n');
+    expect(exported['legacy/page.md']).toBe('Written in the WYSIWYG editor.\n');
+    expect(await readTree(second)).toEqual(exported);
+    // Top-level pages stay out of chapters
+    expect(target.pages.filter((p) => !p.chapter_id).map((p) => p.name).sort()).toEqual(['Legacy', 'Meeting Notes', 'Welcome']);
+    expect(target.chapters.map((ch) => ch.name)).toEqual(['Guide', 'Reference']);
+  });
+
+  it('book export-contents --since last rewrites changed pages and follows renames and deletions', async () => {
+    const server = memoryServer();
+    const book = await server.createBook({ name: 'Handbook' });
+    const welcome = await server.createPage({ book_id: book.id, name: 'Welcome', markdown: 'Hi.\n' });
+    const guide = await server.createChapter(book.id, { name: 'Guide' });
+    const install = await server.createPage({ book_id: book.id, chapter_id: guide.id, name: 'Install', markdown: 'Run it.\n' });
+    const old = await server.createPage({ book_id: book.id, name: 'Old News', markdown: 'Gone soon.\n' });
+    const outDir = path.join(tmpdir, 'out');
+    const program = await loadProgram();
+    mockClient(server);
+    const exportSince = () => withCapturedStdout(() => program.parseAsync(['node', 'bookstack', 'book', 'export-contents', 'Handbook', '--dir', outDir, '--since', 'last']));
+
+    expect(await exportSince()).toContain('No earlier export recorded');
+    const state = await fs.readJson(path.join(outDir, '.bookstack-export.json'));
+    expect(state).toMatchObject({ version: 1, target: `book:${book.id}:nested:markdown`, watermark: 't', chapters: { [guide.id]: 'guide' } });
+    expect(state.pages[install.id]).toEqual({ path: 'guide/install', updatedAt: 't', priority: install.priority });
+
+    // A local edit to an unchanged page survives; the renamed page is moved and rewritten
+    await fs.writeFile(path.join(outDir, 'guide', 'install', 'page.md'), 'Local edit.\n');
+    await server.updatePage(welcome.id, { name: 'Hello', slug: 'hello', markdown: 'Hello.\n' });
+    server.pages.splice(server.pages.indexOf(server.pages.find((p) => p.id === old.id)), 1);
+    const out = await exportSince();
+
+    expect(out).toContain('1 of 2 pages changed since the last export');
+    expect(out).toContain('Removed deleted page: old-news');
+    expect(out).toContain('Moved renamed page: welcome → hello');
+    expect(Object.keys(await readTree(outDir))).toEqual([
+      '.book-metadata.json',
+      'guide/.chapter-metadata.json',
+      'guide/install/.page-metadata.json',
+      'guide/install/page.md',
+      'hello/.page-metadata.json',
+      'hello/page.md',
+    ]);
+    expect(await fs.readFile(path.join(outDir, 'guide', 'install', 'page.md'), 'utf8')).toBe('Local edit.\n');
+    expect(await fs.readFile(path.join(outDir, 'hello', 'page.md'), 'utf8')).toBe('Hello.\n');
+
+    expect(await exportSince()).toContain('0 of 2 pages changed since the last export');
+  });
+
+  it('book export-contents --git commits each run as the last editor', async () => {
+    const server = memoryServer();
+    const book = await server.createBook({ name: 'Handbook' });
+    const editor = { id: 3, name: 'Ada Lovelace', slug: 'ada' };
+    await server.createPage({ book_id: book.id, name: 'Welcome', markdown: 'Hi.\n', updated_by: editor, updated_at: '2026-10-01T08:00:00Z' });
+    const outDir = path.join(tmpdir, 'out');
+    const program = await loadProgram();
+    mockClient(server);
+    const exportGit = () => withCapturedStdout(() => program.parseAsync(['node', 'bookstack', 'book', 'export-contents', 'Handbook', '--dir', outDir, '--git']));
+    const log = () => execFileSync('git', ['log', '--format=%an <%ae> %aI %s'], { cwd: outDir, encoding: 'utf8' }).trim().split('\n');
+
+    expect(await exportGit()).toContain('Committed the export to git');
+    expect(log()).toEqual(['Ada Lovelace <ada@bs.example> 2026-10-01T08:00:00+00:00 Export Handbook from BookStack']);
+    expect(execFileSync('git', ['ls-files'], { cwd: outDir, encoding: 'utf8' }).trim().split('\n')).toEqual([
+      '.book-metadata.json', 'welcome/.page-metadata.json', 'welcome/page.md',
+    ]);
+
+    expect(await exportGit()).toContain('No changes to commit to git');
+    Object.assign(server.pages[0], { markdown: 'Hello.\n', updated_by: { id: 4, name: 'Grace Hopper', slug: 'grace' }, updated_at: '2026-10-02T08:00:00Z' });
+    await exportGit();
+    expect(log()[0]).toBe('Grace Hopper <grace@bs.example> 2026-10-02T08:00:00+00:00 Export Handbook from BookStack');
+  });
+});
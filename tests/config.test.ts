@@ -90,3 +90,23 @@ describe("resolveConfig supports .env and YAML/TOML", () => {
     expect(conf.tokenSecret).toBe("y_secret");
   });
 });
+
+describe("resolveConfig retry settings", () => {
+  it("reads retry settings from file, env and CLI in priority order", async () => {
+    await fs.writeJSON("bookstack-config.json", { retries: 5, retryDelay: 250, retry_max_delay: 9000 });
+    let conf = await resolveConfig({});
+    expect(conf.retries).toBe(5);
+    expect(conf.retryDelay).toBe(250);
+    expect(conf.retryMaxDelay).toBe(9000);
+
+    process.env.BOOKSTACK_RETRIES = "1";
+    try {
+      conf = await resolveConfig({});
+      expect(conf.retries).toBe(1);
+      conf = await resolveConfig({ cli: { retries: 0 } });
+      expect(conf.retries).toBe(0);
+    } finally {
+      delete process.env.BOOKSTACK_RETRIES;
+    }
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { applyExportPlan, buildExportState, ExportState, loadExportState, planExport, saveExportState } from '../src/export-state';
+
+const TARGET = 'book:1:legacy:markdown';
+
+let tmpdir: string;
+
+beforeEach(async () => {
+  tmpdir = await fs.mkdtemp(path.join(os.tmpdir(), 'bookstack-export-state-'));
+});
+
+afterEach(async () => {
+  await fs.remove(tmpdir);
+});
+
+function previousState(): ExportState {
+  return {
+    version: 1,
+    target: TARGET,
+    exportedAt: '2026-10-01T00:00:00.000Z',
+    chapters: { 10: 'guide-10', 11: 'old-chapter-11' },
+    pages: {
+      1: { path: 'intro-1.md', updatedAt: '2026-09-01T00:00:00Z', priority: 0 },
+      2: { path: 'guide-10/setup-2.md', updatedAt: '2026-09-01T00:00:00Z', priority: 1 },
+      3: { path: 'old-chapter-11/faq-3.md', updatedAt: '2026-09-01T00:00:00Z', priority: 0 },
+      4: { path: 'removed-4.md', updatedAt: '2026-09-01T00:00:00Z' },
+      5: { path: 'reorder-5.md', updatedAt: '2026-09-01T00:00:00Z', priority: 2 },
+    },
+  };
+}
+
+async function writePrevious(state: ExportState) {
+  for (const page of Object.values(state.pages)) await fs.outputFile(path.join(tmpdir, page.path), 'old');
+  await fs.outputFile(path.join(tmpdir, 'old-chapter-11', '.chapter-metadata.json'), '{}');
+}
+
+describe('planExport', () => {
+  it('exports new, changed, reordered and missing pages and follows renames', async () => {
+    const previous = previousState();
+    await writePrevious(previous);
+    await fs.remove(path.join(tmpdir, 'intro-1.md'));
+    const plan = await planExport(tmpdir, [
+      { id: 1, path: 'intro-1.md', updatedAt: '2026-09-01T00:00:00Z', priority: 0 },
+      { id: 2, path: 'guide-10/setup-2.md', updatedAt: '2026-10-02T00:00:00Z', priority: 1 },
+      { id: 3, path: 'guide-10/faq-3.md', updatedAt: '2026-09-01T00:00:00Z', priority: 0 },
+      { id: 5, path: 'reorder-5.md', updatedAt: '2026-09-01T00:00:00Z', priority: 0 },
+      { id: 6, path: 'new-6.md', updatedAt: '2026-08-01T00:00:00Z' },
+    ], ['guide-10'], previous, 'last');
+
+    expect([...plan.export].sort()).toEqual([1, 2, 5, 6]);
+    expect(plan.moves).toEqual([ { id: 3, from: 'old-chapter-11/faq-3.md', to: 'guide-10/faq-3.md' } ]);
+    expect(plan.removals).toEqual(['removed-4.md']);
+    expect(plan.staleChapters).toEqual(['old-chapter-11']);
+
+    await applyExportPlan(tmpdir, plan);
+    expect(await fs.readFile(path.join(tmpdir, 'guide-10', 'faq-3.md'), 'utf8')).toBe('old');
+    expect(await fs.pathExists(path.join(tmpdir, 'removed-4.md'))).toBe(false);
+    expect(await fs.pathExists(path.join(tmpdir, 'old-chapter-11'))).toBe(false);
+  });
+
+  it('compares against a timestamp, and exports everything without a previous run', async () => {
+    const pages = [
+      { id: 1, path: 'a-1.md', updatedAt: '2026-09-30T23:59:59Z' },
+      { id: 2, path: 'b-2.md', updatedAt: '2026-10-01T00:00:01Z' },
+    ];
+    for (const p of pages) await fs.outputFile(path.join(tmpdir, p.path), 'old');
+    const since = new Date('2026-10-01T00:00:00Z');
+    expect([...(await planExport(tmpdir, pages, [], undefined, since)).export]).toEqual([2]);
+    expect([...(await planExport(tmpdir, pages, [], undefined, 'last')).export]).toEqual([1, 2]);
+  });
+});
+
+describe('export state file', () => {
+  it('round-trips and ignores the state of another export', async () => {
+    const state = buildExportState(TARGET, [
+      { id: 1, path: 'a-1.md', updatedAt: '2026-10-02T00:00:00Z' },
+      { id: 2, path: 'b-2.md', updatedAt: '2026-10-03T00:00:00Z', priority: 1 },
+    ], { 10: 'guide-10' });
+    expect(state.watermark).toBe('2026-10-03T00:00:00Z');
+    await saveExportState(tmpdir, state);
+    expect(await loadExportState(tmpdir, TARGET)).toEqual(state);
+
+    const warnings: string[] = [];
+    const warn = console.warn;
+    console.warn = (msg: string) => warnings.push(msg);
+    try {
+      expect(await loadExportState(tmpdir, 'book:1:nested:markdown')).toBeUndefined();
+    } finally {
+      console.warn = warn;
+    }
+    expect(warnings[0]).toContain(`it records a different export (${TARGET})`);
+  });
+
+  it('rejects a state file with paths outside the export directory', async () => {
+    const outRoot = path.join(tmpdir, 'out');
+    await fs.outputFile(path.join(tmpdir, 'keep.md'), 'not part of the export');
+    const tampered = previousState();
+    tampered.pages[4].path = '../keep.md';
+    await fs.ensureDir(outRoot);
+    await saveExportState(outRoot, tampered);
+
+    const warnings: string[] = [];
+    const warn = console.warn;
+    console.warn = (msg: string) => warnings.push(msg);
+    let previous: ExportState | undefined;
+    try {
+      previous = await loadExportState(outRoot, TARGET);
+    } finally {
+      console.warn = warn;
+    }
+    expect(previous).toBeUndefined();
+    expect(warnings[0]).toContain('it lists a path outside the export directory ("../keep.md")');
+
+    // Without a previous state every page is exported and nothing is removed
+    const plan = await planExport(outRoot, [ { id: 1, path: 'intro-1.md' } ], [], previous, 'last');
+    expect(plan.removals).toEqual([]);
+    expect([...plan.export]).toEqual([1]);
+
+    const unsafe = { export: new Set<number>(), moves: [], removals: ['../keep.md'], staleChapters: [] };
+    await expect(applyExportPlan(outRoot, unsafe)).rejects.toThrow('outside the export directory');
+    await expect(applyExportPlan(outRoot, { ...unsafe, removals: ['.'] })).rejects.toThrow('outside the export directory');
+    expect(await fs.pathExists(path.join(tmpdir, 'keep.md'))).toBe(true);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'bun:test';
+import { mergePageMetadata, parseFrontMatter, splitFrontMatter } from '../src/front-matter';
+
+describe('front matter', () => {
+  it('parses title, priority, tags and template and strips the block', () => {
+    const { meta, body } = parseFrontMatter([
+      '---',
+      'title: Getting Started',
+      'priority: 3',
+      'tags:',
+      '  - team=docs',
+      '  - name: draft',
+      'template: true',
+      '---',
+      '# Hello',
+      '',
+    ].join('\n'));
+    expect(meta).toEqual({
+      name: 'Getting Started',
+      priority: 3,
+      tags: [ { name: 'team', value: 'docs' }, { name: 'draft' } ],
+      template: true,
+    });
+    expect(body).toBe('# Hello\n');
+  });
+
+  it('leaves content without front matter untouched', () => {
+    const text = '# Title\n\n---\n\nnot: front matter\n';
+    expect(parseFrontMatter(text)).toEqual({ meta: {}, body: text });
+  });
+
+  it('accepts an empty block and CRLF line endings', () => {
+    expect(splitFrontMatter('---\n---\nBody')).toEqual({ yaml: '', body: 'Body' });
+    expect(parseFrontMatter('---\r\ntitle: Win\r\n---\r\nBody').meta).toEqual({ name: 'Win' });
+  });
+
+  it('rejects malformed fields', () => {
+    expect(() => parseFrontMatter('---\npriority: first\n---\n')).toThrow('priority');
+    expect(() => parseFrontMatter('---\n- a\n- b\n---\n')).toThrow('mapping');
+    expect(() => parseFrontMatter('---\ntemplate: "yes"\n---\n')).toThrow('template');
+  });
+
+  it('merges per field with the chosen precedence', () => {
+    const sidecar = { name: 'Sidecar', priority: 1 };
+    const front = { name: 'Front', tags: [ { name: 'draft' } ] };
+    expect(mergePageMetadata(sidecar, front)).toEqual({ name: 'Front', priority: 1, tags: [ { name: 'draft' } ] });
+    expect(mergePageMetadata(sidecar, front, 'sidecar')).toEqual({ name: 'Sidecar', priority: 1, tags: [ { name: 'draft' } ] });
+  });
+});
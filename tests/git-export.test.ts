@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { commitRun, GitRepo, gitAuthor, replayRevisions } from '../src/git-export';
+
+const ada = { id: 1, name: 'Ada Lovelace', slug: 'ada' };
+const grace = { id: 2, name: 'Grace Hopper', slug: 'grace' };
+
+let tmpdir: string;
+
+beforeEach(async () => {
+  tmpdir = await fs.mkdtemp(path.join(os.tmpdir(), 'bookstack-git-'));
+});
+
+afterEach(async () => {
+  await fs.remove(tmpdir);
+});
+
+// One line per commit, newest first: "author name <email> | author date | subject"
+function gitLog(dir: string): string[] {
+  const out = execFileSync('git', ['log', '--format=%an <%ae> | %aI | %s'], { cwd: dir, encoding: 'utf8' });
+  return out.trim().split('\n').filter(Boolean);
+}
+
+describe('GitRepo', () => {
+  it('starts a repository, keeps the export state out of it and commits only changes', async () => {
+    const dir = path.join(tmpdir, 'out');
+    const repo = await GitRepo.open(dir);
+    await fs.outputFile(path.join(dir, 'intro', 'page.md'), 'Hi.\n');
+    await fs.outputFile(path.join(dir, '.bookstack-export.json'), '{}');
+
+    expect(await repo.commit('First', gitAuthor(ada, '2026-10-01T09:30:00.000000Z', 'docs.example'))).toMatch(/^[0-9a-f]+$/);
+    expect(await repo.commit('Nothing new')).toBeUndefined();
+    expect(gitLog(dir)).toEqual(['Ada Lovelace <ada@docs.example> | 2026-10-01T09:30:00+00:00 | First']);
+    expect(execFileSync('git', ['ls-files'], { cwd: dir, encoding: 'utf8' })).toBe('intro/page.md\n');
+
+    // Opening again reuses the repository and its exclude entries
+    await GitRepo.open(dir);
+    const exclude = await fs.readFile(path.join(dir, '.git', 'info', 'exclude'), 'utf8');
+    expect(exclude.split('\n').filter((line) => line === '.bookstack-export.json')).toHaveLength(1);
+  });
+});
+
+describe('replayRevisions and commitRun', () => {
+  it('commits revisions oldest first, then the run as the latest editor', async () => {
+    const dir = path.join(tmpdir, 'out');
+    const repo = await GitRepo.open(dir);
+    const revisions: Record<number, any[]> = {
+      1: [
+        { id: 11, page_id: 1, name: 'Intro', created_at: '2026-10-01T00:00:00Z', created_by: ada, markdown: 'v1\n' },
+        { id: 13, page_id: 1, name: 'Intro', created_at: '2026-10-03T00:00:00Z', created_by: grace, summary: 'Fix typo' },
+      ],
+      2: [ { id: 12, page_id: 2, name: 'Setup', created_at: '2026-10-02T00:00:00Z', created_by: ada, markdown: 'steps\n' } ],
+    };
+    const client = {
+      async getPageRevisions(id: number) { return revisions[id]; },
+      async getPageRevision(_: number, id: number) { return { ...revisions[1][1], id, markdown: 'v2\n' }; },
+      async getPage(id: number) {
+        return id === 1
+          ? { updated_by: grace, updated_at: '2026-10-03T00:00:00Z' }
+          : { updated_by: ada, updated_at: '2026-10-02T00:00:00Z' };
+      },
+    };
+    const pages = [
+      { id: 1, name: 'Intro', path: 'intro', file: 'intro/page.md' },
+      { id: 2, name: 'Setup', path: 'guide/setup', file: 'guide/setup/page.md' },
+    ];
+
+    expect(await replayRevisions(repo, client, pages, 'markdown', 'docs.example')).toBe(3);
+    expect(await fs.readFile(path.join(dir, 'intro', 'page.md'), 'utf8')).toBe('v2\n');
+
+    // The run adds the page metadata and the exported text on top of the history
+    await fs.outputFile(path.join(dir, 'intro', 'page.md'), '# Intro\n\nv2\n');
+    await fs.outputFile(path.join(dir, 'intro', '.page-metadata.json'), '{}\n');
+    await fs.outputFile(path.join(dir, 'guide', 'setup', '.page-metadata.json'), '{}\n');
+    expect(await commitRun(repo, client, 'Export Handbook from BookStack', pages, 'docs.example')).toBeDefined();
+
+    expect(gitLog(dir)).toEqual([
+      'Grace Hopper <grace@docs.example> | 2026-10-03T00:00:00+00:00 | Export Handbook from BookStack',
+      'Grace Hopper <grace@docs.example> | 2026-10-03T00:00:00+00:00 | Update Intro',
+      'Ada Lovelace <ada@docs.example> | 2026-10-02T00:00:00+00:00 | Update Setup',
+      'Ada Lovelace <ada@docs.example> | 2026-10-01T00:00:00+00:00 | Update Intro',
+    ]);
+    const message = execFileSync('git', ['log', '-1', '--format=%B'], { cwd: dir, encoding: 'utf8' }).trim();
+    expect(message).toBe('Export Handbook from BookStack\n\n- Intro\n- Setup\n\nCo-authored-by: Ada Lovelace <ada@docs.example>');
+    expect(execFileSync('git', ['log', '--format=%b', '-1', 'HEAD~1'], { cwd: dir, encoding: 'utf8' }).trim()).toBe('Fix typo');
+  });
+
+  it('reports a missing revisions API and skips revisions without the export format', async () => {
+    const repo = await GitRepo.open(tmpdir);
+    const page = { id: 1, name: 'Intro', file: 'intro.md', after: '2026-10-01T00:00:00Z' };
+    const client = {
+      async getPageRevisions(): Promise<any[] | undefined> { return undefined; },
+      async getPageRevision(): Promise<any> { throw new Error('not called'); },
+    };
+    expect(await replayRevisions(repo, client, [page], 'markdown', 'docs.example')).toBeUndefined();
+
+    client.getPageRevisions = async () => [
+      { id: 1, page_id: 1, name: 'Intro', created_at: '2026-09-30T00:00:00Z', markdown: 'before the last export' },
+      { id: 2, page_id: 1, name: 'Intro', created_at: '2026-10-02T00:00:00Z', markdown: '', html: '<p>WYSIWYG</p>' },
+    ];
+    expect(await replayRevisions(repo, client, [page], 'markdown', 'docs.example')).toBe(0);
+    expect(await fs.pathExists(path.join(tmpdir, 'intro.md'))).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'bun:test';
+import axios, { AxiosError } from 'axios';
+import { attachRetry, backoffDelay, parseRetryAfter } from '../src/http-retry';
+
+// Build an axios instance whose transport replays a scripted list of responses.
+function scriptedInstance(script: Array<{ status: number; headers?: Record<string, string> } | 'reset'>, opts = {}) {
+  const instance = axios.create({ baseURL: 'https://bs.example/api' });
+  const calls: string[] = [];
+  const retries: any[] = [];
+  instance.defaults.adapter = async (config: any) => {
+    calls.push(`${String(config.method).toUpperCase()} ${config.url}`);
+    const step = script.shift() ?? { status: 200 };
+    if (step === 'reset') {
+      throw new AxiosError('socket hang up', 'ECONNRESET', config);
+    }
+    const response = { data: { ok: true }, status: step.status, statusText: '', headers: step.headers || {}, config };
+    if (step.status >= 400) {
+      throw new AxiosError(`Request failed with status code ${step.status}`, 'ERR_BAD_RESPONSE', config, null, response as any);
+    }
+    return response;
+  };
+  attachRetry(instance, { retries: 3, baseDelayMs: 1, maxDelayMs: 5, onRetry: (i) => retries.push(i), ...opts });
+  return { instance, calls, retries };
+}
+
+describe('attachRetry', () => {
+  it('retries 429 and 5xx responses for GET until success', async () => {
+    const { instance, calls, retries } = scriptedInstance([
+      { status: 429, headers: { 'retry-after': '0' } },
+      { status: 502 },
+      { status: 200 },
+    ]);
+    const res = await instance.get('/pages/1');
+    expect(res.status).toBe(200);
+    expect(calls.length).toBe(3);
+    expect(retries.map((r) => r.status)).toEqual([429, 502]);
+    expect(retries[0].delayMs).toBe(0);
+  });
+
+  it('retries dropped connections for idempotent methods', async () => {
+    const { instance, calls } = scriptedInstance(['reset', { status: 200 }]);
+    await instance.put('/pages/1', { name: 'x' });
+    expect(calls).toEqual(['PUT /pages/1', 'PUT /pages/1']);
+  });
+
+  it('does not retry non-idempotent requests on server errors', async () => {
+    const { instance, calls } = scriptedInstance([{ status: 502 }, { status: 200 }]);
+    await expect(instance.post('/pages', {})).rejects.toThrow('502');
+    expect(calls.length).toBe(1);
+  });
+
+  it('retries POST when throttled', async () => {
+    const { instance, calls } = scriptedInstance([{ status: 429, headers: { 'retry-after': '0' } }, { status: 200 }]);
+    await instance.post('/pages', {});
+    expect(calls.length).toBe(2);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const { instance, calls } = scriptedInstance([{ status: 503 }, { status: 503 }, { status: 503 }], { retries: 2 });
+    await expect(instance.get('/books')).rejects.toThrow('503');
+    expect(calls.length).toBe(3);
+  });
+
+  it('does not retry client errors', async () => {
+    const { instance, calls } = scriptedInstance([{ status: 404 }]);
+    await expect(instance.get('/books/9')).rejects.toThrow('404');
+    expect(calls.length).toBe(1);
+  });
+});
+
+describe('retry timing helpers', () => {
+  it('backoffDelay doubles per attempt and respects the ceiling', () => {
+    const fixed = () => 1;
+    expect(backoffDelay(1, 100, 10000, fixed)).toBe(100);
+    expect(backoffDelay(3, 100, 10000, fixed)).toBe(400);
+    expect(backoffDelay(10, 100, 1000, fixed)).toBe(1000);
+    expect(backoffDelay(3, 100, 10000, () => 0)).toBe(200);
+  });
+
+  it('parseRetryAfter handles seconds, HTTP dates and rate-limit reset', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(parseRetryAfter({ 'Retry-After': '3' }, now)).toBe(3000);
+    expect(parseRetryAfter({ 'retry-after': 'Mon, 01 Jan 2024 00:00:05 GMT' }, now)).toBe(5000);
+    expect(parseRetryAfter({ 'x-ratelimit-reset': String(now / 1000 + 7) }, now)).toBe(7000);
+    expect(parseRetryAfter({}, now)).toBeNull();
+  });
+});
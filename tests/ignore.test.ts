@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'bun:test';
+import { matchRules, parseIgnore, SourceFilter } from '../src/ignore';
+import { MemoryFs } from '../src/source-fs';
+
+const ignored = (text: string, rel: string, isDir = false) => !!matchRules(parseIgnore(text), rel, isDir);
+
+describe('parseIgnore', () => {
+  it('matches unanchored patterns at any depth', () => {
+    expect(ignored('CHANGELOG.md', 'CHANGELOG.md')).toBe(true);
+    expect(ignored('CHANGELOG.md', 'guide/CHANGELOG.md')).toBe(true);
+    expect(ignored('*.draft.md', 'guide/setup.draft.md')).toBe(true);
+    expect(ignored('*.md', 'guide/setup.html')).toBe(false);
+  });
+
+  it('anchors patterns containing a slash', () => {
+    expect(ignored('/notes.md', 'notes.md')).toBe(true);
+    expect(ignored('/notes.md', 'guide/notes.md')).toBe(false);
+    expect(ignored('guide/*.md', 'guide/a.md')).toBe(true);
+    expect(ignored('guide/*.md', 'guide/sub/a.md')).toBe(false);
+    expect(ignored('guide/**/a.md', 'guide/x/y/a.md')).toBe(true);
+    expect(ignored('guide/**/a.md', 'guide/a.md')).toBe(true);
+  });
+
+  it('handles directory-only rules, negation, comments and classes', () => {
+    const text = '# drafts\n_partials/\n*.md\n!keep.md\n\nv[0-9].html\n';
+    expect(ignored(text, '_partials', true)).toBe(true);
+    expect(ignored(text, '_partials', false)).toBe(false);
+    expect(ignored(text, 'a.md')).toBe(true);
+    expect(ignored(text, 'keep.md')).toBe(false);
+    expect(ignored(text, 'v2.html')).toBe(true);
+    expect(ignored(text, 'vx.html')).toBe(false);
+  });
+});
+
+describe('SourceFilter', () => {
+  const files = (entries: Record<string, string>) =>
+    new MemoryFs('/src', new Map(Object.entries(entries).map(([k, v]) => [k, Buffer.from(v)])));
+
+  it('applies nested ignore files to their own subtree only', async () => {
+    const src = files({
+      '.bookstackignore': 'node_modules/\n',
+      'guide/.bookstackignore': '*.draft.md\n',
+      'guide/a.draft.md': '',
+      'b.draft.md': '',
+      'node_modules/pkg/README.md': '',
+    });
+    const filter = new SourceFilter(src, '/src');
+    expect(await filter.accepts('/src/guide/a.draft.md', false)).toBe(false);
+    expect(await filter.accepts('/src/b.draft.md', false)).toBe(true);
+    expect(await filter.accepts('/src/node_modules', true)).toBe(false);
+    expect(await filter.accepts('/src/node_modules/pkg/README.md', false)).toBe(false);
+  });
+
+  it('combines --exclude with the ignore files and narrows files with --include', async () => {
+    const src = files({ '.bookstackignore': '!guide/keep.md\n', 'guide/keep.md': '', 'guide/x.html': '', 'CHANGELOG.md': '' });
+    const filter = new SourceFilter(src, '/src', { include: ['*.md'], exclude: ['CHANGELOG.md'] });
+    expect(await filter.accepts('/src/guide', true)).toBe(true);
+    expect(await filter.accepts('/src/guide/keep.md', false)).toBe(true);
+    expect(await filter.accepts('/src/guide/x.html', false)).toBe(false);
+    expect(await filter.accepts('/src/CHANGELOG.md', false)).toBe(false);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'bun:test';
+import * as path from 'path';
+import { normalizeImagePath, extractImageReferences, findOrphanImages, findLocalImageRefs, rewriteImageRefs, hashedImageName } from '../src/images';
+
+const image = (id: number, file: string, extra: Record<string, any> = {}) => ({
+  id,
+  name: file,
+  url: `https://docs.example.com/uploads/images/gallery/2024-01/${file}`,
+  path: `/uploads/images/gallery/2024-01/${file}`,
+  ...extra,
+});
+
+describe('normalizeImagePath', () => {
+  it('strips host, query and scaled/thumbnail folders', () => {
+    expect(normalizeImagePath('https://docs.example.com/uploads/images/gallery/2024-01/scaled-1680-/a.png?v=2'))
+      .toBe('/uploads/images/gallery/2024-01/a.png');
+    expect(normalizeImagePath('/uploads/images/gallery/2024-01/thumbs-150-150/a%20b.png'))
+      .toBe('/uploads/images/gallery/2024-01/a b.png');
+  });
+});
+
+describe('extractImageReferences', () => {
+  it('finds paths in HTML and markdown and drawio IDs', () => {
+    const refs = extractImageReferences([
+      '<img src="https://docs.example.com/uploads/images/gallery/2024-01/scaled-1680-/a.png">',
+      '![b](/uploads/images/gallery/2024-01/b.png)',
+      '<div drawio-diagram="12"><img src="data:image/png;base64,AAAA"></div>',
+    ].join('\n'));
+    expect([...refs.paths].sort()).toEqual([
+      '/uploads/images/gallery/2024-01/a.png',
+      '/uploads/images/gallery/2024-01/b.png',
+    ]);
+    expect([...refs.drawioIds]).toEqual([12]);
+  });
+});
+
+describe('findOrphanImages', () => {
+  it('reports only images no page references', () => {
+    const images = [
+      image(1, 'a.png'),
+      image(2, 'b.png'),
+      image(3, 'c.png'),
+      image(12, 'drawing.png', { type: 'drawio' }),
+      { id: 20, name: 'unknown' },
+    ];
+    const report = findOrphanImages(images as any, [
+      { id: 1, name: 'One', html: '<img src="/uploads/images/gallery/2024-01/thumbs-150-150/a.png">' },
+      { id: 2, name: 'Two', markdown: '![b](https://docs.example.com/uploads/images/gallery/2024-01/b.png)' },
+      { id: 3, name: 'Three', html: '<div drawio-diagram="12"></div>' },
+    ]);
+    expect(report.orphans.map((i) => i.id)).toEqual([3]);
+    expect(report.referenced).toBe(4);
+    expect(report.scannedPages).toBe(3);
+  });
+});
+
+describe('local image references', () => {
+  const md = [
+    '![Diagram](./img/diagram.png "Title")',
+    '![spaced](<img/my diagram.png>)',
+    '![remote](https://example.com/a.png) ![root](/uploads/a.png) ![doc](notes.md)',
+    '<img alt="x" src="img/inline.jpg">',
+    '![again](./img/diagram.png)',
+  ].join('\n');
+
+  it('finds relative image files in markdown and HTML', () => {
+    const refs = findLocalImageRefs(md, 'markdown', '/src/docs');
+    expect(refs).toEqual([
+      { ref: './img/diagram.png', filePath: path.resolve('/src/docs/img/diagram.png') },
+      { ref: 'img/my diagram.png', filePath: path.resolve('/src/docs/img/my diagram.png') },
+      { ref: 'img/inline.jpg', filePath: path.resolve('/src/docs/img/inline.jpg') },
+    ]);
+    expect(findLocalImageRefs(md, 'html', '/src/docs').map((r) => r.ref)).toEqual(['img/inline.jpg']);
+  });
+
+  it('rewrites only the mapped references', () => {
+    const urls = new Map([
+      ['./img/diagram.png', 'https://docs.example.com/uploads/images/gallery/2024-01/diagram-abc.png'],
+      ['img/inline.jpg', 'https://docs.example.com/uploads/images/gallery/2024-01/inline-def.jpg'],
+    ]);
+    const out = rewriteImageRefs(md, 'markdown', urls);
+    expect(out).toContain('![Diagram](https://docs.example.com/uploads/images/gallery/2024-01/diagram-abc.png "Title")');
+    expect(out).toContain('![again](https://docs.example.com/uploads/images/gallery/2024-01/diagram-abc.png)');
+    expect(out).toContain('<img alt="x" src="https://docs.example.com/uploads/images/gallery/2024-01/inline-def.jpg">');
+    expect(out).toContain('![spaced](<img/my diagram.png>)');
+  });
+
+  it('embeds a short content hash in gallery names', () => {
+    expect(hashedImageName('/x/diagram.png', 'a1b2c3d4e5f6a7b8')).toBe('diagram-a1b2c3d4e5f6.png');
+  });
+});
@@ -0,0 +1,691 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { ImportCommand } from '../src/commands/import';
+import { STATE_FILE } from '../src/import-state';
+import { JOURNAL_FILE } from '../src/checkpoint';
+import { makeTar, makeZip } from './archive-fixtures';
+import { configureUi } from '../src/ui';
+
+// In-memory stand-in for BookStackClient covering the calls the importer makes
+function fakeClient(seed: { pages?: any[]; chapters?: any[] } = {}) {
+  const calls: any[][] = [];
+  let nextId = 100;
+  const pages: any[] = seed.pages || [];
+  const chapters: any[] = seed.chapters || [];
+  const client: any = {
+    calls,
+    pages,
+    chapters,
+    async testConnection() { return true; },
+    bookUrl: (book: string) => `https://bs.example/books/${book}`,
+    pageUrl: (book: string, page: string) => `https://bs.example/books/${book}/page/${page}`,
+    chapterUrl: (book: string, chapter: string) => `https://bs.example/books/${book}/chapter/${chapter}`,
+    async findBookByName(name: string) { return { id: 1, name, slug: 'book' }; },
+    async getBook(id: number) { return { id, name: 'Book', slug: 'book' }; },
+    async updateBook(id: number, data: any) { calls.push(['updateBook', id, data]); return { id, ...data }; },
+    async getChapters() { return chapters; },
+    async createChapter(bookId: number, data: any) {
+      calls.push(['createChapter', bookId, data]);
+      const ch = { id: nextId++, book_id: bookId, slug: data.name.toLowerCase(), ...data };
+      chapters.push(ch);
+      return ch;
+    },
+    async getChapter(id: number) { return { ...chapters.find((ch) => ch.id === id) }; },
+    async updateChapter(id: number, data: any) {
+      calls.push(['updateChapter', id, data]);
+      const ch = chapters.find((c) => c.id === id) || { id };
+      return { ...Object.assign(ch, data) };
+    },
+    async getPages() { return pages; },
+    async getPage(id: number) {
+      const page = pages.find((p) => p.id === id);
+      if (!page) throw new Error(`page ${id} not found`);
+      return { ...page };
+    },
+    async createPage(data: any) {
+      calls.push(['createPage', data]);
+      const page = { id: nextId++, slug: data.name.toLowerCase(), created_at: 't', updated_at: 't', ...data };
+      pages.push(page);
+      return page;
+    },
+    async updatePage(id: number, data: any) {
+      calls.push(['updatePage', id, data]);
+      const page = pages.find((p) => p.id === id) || { id };
+      Object.assign(page, data, { updated_at: 'u' });
+      return { created_at: 't', ...page };
+    },
+    async deletePage(id: number) { calls.push(['deletePage', id]); },
+    async deleteChapter(id: number) { calls.push(['deleteChapter', id]); },
+    async movePage(id: number, target: any) {
+      calls.push(['movePage', id, target]);
+      const page = pages.find((p) => p.id === id) || { id };
+      if (target.chapterId) page.chapter_id = target.chapterId;
+      return { ...page };
+    },
+    gallery: [] as any[],
+    async listImages(opts: any) {
+      const data = client.gallery.filter((img: any) => img.name === opts.filter?.name);
+      return { data, total: data.length };
+    },
+    async uploadImage(input: any) {
+      calls.push(['uploadImage', input.name, input.uploadedTo]);
+      const img = { id: nextId++, name: input.name, url: `https://bs.example/uploads/images/gallery/${input.name}` };
+      client.gallery.push(img);
+      return img;
+    },
+  };
+  return client;
+}
+
+let tmpdir: string;
+
+beforeEach(async () => {
+  configureUi({ quiet: true });
+  tmpdir = await fs.mkdtemp(path.join(os.tmpdir(), 'bookstack-import-'));
+});
+
+afterEach(async () => {
+  configureUi({ quiet: false });
+  await fs.remove(tmpdir);
+});
+
+describe('ImportCommand', () => {
+  it('applies front matter over sidecar metadata and strips it from the body', async () => {
+    const pageDir = path.join(tmpdir, 'guide', 'intro');
+    await fs.ensureDir(pageDir);
+    await fs.writeJson(path.join(pageDir, '.page-metadata.json'), { name: 'Sidecar Name', priority: 4 });
+    await fs.writeFile(path.join(pageDir, 'page.md'), '---\ntitle: Intro\ntags: [team=docs]\ntemplate: true\n---\n# Intro\n');
+
+    const client = fakeClient();
+    await new ImportCommand(client).execute(tmpdir, { format: 'markdown' });
+
+    const [, data] = client.calls.find((c: any[]) => c[0] === 'createPage');
+    expect(data.name).toBe('Intro');
+    expect(data.priority).toBe(4);
+    expect(data.tags).toEqual([ { name: 'team', value: 'docs' } ]);
+    expect(data.template).toBe(true);
+    expect(data.markdown).toBe('# Intro\n');
+  });
+
+  it('lets sidecar metadata win with metadataPrecedence: sidecar', async () => {
+    const pageDir = path.join(tmpdir, 'guide', 'intro');
+    await fs.ensureDir(pageDir);
+    await fs.writeJson(path.join(pageDir, '.page-metadata.json'), { name: 'Sidecar Name' });
+    await fs.writeFile(path.join(pageDir, 'page.md'), '---\ntitle: Intro\n---\nBody\n');
+
+    const client = fakeClient();
+    await new ImportCommand(client).execute(tmpdir, { format: 'markdown', metadataPrecedence: 'sidecar' });
+
+    const [, data] = client.calls.find((c: any[]) => c[0] === 'createPage');
+    expect(data.name).toBe('Sidecar Name');
+    expect(data.markdown).toBe('Body\n');
+  });
+
+  it('sends tags from book and chapter metadata', async () => {
+    await fs.writeJson(path.join(tmpdir, '.book-metadata.json'), { name: 'Book', tags: { team: 'docs' } });
+    await fs.ensureDir(path.join(tmpdir, 'guide'));
+    await fs.writeJson(path.join(tmpdir, 'guide', '.chapter-metadata.json'), { name: 'Guide', tags: ['draft'] });
+    await fs.writeFile(path.join(tmpdir, 'guide', 'a.md'), 'A\n');
+
+    const client = fakeClient();
+    await new ImportCommand(client).execute(tmpdir, { format: 'markdown' });
+
+    expect(client.calls).toContainEqual(['updateBook', 1, { tags: [ { name: 'team', value: 'docs' } ] }]);
+    const [, , chapterData] = client.calls.find((c: any[]) => c[0] === 'createChapter');
+    expect(chapterData.tags).toEqual([ { name: 'draft' } ]);
+  });
+
+  it('updates an existing chapter only where its metadata changed', async () => {
+    await fs.ensureDir(path.join(tmpdir, 'guide'));
+    const meta = { name: 'Guide', description: 'Start here', priority: 1, tags: ['draft'] };
+    await fs.writeJson(path.join(tmpdir, 'guide', '.chapter-metadata.json'), meta);
+    await fs.writeFile(path.join(tmpdir, 'guide', 'a.md'), 'A\n');
+    const client = fakeClient();
+    await new ImportCommand(client).execute(tmpdir, { format: 'markdown' });
+
+    client.calls.length = 0;
+    await new ImportCommand(client).execute(tmpdir, { format: 'markdown' });
+    expect(client.calls.filter((c: any[]) => c[0] === 'updateChapter')).toEqual([]);
+
+    await fs.writeJson(path.join(tmpdir, 'guide', '.chapter-metadata.json'), { ...meta, description: 'Read me first', priority: 3 });
+    await new ImportCommand(client).execute(tmpdir, { format: 'markdown' });
+    expect(client.calls.filter((c: any[]) => c[0] === 'updateChapter')).toEqual([
+      ['updateChapter', client.chapters[0].id, { description: 'Read me first', priority: 3 }],
+    ]);
+  });
+
+  it('uploads local images once per content and rewrites references', async () => {
+    const guide = path.join(tmpdir, 'guide');
+    await fs.ensureDir(path.join(guide, 'img'));
+    await fs.writeFile(path.join(guide, 'img', 'a.png'), 'same-bytes');
+    await fs.writeFile(path.join(guide, 'img', 'copy.png'), 'same-bytes');
+    await fs.writeFile(path.join(guide, 'one.md'), '![a](img/a.png)\n');
+    await fs.writeFile(path.join(guide, 'two.md'), '![copy](./img/copy.png) ![missing](img/none.png)\n');
+
+    const client = fakeClient();
+    await new ImportCommand(client).execute(tmpdir, { format: 'markdown' });
+
+    const uploads = client.calls.filter((c: any[]) => c[0] === 'uploadImage');
+    expect(uploads.length).toBe(1);
+    expect(uploads[0][1]).toMatch(/^a-[0-9a-f]{12}\.png$/);
+    const url = client.gallery[0].url;
+    const bodies = client.calls.filter((c: any[]) => c[0] === 'updatePage').map((c: any[]) => c[2].markdown);
+    expect(bodies).toEqual([`![a](${url})\n`]);
+    // The second page finds the image in the gallery and is created with its URL
+    const created = client.calls.filter((c: any[]) => c[0] === 'createPage').map((c: any[]) => c[1].markdown);
+    expect(created).toContain(`![copy](${url}) ![missing](img/none.png)\n`);
+
+    // A second import finds the earlier upload by its hashed name
+    const again = fakeClient();
+    again.gallery = client.gallery;
+    await new ImportCommand(again).execute(tmpdir, { format: 'markdown' });
+    expect(again.calls.filter((c: any[]) => c[0] === 'uploadImage')).toEqual([]);
+  });
+
+  it('saves uploaded images and rewritten links of a new page in one update', async () => {
+    await fs.ensureDir(path.join(tmpdir, 'img'));
+    await fs.writeFile(path.join(tmpdir, 'img', 'a.png'), 'bytes');
+    await fs.writeFile(path.join(tmpdir, 'index.md'), '![a](img/a.png) [next](next.md)\n');
+    await fs.writeFile(path.join(tmpdir, 'next.md'), 'Next\n');
+
+    const client = fakeClient();
+    await new ImportCommand(client).execute(tmpdir, { format: 'markdown' });
+
+    const url = client.gallery[0].url;
+    const index = client.calls.find((c: any[]) => c[0] === 'createPage' && c[1].name === 'index');
+    expect(index[1].markdown).toBe('![a](img/a.png) [next](next.md)\n');
+    const updates = client.calls.filter((c: any[]) => c[0] === 'updatePage');
+    expect(updates.length).toBe(1);
+    expect(updates[0][2].markdown).toBe(`![a](${url}) [next](https://bs.example/books/book/page/next)\n`);
+  });
+
+  it('does not upload images referenced from outside the import source', async () => {
+    const source = path.join(tmpdir, 'docs');
+    await fs.ensureDir(source);
+    await fs.writeFile(path.join(tmpdir, 'secret.png'), 'private-bytes');
+    await fs.writeFile(path.join(source, 'page.md'), '![x](../secret.png) <img src="../../secret.png">\n');
+
+    const client = fakeClient();
+    const warnings: string[] = [];
+    const origWarn = console.warn;
+    console.warn = (msg: string) => { warnings.push(msg); };
+    try {
+      await new ImportCommand(client).execute(source, { format: 'markdown' });
+    } finally {
+      console.warn = origWarn;
+    }
+
+    expect(client.calls.filter((c: any[]) => c[0] === 'uploadImage')).toEqual([]);
+    const [, data] = client.calls.find((c: any[]) => c[0] === 'createPage');
+    expect(data.markdown).toBe('![x](../secret.png) <img src="../../secret.png">\n');
+    expect(warnings.filter((w) => w.includes('image outside the import source skipped'))).toHaveLength(2);
+  });
+
+  it('rewrites relative document links after every page exists and reports the rest', async () => {
+    const guide = path.join(tmpdir, 'guide');
+    await fs.ensureDir(path.join(guide, 'setup'));
+    await fs.writeFile(path.join(guide, 'setup', 'page.md'), '# Setup\n');
+    await fs.writeFile(path.join(tmpdir, 'index.md'), [
+      '[setup](guide/setup/page.md#Install-Steps)',
+      '[folder](guide/setup/)',
+      '[chapter](./guide/)',
+      '<a href="missing.html">gone</a>',
+      '[web](https://example.com/x.md)',
+    ].join('\n'));
+
+    const client = fakeClient();
+    const logs: string[] = [];
+    const origLog = console.log;
+    console.log = (...args: any[]) => { logs.push(args.join(' ')); };
+    try {
+      await new ImportCommand(client).execute(tmpdir, { format: 'markdown' });
+    } finally {
+      console.log = origLog;
+    }
+
+    // index.md is created before guide/setup/page.md exists, then rewritten
+    const update = client.calls.find((c: any[]) => c[0] === 'updatePage');
+    expect(update[2].markdown).toBe([
+      '[setup](https://bs.example/books/book/page/setup#bkmrk-install-steps)',
+      '[folder](https://bs.example/books/book/page/setup)',
+      '[chapter](https://bs.example/books/book/chapter/guide)',
+      '<a href="missing.html">gone</a>',
+      '[web](https://example.com/x.md)',
+    ].join('\n'));
+    expect(logs.some((l) => l.includes('Unresolved links (1)'))).toBe(true);
+    expect(logs.some((l) => l.endsWith('index.md: missing.html'))).toBe(true);
+  });
+
+  it('skips updates when the remote page already matches and reports counts', async () => {
+    const guide = path.join(tmpdir, 'guide');
+    await fs.ensureDir(path.join(guide, 'empty'));
+    await fs.writeFile(path.join(guide, 'same.md'), 'Same  \r\nbody\r\n');
+    await fs.writeFile(path.join(guide, 'edited.md'), 'New body\n');
+    await fs.writeFile(path.join(guide, 'fresh.md'), 'Fresh\n');
+    await fs.writeFile(path.join(guide, 'linked.md'), '[same](same.md)\n');
+
+    const client = fakeClient({
+      chapters: [ { id: 10, book_id: 1, name: 'guide', slug: 'guide' } ],
+      pages: [
+        { id: 20, book_id: 1, chapter_id: 10, name: 'same', slug: 'same', markdown: 'Same\nbody' },
+        { id: 21, book_id: 1, chapter_id: 10, name: 'edited', slug: 'edited', markdown: 'Old body' },
+        { id: 22, book_id: 1, chapter_id: 10, name: 'linked', slug: 'linked', markdown: '[same](https://bs.example/books/book/page/same)' },
+      ],
+    });
+    const logs: string[] = [];
+    const origLog = console.log;
+    console.log = (...args: any[]) => { logs.push(args.join(' ')); };
+    try {
+      await new ImportCommand(client).execute(tmpdir, { format: 'markdown' });
+    } finally {
+      console.log = origLog;
+    }
+
+    const updated = client.calls.filter((c: any[]) => c[0] === 'updatePage').map((c: any[]) => c[1]);
+    expect(updated).toEqual([21]);
+    expect(logs).toContain('  Summary: 1 created, 1 updated, 2 unchanged, 1 skipped');
+  });
+
+  it('updates an existing page when only its tags differ', async () => {
+    await fs.ensureDir(path.join(tmpdir, 'guide'));
+    await fs.writeFile(path.join(tmpdir, 'guide', 'page.md'), '---\ntags: [team=docs]\n---\nBody\n');
+    const client = fakeClient({
+      chapters: [ { id: 10, book_id: 1, name: 'guide', slug: 'guide' } ],
+      pages: [ { id: 20, book_id: 1, chapter_id: 10, name: 'page', slug: 'page', markdown: 'Body\n', tags: [] } ],
+    });
+    await new ImportCommand(client).execute(tmpdir, { format: 'markdown' });
+    const [, id, data] = client.calls.find((c: any[]) => c[0] === 'updatePage');
+    expect(id).toBe(20);
+    expect(data.tags).toEqual([ { name: 'team', value: 'docs' } ]);
+  });
+
+  it('imports a book JSON document with -f json', async () => {
+    const file = path.join(tmpdir, 'book.json');
+    await fs.writeJson(file, {
+      version: 1,
+      name: 'Handbook',
+      description: 'Generated',
+      pages: [ { name: 'Welcome', html: '<p>Hi</p>', priority: 1 } ],
+      chapters: [ { name: 'Setup', priority: 2, pages: [ { name: 'Install', markdown: '# Install', tags: ['os=linux'] } ] } ],
+    });
+
+    const client = fakeClient();
+    await new ImportCommand(client).execute(file, { format: 'json' });
+
+    expect(client.calls).toContainEqual(['updateBook', 1, { description: 'Generated' }]);
+    const [, , chapter] = client.calls.find((c: any[]) => c[0] === 'createChapter');
+    expect(chapter).toMatchObject({ name: 'Setup', priority: 2 });
+    const created = client.calls.filter((c: any[]) => c[0] === 'createPage').map((c: any[]) => c[1]);
+    expect(created[0]).toMatchObject({ name: 'Welcome', html: '<p>Hi</p>', priority: 1 });
+    expect(created[0].chapter_id).toBeUndefined();
+    expect(created[1]).toMatchObject({ name: 'Install', chapter_id: client.chapters[0].id, markdown: '# Install', tags: [ { name: 'os', value: 'linux' } ] });
+    expect(created[1].html).toContain('<h1');
+  });
+
+  it('rejects malformed book JSON', async () => {
+    const file = path.join(tmpdir, 'book.json');
+    await fs.writeJson(file, { name: 'Handbook', pages: [ { name: 'P', template: 'yes' } ] });
+    await expect(new ImportCommand(fakeClient()).execute(file, { format: 'json' }))
+      .rejects.toThrow('pages[0].template must be true or false');
+  });
+
+  it('imports a zip archive without extracting it', async () => {
+    const archive = path.join(tmpdir, 'site.zip');
+    await fs.writeFile(archive, makeZip({
+      'docs/.book-metadata.json': JSON.stringify({ name: 'Docs' }),
+      'docs/index.md': '[setup](guide/setup/)\n',
+      'docs/guide/setup/page.md': '# Setup\n',
+      'docs/guide/setup/img/a.png': 'png-bytes',
+      'docs/guide/setup/.page-metadata.json': JSON.stringify({ name: 'Setup', priority: 2 }),
+    }));
+    await fs.writeFile(path.join(tmpdir, 'guide.md'), 'not part of the archive');
+
+    const client = fakeClient();
+    await new ImportCommand(client).execute(archive, { format: 'markdown' });
+
+    const created = client.calls.filter((c: any[]) => c[0] === 'createPage').map((c: any[]) => c[1]);
+    expect(created.map((p: any) => p.name)).toEqual(['index', 'Setup']);
+    expect(created[1]).toMatchObject({ chapter_id: client.chapters[0].id, priority: 2 });
+    expect(client.chapters[0].name).toBe('guide');
+    const update = client.calls.find((c: any[]) => c[0] === 'updatePage');
+    expect(update[2].markdown).toBe('[setup](https://bs.example/books/book/page/setup)\n');
+    expect(await fs.readdir(tmpdir)).toEqual(['guide.md', 'site.zip']);
+  });
+
+  it('refuses archives with path traversal entries', async () => {
+    const archive = path.join(tmpdir, 'evil.tar');
+    await fs.writeFile(archive, makeTar({ 'docs/../../escape.md': 'x' }));
+    const client = fakeClient();
+    await expect(new ImportCommand(client).execute(archive, { format: 'markdown' })).rejects.toThrow('path traversal');
+    expect(client.calls).toEqual([]);
+  });
+
+  it('skips ignored files in both the count and the walk', async () => {
+    await fs.ensureDir(path.join(tmpdir, 'guide', '_partials'));
+    await fs.ensureDir(path.join(tmpdir, 'node_modules', 'pkg'));
+    await fs.writeFile(path.join(tmpdir, '.bookstackignore'), '# build output\nnode_modules/\n_partials/\n');
+    await fs.writeFile(path.join(tmpdir, 'guide', '.bookstackignore'), '*.draft.md\n');
+    await fs.writeFile(path.join(tmpdir, 'index.md'), 'Home\n');
+    await fs.writeFile(path.join(tmpdir, 'CHANGELOG.md'), 'Changes\n');
+    await fs.writeFile(path.join(tmpdir, 'guide', 'setup.md'), 'Setup\n');
+    await fs.writeFile(path.join(tmpdir, 'guide', 'wip.draft.md'), 'WIP\n');
+    await fs.writeFile(path.join(tmpdir, 'guide', '_partials', 'page.md'), 'Partial\n');
+    await fs.writeFile(path.join(tmpdir, 'node_modules', 'pkg', 'README.md'), 'Readme\n');
+
+    const client = fakeClient();
+    const cmd = new ImportCommand(client);
+    const options = { format: 'markdown', exclude: ['CHANGELOG.md'] };
+    await cmd.execute(tmpdir, options);
+
+    const created = client.calls.filter((c: any[]) => c[0] === 'createPage').map((c: any[]) => c[1].name);
+    expect(created).toEqual(['index', 'setup']);
+    expect(client.chapters.map((ch: any) => ch.name)).toEqual(['guide']);
+    expect(await (cmd as any).countFiles(tmpdir, options)).toBe(2);
+  });
+
+  it('keeps chapter order and page priorities deterministic with concurrency', async () => {
+    for (const name of ['a', 'b', 'c']) await fs.writeFile(path.join(tmpdir, `${name}.md`), name);
+    for (const ch of ['one', 'two']) {
+      await fs.ensureDir(path.join(tmpdir, ch));
+      for (const name of ['x', 'y', 'z']) await fs.writeFile(path.join(tmpdir, ch, `${name}.md`), name);
+    }
+
+    const client = fakeClient();
+    const createPage = client.createPage;
+    let active = 0;
+    let peak = 0;
+    // Earlier pages take longer, so writes finish out of order
+    client.createPage = async (data: any) => {
+      peak = Math.max(peak, ++active);
+      await new Promise((r) => setTimeout(r, data.name === 'a' || data.name === 'x' ? 10 : 1));
+      active--;
+      return createPage(data);
+    };
+    await new ImportCommand(client).execute(tmpdir, { format: 'markdown', concurrency: 3 });
+
+    expect(peak).toBe(3);
+    expect(client.chapters.map((ch: any) => ch.name)).toEqual(['one', 'two']);
+    const byName = (chapterId: number | undefined) => client.pages
+      .filter((p: any) => p.chapter_id === chapterId)
+      .sort((p: any, q: any) => p.priority - q.priority)
+      .map((p: any) => p.name);
+    expect(byName(undefined)).toEqual(['a', 'b', 'c']);
+    expect(byName(client.chapters[0].id)).toEqual(['x', 'y', 'z']);
+    expect(byName(client.chapters[1].id)).toEqual(['x', 'y', 'z']);
+  });
+
+  it('resumes an interrupted import from its journal', async () => {
+    await fs.writeFile(path.join(tmpdir, 'a.md'), 'A\n');
+    await fs.writeFile(path.join(tmpdir, 'b.md'), '[a](a.md)\n');
+    await fs.writeFile(path.join(tmpdir, 'c.md'), 'C\n');
+
+    const client = fakeClient();
+    const createPage = client.createPage;
+    client.createPage = async (data: any) => {
+      if (data.name === 'c') throw new Error('network down');
+      return createPage(data);
+    };
+    await expect(new ImportCommand(client).execute(tmpdir, { format: 'markdown' })).rejects.toThrow('network down');
+    expect(await fs.pathExists(path.join(tmpdir, JOURNAL_FILE))).toBe(true);
+
+    client.createPage = createPage;
+    client.calls.length = 0;
+    const logs: string[] = [];
+    const origLog = console.log;
+    console.log = (...args: any[]) => { logs.push(args.join(' ')); };
+    try {
+      await new ImportCommand(client).execute(tmpdir, { format: 'markdown', resume: true });
+    } finally {
+      console.log = origLog;
+    }
+
+    // b links to a, but was never rewritten before the failure, so only a is skipped
+    const created = client.calls.filter((c: any[]) => c[0] === 'createPage').map((c: any[]) => c[1].name);
+    expect(created).toEqual(['c']);
+    expect(logs).toContain('  Resumed: 1 pages finished by the interrupted run were not imported again');
+    expect(await fs.pathExists(path.join(tmpdir, JOURNAL_FILE))).toBe(false);
+    const state = await fs.readJson(path.join(tmpdir, STATE_FILE));
+    expect(Object.keys(state.pages)).toEqual(['a.md', 'b.md', 'c.md']);
+  });
+
+  it('writes a JSON report of every item, including the failure that stopped the run', async () => {
+    await fs.ensureDir(path.join(tmpdir, 'guide', 'empty'));
+    await fs.writeFile(path.join(tmpdir, 'index.md'), 'Home\n');
+    await fs.writeFile(path.join(tmpdir, 'guide', 'z-broken.md'), 'Broken\n');
+    const reportFile = path.join(tmpdir, 'out', 'report.json');
+
+    const client = fakeClient();
+    const createPage = client.createPage;
+    client.createPage = async (data: any) => {
+      if (data.name === 'z-broken') throw new Error('validation failed');
+      return createPage(data);
+    };
+    await expect(new ImportCommand(client).execute(tmpdir, { format: 'markdown', report: reportFile, state: false }))
+      .rejects.toThrow('validation failed');
+
+    const report = await fs.readJson(reportFile);
+    expect(report).toMatchObject({ version: 1, operation: 'import', ok: false, error: 'validation failed', summary: { created: 1, skipped: 1, failed: 1 } });
+    expect(report.items.map((i: any) => [i.type, i.status, i.path])).toEqual([
+      ['book', 'unchanged', undefined],
+      ['page', 'created', 'index.md'],
+      ['chapter', 'created', 'guide'],
+      ['page', 'skipped', 'guide/empty'],
+      ['page', 'failed', 'guide/z-broken.md'],
+    ]);
+    const index = report.items[1];
+    expect(index).toMatchObject({ name: 'index', id: 100, url: 'https://bs.example/books/book/page/index', bytes: 5 });
+    expect(typeof index.durationMs).toBe('number');
+    expect(report.items[4].error).toBe('validation failed');
+  });
+
+  it('keeps going past failed pages with continueOnError and lists them at the end', async () => {
+    await fs.ensureDir(path.join(tmpdir, 'one'));
+    await fs.ensureDir(path.join(tmpdir, 'two'));
+    await fs.writeFile(path.join(tmpdir, 'one', 'bad.md'), 'Bad\n');
+    await fs.writeFile(path.join(tmpdir, 'one', 'good.md'), 'Good\n');
+    await fs.writeFile(path.join(tmpdir, 'two', 'fine.md'), 'Fine\n');
+
+    const client = fakeClient({ pages: [ { id: 50, book_id: 1, name: 'stale', slug: 'stale' } ] });
+    const createPage = client.createPage;
+    client.createPage = async (data: any) => {
+      if (data.name === 'bad') throw new Error('HTTP 500');
+      return createPage(data);
+    };
+    const logs: string[] = [];
+    const origLog = console.log;
+    console.log = (...args: any[]) => { logs.push(args.join(' ')); };
+    const cmd = new ImportCommand(client);
+    try {
+      await cmd.execute(tmpdir, { format: 'markdown', continueOnError: true, sync: true, yes: true });
+    } finally {
+      console.log = origLog;
+    }
+
+    expect(cmd.failed).toBe(1);
+    const created = client.calls.filter((c: any[]) => c[0] === 'createPage').map((c: any[]) => c[1].name);
+    expect(created).toEqual(['good', 'fine']);
+    expect(logs.some((l) => l.endsWith('Import completed with 1 failures'))).toBe(true);
+    expect(logs).toContain('  page  one/bad.md  HTTP 500');
+    // A failed page might be one of the "orphans", so sync leaves the book alone
+    expect(client.calls.some((c: any[]) => c[0] === 'deletePage')).toBe(false);
+    expect(await fs.pathExists(path.join(tmpdir, JOURNAL_FILE))).toBe(true);
+  });
+
+  describe('state manifest', () => {
+    it('records IDs and updates a retitled page by ID', async () => {
+      await fs.ensureDir(path.join(tmpdir, 'guide'));
+      await fs.writeFile(path.join(tmpdir, 'guide', 'intro.md'), '---\ntitle: Intro\n---\nBody\n');
+      const client = fakeClient();
+      await new ImportCommand(client).execute(tmpdir, { format: 'markdown' });
+
+      const state = await fs.readJson(path.join(tmpdir, STATE_FILE));
+      const page = client.calls.find((c: any[]) => c[0] === 'createPage');
+      const chapter = client.calls.find((c: any[]) => c[0] === 'createChapter');
+      expect(state.book).toEqual({ id: 1 });
+      expect(state.chapters).toEqual({ guide: { id: 100 } });
+      expect(state.pages['guide/intro.md']).toMatchObject({ id: 101, chapterId: 100 });
+      expect(page[1].name).toBe('Intro');
+      expect(chapter[2].name).toBe('guide');
+
+      await fs.writeFile(path.join(tmpdir, 'guide', 'intro.md'), '---\ntitle: Getting Started\n---\nBody\n');
+      client.calls.length = 0;
+      await new ImportCommand(client).execute(tmpdir, { format: 'markdown' });
+      expect(client.calls.some((c: any[]) => c[0] === 'createPage')).toBe(false);
+      const update = client.calls.find((c: any[]) => c[0] === 'updatePage');
+      expect(update[1]).toBe(101);
+      expect(update[2].name).toBe('Getting Started');
+    });
+
+    it('keeps the entry of a page that failed, so a later retitle still updates it', async () => {
+      await fs.writeFile(path.join(tmpdir, 'intro.md'), '---\ntitle: Intro\n---\nBody\n');
+      await fs.writeFile(path.join(tmpdir, 'other.md'), 'Other\n');
+      const client = fakeClient();
+      await new ImportCommand(client).execute(tmpdir, { format: 'markdown' });
+      const introId = (await fs.readJson(path.join(tmpdir, STATE_FILE))).pages['intro.md'].id;
+
+      await fs.writeFile(path.join(tmpdir, 'intro.md'), '---\ntitle: Intro\n---\nNew body\n');
+      const updatePage = client.updatePage;
+      client.updatePage = async () => { throw new Error('HTTP 500'); };
+      const failing = new ImportCommand(client);
+      await failing.execute(tmpdir, { format: 'markdown', continueOnError: true });
+      expect(failing.failed).toBe(1);
+      expect((await fs.readJson(path.join(tmpdir, STATE_FILE))).pages['intro.md'].id).toBe(introId);
+
+      client.updatePage = updatePage;
+      await fs.writeFile(path.join(tmpdir, 'intro.md'), '---\ntitle: Getting Started\n---\nNew body\n');
+      client.calls.length = 0;
+      await new ImportCommand(client).execute(tmpdir, { format: 'markdown' });
+      expect(client.calls.some((c: any[]) => c[0] === 'createPage')).toBe(false);
+      expect(client.calls).toContainEqual(['updatePage', introId, expect.objectContaining({ name: 'Getting Started' })]);
+    });
+
+    it('moves the page when its file moves to another chapter directory', async () => {
+      await fs.ensureDir(path.join(tmpdir, 'guide'));
+      await fs.ensureDir(path.join(tmpdir, 'howto'));
+      await fs.writeFile(path.join(tmpdir, 'guide', 'setup.md'), 'Setup steps\n');
+      await fs.writeFile(path.join(tmpdir, 'howto', 'other.md'), 'Other\n');
+      const client = fakeClient();
+      await new ImportCommand(client).execute(tmpdir, { format: 'markdown' });
+      const setupId = (await fs.readJson(path.join(tmpdir, STATE_FILE))).pages['guide/setup.md'].id;
+
+      await fs.move(path.join(tmpdir, 'guide', 'setup.md'), path.join(tmpdir, 'howto', 'installing.md'));
+      client.calls.length = 0;
+      await new ImportCommand(client).execute(tmpdir, { format: 'markdown' });
+
+      const howto = client.chapters.find((ch: any) => ch.name === 'howto');
+      expect(client.calls).toContainEqual(['movePage', setupId, { chapterId: howto.id }]);
+      expect(client.calls.some((c: any[]) => c[0] === 'createPage')).toBe(false);
+      const state = await fs.readJson(path.join(tmpdir, STATE_FILE));
+      expect(state.pages['howto/installing.md'].id).toBe(setupId);
+      expect(state.pages['guide/setup.md']).toBeUndefined();
+    });
+
+    it('gives a renamed page to one file when several match it under concurrency', async () => {
+      await fs.writeFile(path.join(tmpdir, 'a.md'), 'Same\n');
+      const client = fakeClient();
+      await new ImportCommand(client).execute(tmpdir, { format: 'markdown' });
+      const oldId = (await fs.readJson(path.join(tmpdir, STATE_FILE))).pages['a.md'].id;
+
+      await fs.move(path.join(tmpdir, 'a.md'), path.join(tmpdir, 'b.md'));
+      await fs.writeFile(path.join(tmpdir, 'c.md'), 'Same\n');
+      client.calls.length = 0;
+      const getPages = client.getPages;
+      let fetches = 0;
+      // A slow listing keeps both files waiting on it at the same time
+      client.getPages = async () => {
+        fetches++;
+        await new Promise((r) => setTimeout(r, 5));
+        return getPages();
+      };
+      // Fetches made before the first write, which invalidates the cached pages
+      let beforeWrite: number | undefined;
+      const { createPage, updatePage } = client;
+      client.createPage = async (data: any) => {
+        beforeWrite ??= fetches;
+        return createPage(data);
+      };
+      client.updatePage = async (id: number, data: any) => {
+        beforeWrite ??= fetches;
+        return updatePage(id, data);
+      };
+      await new ImportCommand(client).execute(tmpdir, { format: 'markdown', concurrency: 2 });
+
+      const created = client.calls.filter((c: any[]) => c[0] === 'createPage');
+      expect(created.length).toBe(1);
+      const newId = client.pages.find((p: any) => p.name === created[0][1].name).id;
+      const pages = (await fs.readJson(path.join(tmpdir, STATE_FILE))).pages;
+      expect([pages['b.md'].id, pages['c.md'].id].sort()).toEqual([oldId, newId].sort());
+      // Both files looked up the book's pages with one request
+      expect(beforeWrite).toBe(1);
+    });
+
+    it('is not written in dry-run mode or with state: false', async () => {
+      await fs.writeFile(path.join(tmpdir, 'a.md'), 'A\n');
+      await new ImportCommand(fakeClient()).execute(tmpdir, { format: 'markdown', dryRun: true });
+      await new ImportCommand(fakeClient()).execute(tmpdir, { format: 'markdown', state: false });
+      expect(await fs.pathExists(path.join(tmpdir, STATE_FILE))).toBe(false);
+    });
+  });
+
+  describe('--sync', () => {
+    // Local tree: guide/ (chapter) with one page; remote also has a stale chapter and pages
+    async function seedSource() {
+      await fs.ensureDir(path.join(tmpdir, 'guide'));
+      await fs.writeFile(path.join(tmpdir, 'guide', 'keep.md'), 'Keep\n');
+    }
+    const remote = () => ({
+      chapters: [
+        { id: 10, book_id: 1, name: 'guide', slug: 'guide' },
+        { id: 11, book_id: 1, name: 'Old Chapter', slug: 'old-chapter' },
+      ],
+      pages: [
+        { id: 20, book_id: 1, chapter_id: 10, name: 'keep', slug: 'keep' },
+        { id: 21, book_id: 1, chapter_id: 10, name: 'renamed away', slug: 'renamed-away' },
+        { id: 22, book_id: 1, chapter_id: 11, name: 'old page', slug: 'old-page' },
+        { id: 23, book_id: 1, name: 'top level stale', slug: 'top-level-stale' },
+      ],
+    });
+
+    it('deletes remote orphans with --yes', async () => {
+      await seedSource();
+      const client = fakeClient(remote());
+      await new ImportCommand(client).execute(tmpdir, { format: 'markdown', sync: true, yes: true });
+      const removals = client.calls.filter((c: any[]) => c[0].startsWith('delete'));
+      // Page 22 goes with its chapter
+      expect(removals).toEqual([['deleteChapter', 11], ['deletePage', 21], ['deletePage', 23]]);
+    });
+
+    it('moves orphans to a holding chapter with archiveOrphans', async () => {
+      await seedSource();
+      const client = fakeClient(remote());
+      await new ImportCommand(client).execute(tmpdir, { format: 'markdown', sync: true, yes: true, archiveOrphans: 'Attic' });
+      const [, , holding] = client.calls.find((c: any[]) => c[0] === 'createChapter');
+      expect(holding.name).toBe('Attic');
+      const moves = client.calls.filter((c: any[]) => c[0] === 'movePage').map((c: any[]) => c[1]);
+      expect(moves).toEqual([21, 22, 23]);
+      expect(client.calls.filter((c: any[]) => c[0] === 'deleteChapter')).toEqual([['deleteChapter', 11]]);
+      expect(client.calls.some((c: any[]) => c[0] === 'deletePage')).toBe(false);
+    });
+
+    it('lists orphans without writing in dry-run mode', async () => {
+      await seedSource();
+      const client = fakeClient(remote());
+      const logs: string[] = [];
+      const origLog = console.log;
+      console.log = (...args: any[]) => { logs.push(args.join(' ')); };
+      try {
+        await new ImportCommand(client).execute(tmpdir, { format: 'markdown', sync: true, dryRun: true });
+      } finally {
+        console.log = origLog;
+      }
+      expect(client.calls).toEqual([]);
+      const out = logs.join('\n');
+      expect(out).toContain('Sync: 3 pages and 1 chapters no longer exist locally (delete):');
+      expect(out).toContain('chapter: Old Chapter (ID: 11)');
+      expect(out).toContain('page: renamed away (ID: 21 in guide)');
+      expect(out).not.toContain('page: keep');
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'bun:test';
+import { bookstackAnchor, findDocumentLinks, isDocumentLink, rewriteDocumentLinks } from '../src/links';
+
+describe('document links', () => {
+  it('recognises relative links to documents and folders only', () => {
+    expect(isDocumentLink('../setup/page.md#install')).toBe(true);
+    expect(isDocumentLink('guide/')).toBe(true);
+    expect(isDocumentLink('notes.HTML?x=1')).toBe(true);
+    expect(isDocumentLink('https://example.com/a.md')).toBe(false);
+    expect(isDocumentLink('/abs/a.md')).toBe(false);
+    expect(isDocumentLink('#local')).toBe(false);
+    expect(isDocumentLink('img/a.png')).toBe(false);
+  });
+
+  it('finds markdown and HTML links but not images', () => {
+    const md = '[a](a.md) ![b](b.md) [c](<c d.md> "t") <a href=\'e.html\'>e</a>';
+    expect(findDocumentLinks(md, 'markdown')).toEqual(['a.md', 'c d.md', 'e.html']);
+    expect(findDocumentLinks(md, 'html')).toEqual(['e.html']);
+  });
+
+  it('rewrites resolved links and reports the others', () => {
+    const res = rewriteDocumentLinks('[a](a.md "Title") [b](b.md) [a again](a.md)', 'markdown', (t) => (t === 'a.md' ? 'https://bs/a' : null));
+    expect(res.content).toBe('[a](https://bs/a "Title") [b](b.md) [a again](https://bs/a)');
+    expect(res.resolved).toBe(2);
+    expect(res.unresolved).toEqual(['b.md']);
+  });
+
+  it('maps anchors onto BookStack heading IDs', () => {
+    expect(bookstackAnchor('Install-Steps')).toBe('bkmrk-install-steps');
+    expect(bookstackAnchor('a-very-long-heading-anchor-name')).toBe('bkmrk-a-very-long-heading-');
+    expect(bookstackAnchor('bkmrk-kept')).toBe('bkmrk-kept');
+  });
+});
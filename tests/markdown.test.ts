@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'bun:test';
+import { codeLanguage, renderMarkdown } from '../src/markdown';
+
+describe('renderMarkdown', () => {
+  it('renders GFM tables, task lists, strikethrough and autolinks', () => {
+    const html = renderMarkdown([
+      '| a | b |',
+      '|---|---|',
+      '| 1 | 2 |',
+      '',
+      '- [x] done',
+      '- [ ] todo',
+      '',
+      '~~gone~~ https://example.com',
+    ].join('\n'));
+    expect(html).toContain('<table>');
+    expect(html).toContain('<td>1</td>');
+    expect(html).toContain('<input checked="" disabled="" type="checkbox"> done');
+    expect(html).toContain('<del>gone</del>');
+    expect(html).toContain('<a href="https://example.com">https://example.com</a>');
+  });
+
+  it('keeps code blocks intact and tags their language', () => {
+    const html = renderMarkdown('```ts title="x.ts"\nconst a = 1 < 2;\n\nfoo();\n```\n');
+    expect(html).toBe('<pre><code class="language-typescript">const a = 1 &lt; 2;\n\nfoo();\n</code></pre>\n');
+    expect(renderMarkdown('```\nplain\n```')).toBe('<pre><code>plain\n</code></pre>\n');
+  });
+
+  it('handles nested lists, blockquotes, emphasis and deep headings', () => {
+    const html = renderMarkdown('> quote *a **b***\n\n1. one\n   - nested\n\n###### h6\n');
+    expect(html).toContain('<blockquote>\n<p>quote <em>a <strong>b</strong></em></p>');
+    expect(html).toContain('<ol>\n<li>one<ul>\n<li>nested</li>');
+    expect(html).toContain('<h6>h6</h6>');
+  });
+});
+
+describe('codeLanguage', () => {
+  it('maps fence aliases and ignores extra info', () => {
+    expect(codeLanguage('sh')).toBe('bash');
+    expect(codeLanguage('YML')).toBe('yaml');
+    expect(codeLanguage('php startinline')).toBe('php');
+    expect(codeLanguage('')).toBeUndefined();
+  });
+});
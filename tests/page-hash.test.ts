@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'bun:test';
+import { normalizeHtml, normalizeMarkdown, pageHash, pageUnchanged } from '../src/page-hash';
+
+const remote = (extra: any = {}) => ({ id: 1, book_id: 1, name: 'Intro', slug: 'intro', priority: 3, created_at: '', updated_at: '', ...extra });
+
+describe('page hash', () => {
+  it('normalizes line endings and trailing whitespace in markdown', () => {
+    expect(normalizeMarkdown('# A  \r\nbody\t\r\n\r\n')).toBe('# A\nbody');
+  });
+
+  it('ignores BookStack heading ids and whitespace between tags in html', () => {
+    expect(normalizeHtml('<h1 id="bkmrk-intro">Intro</h1>\n<p>x</p>\n')).toBe('<h1>Intro</h1><p>x</p>');
+  });
+
+  it('compares only the fields the local page sets', () => {
+    const local = { name: 'Intro', markdown: 'Body\n' };
+    expect(pageUnchanged(remote({ markdown: 'Body', tags: [ { name: 'x' } ] }), local)).toBe(true);
+    expect(pageUnchanged(remote({ markdown: 'Body' }), { ...local, priority: 4 })).toBe(false);
+    expect(pageUnchanged(remote({ markdown: 'Body' }), { ...local, name: 'Renamed' })).toBe(false);
+  });
+
+  it('sorts tags before hashing', () => {
+    const a = pageHash({ name: 'A', html: '', tags: [ { name: 'x', value: '1' }, { name: 'y' } ] });
+    const b = pageHash({ name: 'A', html: '', tags: [ { name: 'y', value: '' }, { name: 'x', value: '1' } ] });
+    expect(a).toBe(b);
+  });
+});
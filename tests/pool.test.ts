@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'bun:test';
+import { TaskPool } from '../src/pool';
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe('TaskPool', () => {
+  it('starts tasks in submission order with at most limit in flight', async () => {
+    const pool = new TaskPool(2);
+    const started: number[] = [];
+    let active = 0;
+    let peak = 0;
+    for (const n of [1, 2, 3, 4, 5]) {
+      await pool.run(async () => {
+        started.push(n);
+        peak = Math.max(peak, ++active);
+        await sleep(n % 2 ? 5 : 1);
+        active--;
+      });
+    }
+    await pool.drain();
+    expect(started).toEqual([1, 2, 3, 4, 5]);
+    expect(peak).toBe(2);
+  });
+
+  it('rethrows the first failure from drain and starts nothing after it', async () => {
+    const pool = new TaskPool(1);
+    const ran: string[] = [];
+    await pool.run(async () => { ran.push('a'); throw new Error('boom'); });
+    await pool.run(async () => { ran.push('b'); });
+    await expect(pool.drain()).rejects.toThrow('boom');
+    expect(ran).toEqual(['a']);
+
+    // The pool is usable again once the failure has been reported
+    await pool.run(async () => { ran.push('c'); });
+    await pool.drain();
+    expect(ran).toEqual(['a', 'c']);
+  });
+
+  it('rejects a limit below one', () => {
+    expect(() => new TaskPool(0)).toThrow('positive integer');
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'bun:test';
+import { failureTable, RunReport } from '../src/report';
+
+describe('RunReport', () => {
+  it('counts pages by status and is not ok once an item failed', () => {
+    const report = new RunReport('import');
+    report.add({ type: 'book', status: 'unchanged', id: 1 });
+    report.add({ type: 'page', status: 'created', path: 'a.md' });
+    report.add({ type: 'page', status: 'created', path: 'b.md' });
+    report.add({ type: 'chapter', status: 'failed', path: 'guide', error: 'HTTP 403: Forbidden' });
+    const json = report.toJSON();
+    expect(json.summary).toEqual({ created: 2 });
+    expect(json.ok).toBe(false);
+    expect(report.failed).toBe(1);
+  });
+
+  it('aligns the failure table columns', () => {
+    expect(failureTable([
+      { type: 'page', status: 'failed', path: 'guide/setup/page.md', error: 'HTTP 500' },
+      { type: 'chapter', status: 'failed', path: 'api', error: 'HTTP 403: Forbidden' },
+    ])).toEqual([
+      'TYPE     PATH                 ERROR',
+      'page     guide/setup/page.md  HTTP 500',
+      'chapter  api                  HTTP 403: Forbidden',
+    ]);
+  });
+});
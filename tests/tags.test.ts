@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'bun:test';
+import { cleanTags, formatTags, normalizeTags, parseTag } from '../src/tags';
+
+describe('tags', () => {
+  it('parses name=value and bare names', () => {
+    expect(parseTag('team = docs')).toEqual({ name: 'team', value: 'docs' });
+    expect(parseTag('draft')).toEqual({ name: 'draft' });
+  });
+
+  it('normalizes the metadata shapes to one list', () => {
+    const expected = [ { name: 'team', value: 'docs' }, { name: 'draft' } ];
+    expect(normalizeTags([ { name: 'team', value: 'docs' }, { name: 'draft', value: '' } ])).toEqual(expected);
+    expect(normalizeTags([ 'team=docs', 'draft' ])).toEqual(expected);
+    expect(normalizeTags({ team: 'docs', draft: null })).toEqual(expected);
+    expect(normalizeTags(undefined)).toBeUndefined();
+    expect(() => normalizeTags('team')).toThrow();
+  });
+
+  it('drops API-only fields and formats for display', () => {
+    const tags = [ { name: 'team', value: 'docs', order: 0 } as any, { name: 'draft', value: '' } ];
+    expect(cleanTags(tags)).toEqual([ { name: 'team', value: 'docs' }, { name: 'draft' } ]);
+    expect(cleanTags([])).toBeUndefined();
+    expect(formatTags(tags)).toBe('team: docs, draft');
+  });
+});